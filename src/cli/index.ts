@@ -260,7 +260,7 @@ function createDrizzleHelpers(database: Database, nm: NameMapper, opts: SchemaOp
   };
 
   const textCol = (col: string, extra = '') => {
-    if (database === 'mysql' && ['id', 'userId', 'provider', 'tokenType'].includes(col)) {
+    if (database === 'mysql' && ['id', 'userId', 'provider', 'tokenType', 'credentialId', 'key'].includes(col)) {
       return `varchar('${nm.column(col)}', { length: 255 })${extra}`;
     }
     return `text('${nm.column(col)}')${extra}`;
@@ -323,7 +323,7 @@ function getDrizzleAuthSchema(database: Database, nm: NameMapper, opts: SchemaOp
   return `/**
  * SvelteKit Auth - Auth Schema
  *
- * Internal auth tables: accounts, sessions, verifications.
+ * Internal auth tables: accounts, sessions, session versions, two-factor factors, passkeys, login attempts, rate limits, verifications.
  * You typically don't need to modify this file.
  *
  * Generated for: ${database} with Drizzle ORM
@@ -335,7 +335,7 @@ import { users } from './users.js';
 export const accounts = ${h.tableFunc}('${nm.table('account')}', {
   ${h.idDef},
   ${h.textCol('userId', `.notNull().references(() => users.id, { onDelete: 'cascade' })`)},
-  ${h.textCol('type', `.$type<'oauth' | 'credentials' | 'email'>().notNull()`)},
+  ${h.textCol('type', `.$type<'oauth' | 'credentials' | 'email' | 'passkey'>().notNull()`)},
   ${h.textCol('provider', '.notNull()')},
   ${h.textCol('providerAccountId')},
   ${h.textCol('login', '.notNull()')},
@@ -358,10 +358,54 @@ export const sessions = ${h.tableFunc}('${nm.table('session')}', {
   ${h.textCol('sessionToken', '.notNull().unique()')},
   ${h.textCol('userId', `.notNull().references(() => users.id, { onDelete: 'cascade' })`)},
   ${h.expiresTimestamp('expires')},
+  ${h.textCol('userAgent')},
+  ${h.textCol('ipAddress')},
+  ${h.nullableTimestamp('lastSeenAt')},
   ${h.timestampDef('createdAt')},
   ${h.timestampDef('updatedAt')}
 });
 
+export const sessionVersions = ${h.tableFunc}('${nm.table('sessionVersion')}', {
+  ${h.textCol('userId', `.primaryKey().references(() => users.id, { onDelete: 'cascade' })`)},
+  ${h.intType}('${nm.column('version')}').notNull().default(0),
+  ${h.timestampDef('updatedAt')}
+});
+
+export const twoFactors = ${h.tableFunc}('${nm.table('twoFactor')}', {
+  ${h.idDef},
+  ${h.textCol('userId', `.notNull().unique().references(() => users.id, { onDelete: 'cascade' })`)},
+  ${h.textCol('secret', '.notNull()')},
+  ${h.nullableTimestamp('enabledAt')},
+  ${h.intType}('${nm.column('lastUsedStep')}'),
+  ${h.textCol('recoveryCodes', '.notNull()')},
+  ${h.timestampDef('createdAt')},
+  ${h.timestampDef('updatedAt')}
+});
+
+export const authenticators = ${h.tableFunc}('${nm.table('authenticator')}', {
+  ${h.idDef},
+  ${h.textCol('userId', `.notNull().references(() => users.id, { onDelete: 'cascade' })`)},
+  ${h.textCol('credentialId', '.notNull().unique()')},
+  ${h.textCol('publicKey', '.notNull()')},
+  ${h.intType}('${nm.column('counter')}').notNull().default(0),
+  ${h.textCol('transports', '.notNull()')},
+  ${h.timestampDef('createdAt')},
+  ${h.nullableTimestamp('lastUsedAt')}
+});
+
+export const loginAttempts = ${h.tableFunc}('${nm.table('loginAttempt')}', {
+  ${h.textCol('key', '.primaryKey()')},
+  ${h.intType}('${nm.column('count')}').notNull(),
+  ${h.nullableTimestamp('lockedUntil')},
+  ${h.expiresTimestamp('expiresAt')}
+});
+
+export const rateLimits = ${h.tableFunc}('${nm.table('rateLimit')}', {
+  ${h.textCol('key', '.primaryKey()')},
+  ${h.textCol('hits', '.notNull()')},
+  ${h.expiresTimestamp('expiresAt')}
+});
+
 export const verifications = ${h.tableFunc}('${nm.table('verification')}', {
   ${h.textCol('identifier', '.notNull()')},
   ${h.textCol('token', '.notNull().unique()')},
@@ -375,6 +419,16 @@ export type Account = typeof accounts.$inferSelect;
 export type NewAccount = typeof accounts.$inferInsert;
 export type Session = typeof sessions.$inferSelect;
 export type NewSession = typeof sessions.$inferInsert;
+export type SessionVersion = typeof sessionVersions.$inferSelect;
+export type NewSessionVersion = typeof sessionVersions.$inferInsert;
+export type TwoFactor = typeof twoFactors.$inferSelect;
+export type NewTwoFactor = typeof twoFactors.$inferInsert;
+export type Authenticator = typeof authenticators.$inferSelect;
+export type NewAuthenticator = typeof authenticators.$inferInsert;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type NewLoginAttempt = typeof loginAttempts.$inferInsert;
+export type RateLimit = typeof rateLimits.$inferSelect;
+export type NewRateLimit = typeof rateLimits.$inferInsert;
 export type Verification = typeof verifications.$inferSelect;
 export type NewVerification = typeof verifications.$inferInsert;
 
@@ -424,8 +478,11 @@ model User {
   // role          String    @default("user")
   // bio           String?
 
-  accounts Account[]
-  sessions Session[]
+  accounts       Account[]
+  sessions       Session[]
+  sessionVersion SessionVersion?
+  twoFactor      TwoFactor?
+  authenticators Authenticator[]
 
 ${mapTable('user')}
 }
@@ -449,7 +506,7 @@ function getPrismaAuthSchema(database: Database, nm: NameMapper, opts: SchemaOpt
 
   return `// SvelteKit Auth - Auth Schema
 //
-// Internal auth tables: accounts, sessions, verifications.
+// Internal auth tables: accounts, sessions, session versions, two-factor factors, passkeys, login attempts, rate limits, verifications.
 // You typically don't need to modify this file.
 //
 // Generated for: ${database}
@@ -479,18 +536,78 @@ ${mapTable('account')}
 }
 
 model Session {
-  id           String   @id @default(${idDefault})${mapCol('id')}
-  sessionToken String   @unique${mapCol('sessionToken')}
+  id           String    @id @default(${idDefault})${mapCol('id')}
+  sessionToken String    @unique${mapCol('sessionToken')}
   userId       String${mapCol('userId')}
   expires      DateTime${mapCol('expires')}
-  createdAt    DateTime @default(now())${mapCol('createdAt')}
-  updatedAt    DateTime @updatedAt${mapCol('updatedAt')}
+  userAgent    String?${dbText}${mapCol('userAgent')}
+  ipAddress    String?${mapCol('ipAddress')}
+  lastSeenAt   DateTime?${mapCol('lastSeenAt')}
+  createdAt    DateTime  @default(now())${mapCol('createdAt')}
+  updatedAt    DateTime  @updatedAt${mapCol('updatedAt')}
 
   user User @relation(fields: [userId], references: [id], onDelete: Cascade)
 
 ${mapTable('session')}
 }
 
+model SessionVersion {
+  userId    String   @id${mapCol('userId')}
+  version   Int      @default(0)${mapCol('version')}
+  updatedAt DateTime @updatedAt${mapCol('updatedAt')}
+
+  user User @relation(fields: [userId], references: [id], onDelete: Cascade)
+
+${mapTable('sessionVersion')}
+}
+
+model TwoFactor {
+  id            String    @id @default(${idDefault})${mapCol('id')}
+  userId        String    @unique${mapCol('userId')}
+  secret        String${mapCol('secret')}
+  enabledAt     DateTime?${mapCol('enabledAt')}
+  lastUsedStep  Int?${mapCol('lastUsedStep')}
+  recoveryCodes String${dbText}${mapCol('recoveryCodes')}
+  createdAt     DateTime  @default(now())${mapCol('createdAt')}
+  updatedAt     DateTime  @updatedAt${mapCol('updatedAt')}
+
+  user User @relation(fields: [userId], references: [id], onDelete: Cascade)
+
+${mapTable('twoFactor')}
+}
+
+model Authenticator {
+  id           String    @id @default(${idDefault})${mapCol('id')}
+  userId       String${mapCol('userId')}
+  credentialId String    @unique${mapCol('credentialId')}
+  publicKey    String${dbText}${mapCol('publicKey')}
+  counter      Int       @default(0)${mapCol('counter')}
+  transports   String${mapCol('transports')}
+  createdAt    DateTime  @default(now())${mapCol('createdAt')}
+  lastUsedAt   DateTime?${mapCol('lastUsedAt')}
+
+  user User @relation(fields: [userId], references: [id], onDelete: Cascade)
+
+${mapTable('authenticator')}
+}
+
+model LoginAttempt {
+  key         String    @id${mapCol('key')}
+  count       Int${mapCol('count')}
+  lockedUntil DateTime?${mapCol('lockedUntil')}
+  expiresAt   DateTime${mapCol('expiresAt')}
+
+${mapTable('loginAttempt')}
+}
+
+model RateLimit {
+  key       String   @id${mapCol('key')}
+  hits      String${dbText}${mapCol('hits')}
+  expiresAt DateTime${mapCol('expiresAt')}
+
+${mapTable('rateLimit')}
+}
+
 model Verification {
   identifier String${mapCol('identifier')}
   token      String   @unique${mapCol('token')}
@@ -606,7 +723,7 @@ Commands:
 Output:
   Creates two schema files in the output directory:
     users.ts   - User model (extend with your custom fields)
-    auth.ts    - Auth tables (accounts, sessions, verifications)
+    auth.ts    - Auth tables (accounts, sessions, session versions, two-factor factors, passkeys, login attempts, rate limits, verifications)
 
 Options:
   -d, --database <type>   Database: postgres, mysql, sqlite (default: postgres)
@@ -8,7 +8,7 @@
  *
  * This creates two files in `src/lib/server/schemas/`:
  * - `users.ts` - User model (extendable with custom fields)
- * - `auth.ts` - Internal auth tables (accounts, sessions, verifications)
+ * - `auth.ts` - Internal auth tables (accounts, sessions, session versions, two-factor factors, passkeys, login attempts, rate limits, verifications)
  *
  * Example schema (PostgreSQL with Drizzle):
  *
@@ -33,7 +33,7 @@
  * export const accounts = pgTable('accounts', {
  *   id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
  *   userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
- *   type: text('type').$type<'oauth' | 'credentials' | 'email'>().notNull(),
+ *   type: text('type').$type<'oauth' | 'credentials' | 'email' | 'passkey'>().notNull(),
  *   provider: text('provider').notNull(),
  *   providerAccountId: text('provider_account_id'),
  *   login: text('login').notNull(),
@@ -56,10 +56,60 @@
  *   sessionToken: text('session_token').notNull().unique(),
  *   userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
  *   expires: timestamp('expires', { mode: 'date' }).notNull(),
+ *   userAgent: text('user_agent'),
+ *   ipAddress: text('ip_address'),
+ *   lastSeenAt: timestamp('last_seen_at', { mode: 'date' }),
  *   createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
  *   updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull()
  * });
  *
+ * // Only needed for session revocation
+ * export const sessionVersions = pgTable('session_versions', {
+ *   userId: text('user_id').primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+ *   version: integer('version').notNull().default(0),
+ *   updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull()
+ * });
+ *
+ * // Only needed when two-factor authentication is enabled
+ * export const twoFactors = pgTable('two_factors', {
+ *   id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+ *   userId: text('user_id').notNull().unique().references(() => users.id, { onDelete: 'cascade' }),
+ *   secret: text('secret').notNull(),
+ *   enabledAt: timestamp('enabled_at', { mode: 'date' }),
+ *   lastUsedStep: integer('last_used_step'),
+ *   recoveryCodes: text('recovery_codes').notNull(),
+ *   createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+ *   updatedAt: timestamp('updated_at', { mode: 'date' }).defaultNow().notNull()
+ * });
+ *
+ * // Only needed for passkey providers
+ * export const authenticators = pgTable('authenticators', {
+ *   id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+ *   userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+ *   credentialId: text('credential_id').notNull().unique(),
+ *   publicKey: text('public_key').notNull(),
+ *   counter: integer('counter').notNull().default(0),
+ *   transports: text('transports').notNull(),
+ *   createdAt: timestamp('created_at', { mode: 'date' }).defaultNow().notNull(),
+ *   lastUsedAt: timestamp('last_used_at', { mode: 'date' })
+ * });
+ *
+ * // Only needed for adapter attempt stores
+ * export const loginAttempts = pgTable('login_attempts', {
+ *   key: text('key').primaryKey(),
+ *   count: integer('count').notNull(),
+ *   lockedUntil: timestamp('locked_until', { mode: 'date' }),
+ *   expiresAt: timestamp('expires_at', { mode: 'date' }).notNull()
+ * });
+ *
+ * // Only needed for adapter rate limit stores
+ * export const rateLimits = pgTable('rate_limits', {
+ *   key: text('key').primaryKey(),
+ *   hits: text('hits').notNull(),
+ *   expiresAt: timestamp('expires_at', { mode: 'date' }).notNull()
+ * });
+ *
+ * // `token` holds the SHA-256 hash (hex) of the token, never the token itself
  * export const verifications = pgTable('verifications', {
  *   identifier: text('identifier').notNull(),
  *   token: text('token').notNull().unique(),
@@ -75,6 +125,11 @@ import type {
   AdapterUser,
   AdapterAccount,
   AdapterSession,
+  AdapterTwoFactor,
+  AdapterAuthenticator,
+  AdapterOptions,
+  LoginAttempt,
+  RateLimitBucket,
   VerificationToken
 } from '../types.js';
 import { createAdapterHelpers } from './utils.js';
@@ -118,12 +173,32 @@ export interface DrizzleSchema {
   accounts: unknown;
   sessions: unknown;
   verifications: unknown;
+  /**
+   * Only needed for session revocation
+   */
+  sessionVersions?: unknown;
+  /**
+   * Only needed when two-factor authentication is enabled
+   */
+  twoFactors?: unknown;
+  /**
+   * Only needed for passkey providers
+   */
+  authenticators?: unknown;
+  /**
+   * Only needed for adapter attempt stores
+   */
+  loginAttempts?: unknown;
+  /**
+   * Only needed for adapter rate limit stores
+   */
+  rateLimits?: unknown;
 }
 
 /**
  * Drizzle adapter configuration
  */
-export interface DrizzleAdapterConfig {
+export interface DrizzleAdapterConfig extends AdapterOptions {
   /**
    * Drizzle database instance
    */
@@ -140,16 +215,24 @@ export interface DrizzleAdapterConfig {
   operators: {
     eq: (column: unknown, value: unknown) => unknown;
     and: (...conditions: unknown[]) => unknown;
+    /**
+     * Only needed when two-factor authentication is enabled
+     */
+    isNull?: (column: unknown) => unknown;
   };
 }
 
 /**
  * Create a Drizzle ORM adapter instance
  *
+ * Verification tokens are stored as SHA-256 hashes. Set
+ * `allowPlaintextTokens` while tokens stored in plaintext by earlier
+ * versions may still be in use.
+ *
  * @example
  * ```ts
  * import { drizzle } from 'drizzle-orm/postgres-js';
- * import { eq, and } from 'drizzle-orm';
+ * import { eq, and, isNull } from 'drizzle-orm';
  * import postgres from 'postgres';
  * import * as schema from './schema';
  * import { createDrizzleAdapter } from '@sveltekit-auth/core/adapters';
@@ -160,7 +243,7 @@ export interface DrizzleAdapterConfig {
  * const adapter = createDrizzleAdapter({
  *   db,
  *   schema,
- *   operators: { eq, and }
+ *   operators: { eq, and, isNull }
  * });
  *
  * const auth = createAuth({
@@ -172,9 +255,59 @@ export interface DrizzleAdapterConfig {
  */
 export function createDrizzleAdapter(config: DrizzleAdapterConfig): Adapter {
   const { db, schema, operators } = config;
-  const { eq, and } = operators;
+  const { eq, and, isNull } = operators;
   const helpers = createAdapterHelpers();
 
+  /**
+   * Get the session versions table, which is only needed for session revocation
+   */
+  function sessionVersionsTable(): unknown {
+    if (!schema.sessionVersions) {
+      throw new Error('Session revocation requires a sessionVersions table in the Drizzle schema');
+    }
+    return schema.sessionVersions;
+  }
+
+  /**
+   * Get the two-factor table, which is only needed when two-factor auth is enabled
+   */
+  function twoFactorsTable(): unknown {
+    if (!schema.twoFactors) {
+      throw new Error('Two-factor authentication requires a twoFactors table in the Drizzle schema');
+    }
+    return schema.twoFactors;
+  }
+
+  /**
+   * Get the authenticators table, which is only needed for passkey providers
+   */
+  function authenticatorsTable(): unknown {
+    if (!schema.authenticators) {
+      throw new Error('Passkey providers require an authenticators table in the Drizzle schema');
+    }
+    return schema.authenticators;
+  }
+
+  /**
+   * Get the login attempts table, which is only needed for adapter attempt stores
+   */
+  function loginAttemptsTable(): unknown {
+    if (!schema.loginAttempts) {
+      throw new Error('Adapter attempt stores require a loginAttempts table in the Drizzle schema');
+    }
+    return schema.loginAttempts;
+  }
+
+  /**
+   * Get the rate limits table, which is only needed for adapter rate limit stores
+   */
+  function rateLimitsTable(): unknown {
+    if (!schema.rateLimits) {
+      throw new Error('Adapter rate limit stores require a rateLimits table in the Drizzle schema');
+    }
+    return schema.rateLimits;
+  }
+
   return {
     // -------------------------------------------------------------------------
     // User Methods
@@ -355,6 +488,17 @@ export function createDrizzleAdapter(config: DrizzleAdapterConfig): Adapter {
       return (account as unknown as AdapterAccount) ?? null;
     },
 
+    async getAccountsByUserId(userId) {
+      const accounts = schema.accounts as { userId: unknown };
+
+      const rows = await db
+        .select()
+        .from(schema.accounts)
+        .where(eq(accounts.userId, userId));
+
+      return rows as unknown as AdapterAccount[];
+    },
+
     async updateAccount(accountId, data) {
       const accounts = schema.accounts as { id: unknown };
 
@@ -385,6 +529,9 @@ export function createDrizzleAdapter(config: DrizzleAdapterConfig): Adapter {
           sessionToken: sessionData.sessionToken,
           userId: sessionData.userId,
           expires: sessionData.expires,
+          userAgent: sessionData.userAgent,
+          ipAddress: sessionData.ipAddress,
+          lastSeenAt: sessionData.lastSeenAt,
           createdAt: now,
           updatedAt: now
         })
@@ -420,6 +567,7 @@ export function createDrizzleAdapter(config: DrizzleAdapterConfig): Adapter {
         .update(schema.sessions)
         .set({
           expires: sessionData.expires,
+          lastSeenAt: sessionData.lastSeenAt,
           updatedAt: helpers.now()
         })
         .where(eq(sessions.sessionToken, sessionData.sessionToken))
@@ -434,21 +582,285 @@ export function createDrizzleAdapter(config: DrizzleAdapterConfig): Adapter {
       await db.delete(schema.sessions).where(eq(sessions.sessionToken, sessionToken));
     },
 
+    async listSessionsForUser(userId) {
+      const sessions = schema.sessions as { userId: unknown };
+
+      const result = await db
+        .select()
+        .from(schema.sessions)
+        .where(eq(sessions.userId, userId));
+
+      return result as unknown as AdapterSession[];
+    },
+
+    async deleteSessionsForUser(userId) {
+      const sessions = schema.sessions as { userId: unknown };
+
+      await db.delete(schema.sessions).where(eq(sessions.userId, userId));
+    },
+
+    async getSessionVersion(userId) {
+      const sessionVersions = sessionVersionsTable() as { userId: unknown };
+
+      const [stored] = await db
+        .select()
+        .from(sessionVersionsTable())
+        .where(eq(sessionVersions.userId, userId));
+
+      return (stored?.version as number | undefined) ?? 0;
+    },
+
+    async incrementSessionVersion(userId) {
+      const sessionVersions = sessionVersionsTable() as { userId: unknown };
+
+      const [stored] = await db
+        .select()
+        .from(sessionVersionsTable())
+        .where(eq(sessionVersions.userId, userId));
+
+      const version = ((stored?.version as number | undefined) ?? 0) + 1;
+      const data = { version, updatedAt: helpers.now() };
+
+      if (stored) {
+        await db
+          .update(sessionVersionsTable())
+          .set(data)
+          .where(eq(sessionVersions.userId, userId))
+          .returning();
+      } else {
+        await db
+          .insert(sessionVersionsTable())
+          .values({ userId, ...data })
+          .returning();
+      }
+
+      return version;
+    },
+
+    // -------------------------------------------------------------------------
+    // Two-Factor Methods
+    // -------------------------------------------------------------------------
+
+    async createTwoFactor(factorData) {
+      const now = helpers.now();
+
+      const [factor] = await db
+        .insert(twoFactorsTable())
+        .values({
+          id: helpers.generateId(),
+          ...factorData,
+          recoveryCodes: JSON.stringify(factorData.recoveryCodes),
+          createdAt: now,
+          updatedAt: now
+        })
+        .returning();
+
+      return toAdapterTwoFactor(factor);
+    },
+
+    async getTwoFactorByUserId(userId) {
+      const twoFactors = twoFactorsTable() as { userId: unknown };
+
+      const [factor] = await db
+        .select()
+        .from(twoFactorsTable())
+        .where(eq(twoFactors.userId, userId));
+
+      return factor ? toAdapterTwoFactor(factor) : null;
+    },
+
+    async updateTwoFactor(id, data, expected) {
+      const twoFactors = twoFactorsTable() as {
+        id: unknown;
+        lastUsedStep: unknown;
+        recoveryCodes: unknown;
+      };
+      const conditions = [eq(twoFactors.id, id)];
+
+      if (expected?.lastUsedStep === null) {
+        if (!isNull) {
+          throw new Error(
+            'Two-factor authentication requires the isNull operator in the Drizzle adapter config'
+          );
+        }
+        conditions.push(isNull(twoFactors.lastUsedStep));
+      } else if (expected?.lastUsedStep !== undefined) {
+        conditions.push(eq(twoFactors.lastUsedStep, expected.lastUsedStep));
+      }
+      if (expected?.recoveryCodes) {
+        conditions.push(eq(twoFactors.recoveryCodes, JSON.stringify(expected.recoveryCodes)));
+      }
+
+      const [factor] = await db
+        .update(twoFactorsTable())
+        .set({
+          ...data,
+          ...(data.recoveryCodes && { recoveryCodes: JSON.stringify(data.recoveryCodes) }),
+          updatedAt: helpers.now()
+        })
+        .where(and(...conditions))
+        .returning();
+
+      return factor ? toAdapterTwoFactor(factor) : null;
+    },
+
+    async deleteTwoFactor(userId) {
+      const twoFactors = twoFactorsTable() as { userId: unknown };
+
+      await db.delete(twoFactorsTable()).where(eq(twoFactors.userId, userId));
+    },
+
+    // -------------------------------------------------------------------------
+    // Authenticator Methods
+    // -------------------------------------------------------------------------
+
+    async createAuthenticator(authenticatorData) {
+      const [authenticator] = await db
+        .insert(authenticatorsTable())
+        .values({
+          id: helpers.generateId(),
+          ...authenticatorData,
+          transports: JSON.stringify(authenticatorData.transports),
+          createdAt: helpers.now(),
+          lastUsedAt: null
+        })
+        .returning();
+
+      return toAdapterAuthenticator(authenticator);
+    },
+
+    async getAuthenticator(credentialId) {
+      const authenticators = authenticatorsTable() as { credentialId: unknown };
+
+      const [authenticator] = await db
+        .select()
+        .from(authenticatorsTable())
+        .where(eq(authenticators.credentialId, credentialId));
+
+      return authenticator ? toAdapterAuthenticator(authenticator) : null;
+    },
+
+    async getAuthenticatorsByUserId(userId) {
+      const authenticators = authenticatorsTable() as { userId: unknown };
+
+      const rows = await db
+        .select()
+        .from(authenticatorsTable())
+        .where(eq(authenticators.userId, userId));
+
+      return rows.map(toAdapterAuthenticator);
+    },
+
+    async updateAuthenticatorCounter(credentialId, counter) {
+      const authenticators = authenticatorsTable() as { credentialId: unknown };
+
+      const [authenticator] = await db
+        .update(authenticatorsTable())
+        .set({ counter, lastUsedAt: helpers.now() })
+        .where(eq(authenticators.credentialId, credentialId))
+        .returning();
+
+      return authenticator ? toAdapterAuthenticator(authenticator) : null;
+    },
+
+    // -------------------------------------------------------------------------
+    // Login Attempt Methods
+    // -------------------------------------------------------------------------
+
+    async getLoginAttempt(key) {
+      const loginAttempts = loginAttemptsTable() as { key: unknown };
+
+      const [attempt] = await db
+        .select()
+        .from(loginAttemptsTable())
+        .where(eq(loginAttempts.key, key));
+
+      return (attempt as unknown as LoginAttempt) ?? null;
+    },
+
+    async setLoginAttempt(attempt) {
+      const loginAttempts = loginAttemptsTable() as { key: unknown };
+      const { key, ...data } = attempt;
+
+      const [updated] = await db
+        .update(loginAttemptsTable())
+        .set(data)
+        .where(eq(loginAttempts.key, key))
+        .returning();
+
+      if (updated) {
+        return updated as unknown as LoginAttempt;
+      }
+
+      const [created] = await db
+        .insert(loginAttemptsTable())
+        .values({ ...attempt })
+        .returning();
+
+      return created as unknown as LoginAttempt;
+    },
+
+    async deleteLoginAttempt(key) {
+      const loginAttempts = loginAttemptsTable() as { key: unknown };
+
+      await db
+        .delete(loginAttemptsTable())
+        .where(eq(loginAttempts.key, key))
+        .returning();
+    },
+
+    // -------------------------------------------------------------------------
+    // Rate Limit Methods
+    // -------------------------------------------------------------------------
+
+    async getRateLimit(key) {
+      const rateLimits = rateLimitsTable() as { key: unknown };
+
+      const [bucket] = await db
+        .select()
+        .from(rateLimitsTable())
+        .where(eq(rateLimits.key, key));
+
+      return bucket ? toAdapterRateLimit(bucket) : null;
+    },
+
+    async setRateLimit(bucket) {
+      const rateLimits = rateLimitsTable() as { key: unknown };
+      const data = { hits: JSON.stringify(bucket.hits), expiresAt: bucket.expiresAt };
+
+      const [updated] = await db
+        .update(rateLimitsTable())
+        .set(data)
+        .where(eq(rateLimits.key, bucket.key))
+        .returning();
+
+      if (updated) {
+        return toAdapterRateLimit(updated);
+      }
+
+      const [created] = await db
+        .insert(rateLimitsTable())
+        .values({ key: bucket.key, ...data })
+        .returning();
+
+      return toAdapterRateLimit(created);
+    },
+
     // -------------------------------------------------------------------------
     // Verification Token Methods
     // -------------------------------------------------------------------------
 
     async createVerificationToken(token) {
-      const [verificationToken] = await db
+      await db
         .insert(schema.verifications)
         .values({
           identifier: token.identifier,
-          token: token.token,
+          token: await helpers.hashToken(token.token),
           expires: token.expires
         })
         .returning();
 
-      return verificationToken as unknown as VerificationToken;
+      return token;
     },
 
     async useVerificationToken({ identifier, token }) {
@@ -457,12 +869,53 @@ export function createDrizzleAdapter(config: DrizzleAdapterConfig): Adapter {
         token: unknown;
       };
 
-      const [verificationToken] = await db
-        .delete(schema.verifications)
-        .where(and(eq(tokens.identifier, identifier), eq(tokens.token, token)))
-        .returning();
+      const candidates = [await helpers.hashToken(token)];
+      if (config.allowPlaintextTokens) {
+        candidates.push(token);
+      }
 
-      return (verificationToken as unknown as VerificationToken) ?? null;
+      for (const stored of candidates) {
+        const [verificationToken] = await db
+          .delete(schema.verifications)
+          .where(and(eq(tokens.identifier, identifier), eq(tokens.token, stored)))
+          .returning();
+
+        if (verificationToken) {
+          return { ...(verificationToken as unknown as VerificationToken), token };
+        }
+      }
+
+      return null;
     }
   };
 }
+
+/**
+ * Convert a two-factor row, whose recovery codes are stored as JSON text
+ */
+function toAdapterTwoFactor(row: Record<string, unknown>): AdapterTwoFactor {
+  return {
+    ...row,
+    recoveryCodes: JSON.parse((row.recoveryCodes as string | null) ?? '[]')
+  } as AdapterTwoFactor;
+}
+
+/**
+ * Convert an authenticator row, whose transports are stored as JSON text
+ */
+function toAdapterAuthenticator(row: Record<string, unknown>): AdapterAuthenticator {
+  return {
+    ...row,
+    transports: JSON.parse((row.transports as string | null) ?? '[]')
+  } as AdapterAuthenticator;
+}
+
+/**
+ * Convert a rate limit row, whose hits are stored as JSON text
+ */
+function toAdapterRateLimit(row: Record<string, unknown>): RateLimitBucket {
+  return {
+    ...row,
+    hits: JSON.parse((row.hits as string | null) ?? '[]')
+  } as RateLimitBucket;
+}
@@ -20,6 +20,7 @@ export type {
   Adapter,
   PartialAdapter,
   AdapterConfig,
+  AdapterOptions,
   AdapterUser,
   AdapterAccount,
   AdapterSession,
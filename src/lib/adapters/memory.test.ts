@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryAdapter } from './memory.js';
+import { createAdapterHelpers } from './utils.js';
+
+const identifier = 'user@example.com';
+
+describe('memory verification tokens', () => {
+  it('are used once with the original token, not the stored hash', async () => {
+    const adapter = createMemoryAdapter();
+    const expires = new Date(Date.now() + 60_000);
+    await adapter.createVerificationToken({ identifier, token: 'raw', expires });
+
+    const hashed = await createAdapterHelpers().hashToken('raw');
+
+    expect(await adapter.useVerificationToken({ identifier, token: hashed })).toBeNull();
+    expect(await adapter.useVerificationToken({ identifier, token: 'raw' })).toEqual({
+      identifier,
+      token: 'raw',
+      expires
+    });
+    expect(await adapter.useVerificationToken({ identifier, token: 'raw' })).toBeNull();
+  });
+});
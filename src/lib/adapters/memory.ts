@@ -10,6 +10,10 @@ import type {
   AdapterUser,
   AdapterAccount,
   AdapterSession,
+  AdapterTwoFactor,
+  AdapterAuthenticator,
+  LoginAttempt,
+  RateLimitBucket,
   VerificationToken
 } from '../types.js';
 import { createAdapterHelpers, AdapterError, AdapterErrorCodes } from './utils.js';
@@ -20,6 +24,11 @@ interface MemoryStore {
   accountsByLogin: Map<string, AdapterAccount>; // Secondary index for login lookups
   accountsById: Map<string, AdapterAccount>; // Index by account ID
   sessions: Map<string, AdapterSession>;
+  sessionVersions: Map<string, number>; // By user ID
+  twoFactors: Map<string, AdapterTwoFactor>; // By user ID
+  authenticators: Map<string, AdapterAuthenticator>; // By credential ID
+  loginAttempts: Map<string, LoginAttempt>;
+  rateLimits: Map<string, RateLimitBucket>;
   verificationTokens: Map<string, VerificationToken>;
 }
 
@@ -46,6 +55,11 @@ export function createMemoryAdapter(): Adapter {
     accountsByLogin: new Map(),
     accountsById: new Map(),
     sessions: new Map(),
+    sessionVersions: new Map(),
+    twoFactors: new Map(),
+    authenticators: new Map(),
+    loginAttempts: new Map(),
+    rateLimits: new Map(),
     verificationTokens: new Map()
   };
 
@@ -172,6 +186,19 @@ export function createMemoryAdapter(): Adapter {
         }
       }
 
+      // Delete user's session version
+      store.sessionVersions.delete(id);
+
+      // Delete user's two-factor factor
+      store.twoFactors.delete(id);
+
+      // Delete user's passkeys
+      for (const [credentialId, authenticator] of store.authenticators.entries()) {
+        if (authenticator.userId === id) {
+          store.authenticators.delete(credentialId);
+        }
+      }
+
       // Delete user
       store.users.delete(id);
     },
@@ -270,6 +297,10 @@ export function createMemoryAdapter(): Adapter {
       return store.accountsByLogin.get(loginKey) ?? null;
     },
 
+    async getAccountsByUserId(userId) {
+      return [...store.accountsById.values()].filter((account) => account.userId === userId);
+    },
+
     async updateAccount(accountId, data) {
       const account = store.accountsById.get(accountId);
 
@@ -361,18 +392,163 @@ export function createMemoryAdapter(): Adapter {
       store.sessions.delete(sessionToken);
     },
 
+    async listSessionsForUser(userId) {
+      return [...store.sessions.values()].filter((session) => session.userId === userId);
+    },
+
+    async deleteSessionsForUser(userId) {
+      for (const [key, session] of store.sessions.entries()) {
+        if (session.userId === userId) {
+          store.sessions.delete(key);
+        }
+      }
+    },
+
+    async getSessionVersion(userId) {
+      return store.sessionVersions.get(userId) ?? 0;
+    },
+
+    async incrementSessionVersion(userId) {
+      const version = (store.sessionVersions.get(userId) ?? 0) + 1;
+      store.sessionVersions.set(userId, version);
+      return version;
+    },
+
+    // -------------------------------------------------------------------------
+    // Two-Factor Methods
+    // -------------------------------------------------------------------------
+
+    async createTwoFactor(factorData) {
+      const now = helpers.now();
+      const factor: AdapterTwoFactor = {
+        ...factorData,
+        id: helpers.generateId(),
+        createdAt: now,
+        updatedAt: now
+      };
+
+      store.twoFactors.set(factor.userId, factor);
+      return factor;
+    },
+
+    async getTwoFactorByUserId(userId) {
+      return store.twoFactors.get(userId) ?? null;
+    },
+
+    async updateTwoFactor(id, data, expected) {
+      for (const factor of store.twoFactors.values()) {
+        if (factor.id === id) {
+          if (
+            (expected?.lastUsedStep !== undefined && factor.lastUsedStep !== expected.lastUsedStep) ||
+            (expected?.recoveryCodes &&
+              JSON.stringify(factor.recoveryCodes) !== JSON.stringify(expected.recoveryCodes))
+          ) {
+            return null;
+          }
+
+          const updated: AdapterTwoFactor = {
+            ...factor,
+            ...data,
+            updatedAt: helpers.now()
+          };
+
+          store.twoFactors.set(factor.userId, updated);
+          return updated;
+        }
+      }
+
+      return null;
+    },
+
+    async deleteTwoFactor(userId) {
+      store.twoFactors.delete(userId);
+    },
+
+    // -------------------------------------------------------------------------
+    // Authenticator Methods
+    // -------------------------------------------------------------------------
+
+    async createAuthenticator(authenticatorData) {
+      const authenticator: AdapterAuthenticator = {
+        ...authenticatorData,
+        id: helpers.generateId(),
+        createdAt: helpers.now(),
+        lastUsedAt: null
+      };
+
+      store.authenticators.set(authenticator.credentialId, authenticator);
+      return authenticator;
+    },
+
+    async getAuthenticator(credentialId) {
+      return store.authenticators.get(credentialId) ?? null;
+    },
+
+    async getAuthenticatorsByUserId(userId) {
+      return Array.from(store.authenticators.values()).filter(
+        (authenticator) => authenticator.userId === userId
+      );
+    },
+
+    async updateAuthenticatorCounter(credentialId, counter) {
+      const authenticator = store.authenticators.get(credentialId);
+      if (!authenticator) {
+        return null;
+      }
+
+      const updated: AdapterAuthenticator = {
+        ...authenticator,
+        counter,
+        lastUsedAt: helpers.now()
+      };
+
+      store.authenticators.set(credentialId, updated);
+      return updated;
+    },
+
+    // -------------------------------------------------------------------------
+    // Login Attempt Methods
+    // -------------------------------------------------------------------------
+
+    async getLoginAttempt(key) {
+      return store.loginAttempts.get(key) ?? null;
+    },
+
+    async setLoginAttempt(attempt) {
+      store.loginAttempts.set(attempt.key, attempt);
+      return attempt;
+    },
+
+    async deleteLoginAttempt(key) {
+      store.loginAttempts.delete(key);
+    },
+
+    // -------------------------------------------------------------------------
+    // Rate Limit Methods
+    // -------------------------------------------------------------------------
+
+    async getRateLimit(key) {
+      return store.rateLimits.get(key) ?? null;
+    },
+
+    async setRateLimit(bucket) {
+      store.rateLimits.set(bucket.key, bucket);
+      return bucket;
+    },
+
     // -------------------------------------------------------------------------
     // Verification Token Methods
     // -------------------------------------------------------------------------
 
     async createVerificationToken(token) {
-      const key = getTokenKey(token.identifier, token.token);
-      store.verificationTokens.set(key, token);
+      const hashed = await helpers.hashToken(token.token);
+      const key = getTokenKey(token.identifier, hashed);
+      store.verificationTokens.set(key, { ...token, token: hashed });
       return token;
     },
 
     async useVerificationToken({ identifier, token }) {
-      const key = getTokenKey(identifier, token);
+      const key = getTokenKey(identifier, await helpers.hashToken(token));
       const storedToken = store.verificationTokens.get(key);
 
       if (!storedToken) {
@@ -387,7 +563,7 @@ export function createMemoryAdapter(): Adapter {
         return null;
       }
 
-      return storedToken;
+      return { ...storedToken, token };
     }
   };
 }
@@ -413,11 +589,29 @@ export class MemoryAdapter implements Adapter {
   unlinkAccount: Adapter['unlinkAccount'];
   getAccount: Adapter['getAccount'];
   getAccountByLogin: Adapter['getAccountByLogin'];
+  getAccountsByUserId: Adapter['getAccountsByUserId'];
   updateAccount: Adapter['updateAccount'];
   createSession: Adapter['createSession'];
   getSessionAndUser: Adapter['getSessionAndUser'];
   updateSession: Adapter['updateSession'];
   deleteSession: Adapter['deleteSession'];
+  listSessionsForUser: Adapter['listSessionsForUser'];
+  deleteSessionsForUser: Adapter['deleteSessionsForUser'];
+  getSessionVersion: Adapter['getSessionVersion'];
+  incrementSessionVersion: Adapter['incrementSessionVersion'];
+  createTwoFactor: Adapter['createTwoFactor'];
+  getTwoFactorByUserId: Adapter['getTwoFactorByUserId'];
+  updateTwoFactor: Adapter['updateTwoFactor'];
+  deleteTwoFactor: Adapter['deleteTwoFactor'];
+  createAuthenticator: Adapter['createAuthenticator'];
+  getAuthenticator: Adapter['getAuthenticator'];
+  getAuthenticatorsByUserId: Adapter['getAuthenticatorsByUserId'];
+  updateAuthenticatorCounter: Adapter['updateAuthenticatorCounter'];
+  getLoginAttempt: Adapter['getLoginAttempt'];
+  setLoginAttempt: Adapter['setLoginAttempt'];
+  deleteLoginAttempt: Adapter['deleteLoginAttempt'];
+  getRateLimit: Adapter['getRateLimit'];
+  setRateLimit: Adapter['setRateLimit'];
   createVerificationToken: Adapter['createVerificationToken'];
   useVerificationToken: Adapter['useVerificationToken'];
 
@@ -433,11 +627,29 @@ export class MemoryAdapter implements Adapter {
     this.unlinkAccount = this._adapter.unlinkAccount.bind(this._adapter);
     this.getAccount = this._adapter.getAccount.bind(this._adapter);
     this.getAccountByLogin = this._adapter.getAccountByLogin?.bind(this._adapter);
+    this.getAccountsByUserId = this._adapter.getAccountsByUserId?.bind(this._adapter);
     this.updateAccount = this._adapter.updateAccount?.bind(this._adapter);
     this.createSession = this._adapter.createSession.bind(this._adapter);
     this.getSessionAndUser = this._adapter.getSessionAndUser.bind(this._adapter);
     this.updateSession = this._adapter.updateSession.bind(this._adapter);
     this.deleteSession = this._adapter.deleteSession.bind(this._adapter);
+    this.listSessionsForUser = this._adapter.listSessionsForUser?.bind(this._adapter);
+    this.deleteSessionsForUser = this._adapter.deleteSessionsForUser?.bind(this._adapter);
+    this.getSessionVersion = this._adapter.getSessionVersion?.bind(this._adapter);
+    this.incrementSessionVersion = this._adapter.incrementSessionVersion?.bind(this._adapter);
+    this.createTwoFactor = this._adapter.createTwoFactor?.bind(this._adapter);
+    this.getTwoFactorByUserId = this._adapter.getTwoFactorByUserId?.bind(this._adapter);
+    this.updateTwoFactor = this._adapter.updateTwoFactor?.bind(this._adapter);
+    this.deleteTwoFactor = this._adapter.deleteTwoFactor?.bind(this._adapter);
+    this.createAuthenticator = this._adapter.createAuthenticator?.bind(this._adapter);
+    this.getAuthenticator = this._adapter.getAuthenticator?.bind(this._adapter);
+    this.getAuthenticatorsByUserId = this._adapter.getAuthenticatorsByUserId?.bind(this._adapter);
+    this.updateAuthenticatorCounter = this._adapter.updateAuthenticatorCounter?.bind(this._adapter);
+    this.getLoginAttempt = this._adapter.getLoginAttempt?.bind(this._adapter);
+    this.setLoginAttempt = this._adapter.setLoginAttempt?.bind(this._adapter);
+    this.deleteLoginAttempt = this._adapter.deleteLoginAttempt?.bind(this._adapter);
+    this.getRateLimit = this._adapter.getRateLimit?.bind(this._adapter);
+    this.setRateLimit = this._adapter.setRateLimit?.bind(this._adapter);
     this.createVerificationToken = this._adapter.createVerificationToken.bind(this._adapter);
     this.useVerificationToken = this._adapter.useVerificationToken.bind(this._adapter);
   }
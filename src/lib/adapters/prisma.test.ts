@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { VerificationToken } from '../types.js';
+import { createPrismaAdapter, type PrismaClient } from './prisma.js';
+import { createAdapterHelpers } from './utils.js';
+
+const { hashToken } = createAdapterHelpers();
+
+/**
+ * Prisma client holding verification tokens in an array
+ */
+function createClient(rows: VerificationToken[] = []) {
+  const verificationToken = {
+    async create({ data }: { data: Record<string, unknown> }) {
+      rows.push(data as unknown as VerificationToken);
+      return data;
+    },
+    async delete({ where }: { where: Record<string, unknown> }) {
+      const { identifier, token } = where.identifier_token as VerificationToken;
+      const index = rows.findIndex((row) => row.identifier === identifier && row.token === token);
+      if (index === -1) {
+        throw new Error('Record to delete does not exist');
+      }
+      return rows.splice(index, 1)[0] as unknown as Record<string, unknown>;
+    }
+  };
+
+  return { rows, client: { verificationToken } as unknown as PrismaClient };
+}
+
+const identifier = 'user@example.com';
+const expires = new Date(Date.now() + 60_000);
+
+describe('Prisma verification tokens', () => {
+  it('are stored as a hash and used once with the original token', async () => {
+    const { rows, client } = createClient();
+    const adapter = createPrismaAdapter(client);
+
+    await adapter.createVerificationToken({ identifier, token: 'raw', expires });
+
+    expect(rows).toEqual([{ identifier, token: await hashToken('raw'), expires }]);
+    expect(await adapter.useVerificationToken({ identifier, token: 'raw' })).toEqual({
+      identifier,
+      token: 'raw',
+      expires
+    });
+    expect(await adapter.useVerificationToken({ identifier, token: 'raw' })).toBeNull();
+  });
+
+  it('cannot be used with the stored hash', async () => {
+    const { client } = createClient();
+    const adapter = createPrismaAdapter(client);
+    await adapter.createVerificationToken({ identifier, token: 'raw', expires });
+
+    const token = await hashToken('raw');
+
+    expect(await adapter.useVerificationToken({ identifier, token })).toBeNull();
+  });
+
+  it('accept plaintext rows only when allowed', async () => {
+    const row = { identifier, token: 'legacy', expires };
+
+    const strict = createPrismaAdapter(createClient([{ ...row }]).client);
+    const compatible = createPrismaAdapter(createClient([{ ...row }]).client, {
+      allowPlaintextTokens: true
+    });
+
+    expect(await strict.useVerificationToken(row)).toBeNull();
+    expect(await compatible.useVerificationToken(row)).toEqual(row);
+  });
+});
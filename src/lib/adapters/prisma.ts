@@ -5,15 +5,18 @@
  *
  * ```prisma
  * model User {
- *   id            String    @id @default(cuid())
- *   email         String    @unique
- *   emailVerified DateTime?
- *   name          String?
- *   image         String?
- *   createdAt     DateTime  @default(now())
- *   updatedAt     DateTime  @updatedAt
- *   accounts      Account[]
- *   sessions      Session[]
+ *   id             String          @id @default(cuid())
+ *   email          String          @unique
+ *   emailVerified  DateTime?
+ *   name           String?
+ *   image          String?
+ *   createdAt      DateTime        @default(now())
+ *   updatedAt      DateTime        @updatedAt
+ *   accounts       Account[]
+ *   sessions       Session[]
+ *   sessionVersion SessionVersion?
+ *   twoFactor      TwoFactor?
+ *   authenticators Authenticator[]
  * }
  *
  * model Account {
@@ -36,15 +39,68 @@
  * }
  *
  * model Session {
- *   id           String   @id @default(cuid())
- *   sessionToken String   @unique
+ *   id           String    @id @default(cuid())
+ *   sessionToken String    @unique
  *   userId       String
  *   expires      DateTime
- *   createdAt    DateTime @default(now())
- *   updatedAt    DateTime @updatedAt
- *   user         User     @relation(fields: [userId], references: [id], onDelete: Cascade)
+ *   userAgent    String?   @db.Text
+ *   ipAddress    String?
+ *   lastSeenAt   DateTime?
+ *   createdAt    DateTime  @default(now())
+ *   updatedAt    DateTime  @updatedAt
+ *   user         User      @relation(fields: [userId], references: [id], onDelete: Cascade)
+ * }
+ *
+ * // Only needed for session revocation
+ * model SessionVersion {
+ *   userId    String   @id
+ *   version   Int      @default(0)
+ *   updatedAt DateTime @updatedAt
+ *   user      User     @relation(fields: [userId], references: [id], onDelete: Cascade)
+ * }
+ *
+ * // Only needed when two-factor authentication is enabled
+ * model TwoFactor {
+ *   id            String    @id @default(cuid())
+ *   userId        String    @unique
+ *   secret        String
+ *   enabledAt     DateTime?
+ *   lastUsedStep  Int?
+ *   recoveryCodes String    @db.Text
+ *   createdAt     DateTime  @default(now())
+ *   updatedAt     DateTime  @updatedAt
+ *   user          User      @relation(fields: [userId], references: [id], onDelete: Cascade)
  * }
  *
+ * // Only needed for passkey providers
+ * model Authenticator {
+ *   id           String    @id @default(cuid())
+ *   userId       String
+ *   credentialId String    @unique
+ *   publicKey    String    @db.Text
+ *   counter      Int       @default(0)
+ *   transports   String
+ *   createdAt    DateTime  @default(now())
+ *   lastUsedAt   DateTime?
+ *   user         User      @relation(fields: [userId], references: [id], onDelete: Cascade)
+ * }
+ *
+ * // Only needed for adapter attempt stores
+ * model LoginAttempt {
+ *   key         String    @id
+ *   count       Int
+ *   lockedUntil DateTime?
+ *   expiresAt   DateTime
+ * }
+ *
+ * // Only needed for adapter rate limit stores
+ * model RateLimit {
+ *   key       String   @id
+ *   hits      String   @db.Text
+ *   expiresAt DateTime
+ * }
+ *
+ * // `token` holds the SHA-256 hash (hex) of the token, never the token itself
  * model VerificationToken {
  *   identifier String
  *   token      String   @unique
@@ -60,8 +116,14 @@ import type {
   AdapterUser,
   AdapterAccount,
   AdapterSession,
+  AdapterTwoFactor,
+  AdapterAuthenticator,
+  AdapterOptions,
+  LoginAttempt,
+  RateLimitBucket,
   VerificationToken
 } from '../types.js';
+import { createAdapterHelpers } from './utils.js';
 
 /**
  * Minimal Prisma client interface
@@ -79,6 +141,7 @@ export interface PrismaClient {
     create: (args: { data: Record<string, unknown> }) => Promise<Record<string, unknown>>;
     findUnique: (args: { where: Record<string, unknown> }) => Promise<Record<string, unknown> | null>;
     findFirst: (args: { where: Record<string, unknown>; include?: Record<string, boolean> }) => Promise<Record<string, unknown> | null>;
+    findMany: (args: { where: Record<string, unknown> }) => Promise<Record<string, unknown>[]>;
     update: (args: { where: Record<string, unknown>; data: Record<string, unknown> }) => Promise<Record<string, unknown>>;
     delete: (args: { where: Record<string, unknown> }) => Promise<Record<string, unknown>>;
     deleteMany: (args: { where: Record<string, unknown> }) => Promise<{ count: number }>;
@@ -86,10 +149,36 @@ export interface PrismaClient {
   session: {
     create: (args: { data: Record<string, unknown> }) => Promise<Record<string, unknown>>;
     findUnique: (args: { where: Record<string, unknown>; include?: Record<string, boolean> }) => Promise<Record<string, unknown> | null>;
+    findMany: (args: { where: Record<string, unknown> }) => Promise<Record<string, unknown>[]>;
     update: (args: { where: Record<string, unknown>; data: Record<string, unknown> }) => Promise<Record<string, unknown>>;
     delete: (args: { where: Record<string, unknown> }) => Promise<Record<string, unknown>>;
     deleteMany: (args: { where: Record<string, unknown> }) => Promise<{ count: number }>;
   };
+  sessionVersion?: {
+    findUnique: (args: { where: Record<string, unknown> }) => Promise<Record<string, unknown> | null>;
+    upsert: (args: { where: Record<string, unknown>; create: Record<string, unknown>; update: Record<string, unknown> }) => Promise<Record<string, unknown>>;
+  };
+  twoFactor?: {
+    create: (args: { data: Record<string, unknown> }) => Promise<Record<string, unknown>>;
+    findUnique: (args: { where: Record<string, unknown> }) => Promise<Record<string, unknown> | null>;
+    update: (args: { where: Record<string, unknown>; data: Record<string, unknown> }) => Promise<Record<string, unknown>>;
+    deleteMany: (args: { where: Record<string, unknown> }) => Promise<{ count: number }>;
+  };
+  authenticator?: {
+    create: (args: { data: Record<string, unknown> }) => Promise<Record<string, unknown>>;
+    findUnique: (args: { where: Record<string, unknown> }) => Promise<Record<string, unknown> | null>;
+    findMany: (args: { where: Record<string, unknown> }) => Promise<Record<string, unknown>[]>;
+    update: (args: { where: Record<string, unknown>; data: Record<string, unknown> }) => Promise<Record<string, unknown>>;
+  };
+  loginAttempt?: {
+    findUnique: (args: { where: Record<string, unknown> }) => Promise<Record<string, unknown> | null>;
+    upsert: (args: { where: Record<string, unknown>; create: Record<string, unknown>; update: Record<string, unknown> }) => Promise<Record<string, unknown>>;
+    deleteMany: (args: { where: Record<string, unknown> }) => Promise<{ count: number }>;
+  };
+  rateLimit?: {
+    findUnique: (args: { where: Record<string, unknown> }) => Promise<Record<string, unknown> | null>;
+    upsert: (args: { where: Record<string, unknown>; create: Record<string, unknown>; update: Record<string, unknown> }) => Promise<Record<string, unknown>>;
+  };
   verificationToken: {
     create: (args: { data: Record<string, unknown> }) => Promise<Record<string, unknown>>;
     findUnique: (args: { where: Record<string, unknown> }) => Promise<Record<string, unknown> | null>;
@@ -100,6 +189,10 @@ export interface PrismaClient {
 /**
  * Create a Prisma adapter instance
  *
+ * Verification tokens are stored as SHA-256 hashes. Set
+ * `allowPlaintextTokens` while tokens stored in plaintext by earlier
+ * versions may still be in use.
+ *
  * @example
  * ```ts
  * import { PrismaClient } from '@prisma/client';
@@ -115,7 +208,59 @@ export interface PrismaClient {
  * });
  * ```
  */
-export function createPrismaAdapter(prisma: PrismaClient): Adapter {
+export function createPrismaAdapter(prisma: PrismaClient, options: AdapterOptions = {}): Adapter {
+  const helpers = createAdapterHelpers();
+
+  /**
+   * Get the session version model, which is only needed for session revocation
+   */
+  function sessionVersionModel(): NonNullable<PrismaClient['sessionVersion']> {
+    if (!prisma.sessionVersion) {
+      throw new Error('Session revocation requires a SessionVersion model in the Prisma schema');
+    }
+    return prisma.sessionVersion;
+  }
+
+  /**
+   * Get the two-factor model, which is only needed when two-factor auth is enabled
+   */
+  function twoFactorModel(): NonNullable<PrismaClient['twoFactor']> {
+    if (!prisma.twoFactor) {
+      throw new Error('Two-factor authentication requires a TwoFactor model in the Prisma schema');
+    }
+    return prisma.twoFactor;
+  }
+
+  /**
+   * Get the authenticator model, which is only needed for passkey providers
+   */
+  function authenticatorModel(): NonNullable<PrismaClient['authenticator']> {
+    if (!prisma.authenticator) {
+      throw new Error('Passkey providers require an Authenticator model in the Prisma schema');
+    }
+    return prisma.authenticator;
+  }
+
+  /**
+   * Get the login attempt model, which is only needed for adapter attempt stores
+   */
+  function loginAttemptModel(): NonNullable<PrismaClient['loginAttempt']> {
+    if (!prisma.loginAttempt) {
+      throw new Error('Adapter attempt stores require a LoginAttempt model in the Prisma schema');
+    }
+    return prisma.loginAttempt;
+  }
+
+  /**
+   * Get the rate limit model, which is only needed for adapter rate limit stores
+   */
+  function rateLimitModel(): NonNullable<PrismaClient['rateLimit']> {
+    if (!prisma.rateLimit) {
+      throw new Error('Adapter rate limit stores require a RateLimit model in the Prisma schema');
+    }
+    return prisma.rateLimit;
+  }
+
   return {
     // -------------------------------------------------------------------------
     // User Methods
@@ -234,6 +379,14 @@ export function createPrismaAdapter(prisma: PrismaClient): Adapter {
       return account as AdapterAccount | null;
     },
 
+    async getAccountsByUserId(userId) {
+      const accounts = await prisma.account.findMany({
+        where: { userId }
+      });
+
+      return accounts as unknown as AdapterAccount[];
+    },
+
     async updateAccount(accountId, data) {
       try {
         const account = await prisma.account.update({
@@ -256,7 +409,10 @@ export function createPrismaAdapter(prisma: PrismaClient): Adapter {
         data: {
           userId: sessionData.userId,
           sessionToken: sessionData.sessionToken,
-          expires: sessionData.expires
+          expires: sessionData.expires,
+          userAgent: sessionData.userAgent,
+          ipAddress: sessionData.ipAddress,
+          lastSeenAt: sessionData.lastSeenAt
         }
       });
 
@@ -283,7 +439,8 @@ export function createPrismaAdapter(prisma: PrismaClient): Adapter {
       const session = await prisma.session.update({
         where: { sessionToken: sessionData.sessionToken },
         data: {
-          expires: sessionData.expires
+          expires: sessionData.expires,
+          lastSeenAt: sessionData.lastSeenAt
         }
       });
 
@@ -296,35 +453,251 @@ export function createPrismaAdapter(prisma: PrismaClient): Adapter {
       });
     },
 
+    async listSessionsForUser(userId) {
+      const sessions = await prisma.session.findMany({
+        where: { userId }
+      });
+
+      return sessions as unknown as AdapterSession[];
+    },
+
+    async deleteSessionsForUser(userId) {
+      await prisma.session.deleteMany({
+        where: { userId }
+      });
+    },
+
+    async getSessionVersion(userId) {
+      const stored = await sessionVersionModel().findUnique({
+        where: { userId }
+      });
+
+      return (stored?.version as number | undefined) ?? 0;
+    },
+
+    async incrementSessionVersion(userId) {
+      const stored = await sessionVersionModel().upsert({
+        where: { userId },
+        create: { userId, version: 1 },
+        update: { version: { increment: 1 } }
+      });
+
+      return stored.version as number;
+    },
+
     // -------------------------------------------------------------------------
-    // Verification Token Methods
+    // Two-Factor Methods
     // -------------------------------------------------------------------------
 
-    async createVerificationToken(token) {
-      const verificationToken = await prisma.verificationToken.create({
+    async createTwoFactor(factorData) {
+      const factor = await twoFactorModel().create({
         data: {
-          identifier: token.identifier,
-          token: token.token,
-          expires: token.expires
+          ...factorData,
+          recoveryCodes: JSON.stringify(factorData.recoveryCodes)
         }
       });
 
-      return verificationToken as unknown as VerificationToken;
+      return toAdapterTwoFactor(factor);
     },
 
-    async useVerificationToken({ identifier, token }) {
+    async getTwoFactorByUserId(userId) {
+      const factor = await twoFactorModel().findUnique({
+        where: { userId }
+      });
+
+      return factor ? toAdapterTwoFactor(factor) : null;
+    },
+
+    async updateTwoFactor(id, data, expected) {
       try {
-        const verificationToken = await prisma.verificationToken.delete({
+        // Fails with "record not found" if the expected fields have changed
+        const factor = await twoFactorModel().update({
           where: {
-            identifier_token: { identifier, token }
-          } as Record<string, unknown>
+            id,
+            ...(expected?.lastUsedStep !== undefined && { lastUsedStep: expected.lastUsedStep }),
+            ...(expected?.recoveryCodes && { recoveryCodes: JSON.stringify(expected.recoveryCodes) })
+          },
+          data: {
+            ...data,
+            ...(data.recoveryCodes && { recoveryCodes: JSON.stringify(data.recoveryCodes) })
+          }
         });
 
-        return verificationToken as unknown as VerificationToken;
+        return toAdapterTwoFactor(factor);
       } catch {
-        // Token not found
         return null;
       }
+    },
+
+    async deleteTwoFactor(userId) {
+      await twoFactorModel().deleteMany({
+        where: { userId }
+      });
+    },
+
+    // -------------------------------------------------------------------------
+    // Authenticator Methods
+    // -------------------------------------------------------------------------
+
+    async createAuthenticator(authenticatorData) {
+      const authenticator = await authenticatorModel().create({
+        data: {
+          ...authenticatorData,
+          transports: JSON.stringify(authenticatorData.transports)
+        }
+      });
+
+      return toAdapterAuthenticator(authenticator);
+    },
+
+    async getAuthenticator(credentialId) {
+      const authenticator = await authenticatorModel().findUnique({
+        where: { credentialId }
+      });
+
+      return authenticator ? toAdapterAuthenticator(authenticator) : null;
+    },
+
+    async getAuthenticatorsByUserId(userId) {
+      const authenticators = await authenticatorModel().findMany({
+        where: { userId }
+      });
+
+      return authenticators.map(toAdapterAuthenticator);
+    },
+
+    async updateAuthenticatorCounter(credentialId, counter) {
+      try {
+        const authenticator = await authenticatorModel().update({
+          where: { credentialId },
+          data: { counter, lastUsedAt: new Date() }
+        });
+
+        return toAdapterAuthenticator(authenticator);
+      } catch {
+        return null;
+      }
+    },
+
+    // -------------------------------------------------------------------------
+    // Login Attempt Methods
+    // -------------------------------------------------------------------------
+
+    async getLoginAttempt(key) {
+      const attempt = await loginAttemptModel().findUnique({
+        where: { key }
+      });
+
+      return attempt as unknown as LoginAttempt | null;
+    },
+
+    async setLoginAttempt(attempt) {
+      const { key, ...data } = attempt;
+      const stored = await loginAttemptModel().upsert({
+        where: { key },
+        create: { key, ...data },
+        update: data
+      });
+
+      return stored as unknown as LoginAttempt;
+    },
+
+    async deleteLoginAttempt(key) {
+      await loginAttemptModel().deleteMany({
+        where: { key }
+      });
+    },
+
+    // -------------------------------------------------------------------------
+    // Rate Limit Methods
+    // -------------------------------------------------------------------------
+
+    async getRateLimit(key) {
+      const bucket = await rateLimitModel().findUnique({
+        where: { key }
+      });
+
+      return bucket ? toAdapterRateLimit(bucket) : null;
+    },
+
+    async setRateLimit(bucket) {
+      const data = { hits: JSON.stringify(bucket.hits), expiresAt: bucket.expiresAt };
+      const stored = await rateLimitModel().upsert({
+        where: { key: bucket.key },
+        create: { key: bucket.key, ...data },
+        update: data
+      });
+
+      return toAdapterRateLimit(stored);
+    },
+
+    // -------------------------------------------------------------------------
+    // Verification Token Methods
+    // -------------------------------------------------------------------------
+
+    async createVerificationToken(token) {
+      await prisma.verificationToken.create({
+        data: {
+          identifier: token.identifier,
+          token: await helpers.hashToken(token.token),
+          expires: token.expires
+        }
+      });
+
+      return token;
+    },
+
+    async useVerificationToken({ identifier, token }) {
+      const candidates = [await helpers.hashToken(token)];
+      if (options.allowPlaintextTokens) {
+        candidates.push(token);
+      }
+
+      for (const stored of candidates) {
+        try {
+          const verificationToken = await prisma.verificationToken.delete({
+            where: {
+              identifier_token: { identifier, token: stored }
+            } as Record<string, unknown>
+          });
+
+          return { ...(verificationToken as unknown as VerificationToken), token };
+        } catch {
+          // Token not found
+        }
+      }
+
+      return null;
     }
   };
 }
+
+/**
+ * Convert a two-factor row, whose recovery codes are stored as JSON text
+ */
+function toAdapterTwoFactor(row: Record<string, unknown>): AdapterTwoFactor {
+  return {
+    ...row,
+    recoveryCodes: JSON.parse((row.recoveryCodes as string | null) ?? '[]')
+  } as AdapterTwoFactor;
+}
+
+/**
+ * Convert an authenticator row, whose transports are stored as JSON text
+ */
+function toAdapterAuthenticator(row: Record<string, unknown>): AdapterAuthenticator {
+  return {
+    ...row,
+    transports: JSON.parse((row.transports as string | null) ?? '[]')
+  } as AdapterAuthenticator;
+}
+
+/**
+ * Convert a rate limit row, whose hits are stored as JSON text
+ */
+function toAdapterRateLimit(row: Record<string, unknown>): RateLimitBucket {
+  return {
+    ...row,
+    hits: JSON.parse((row.hits as string | null) ?? '[]')
+  } as RateLimitBucket;
+}
@@ -2,7 +2,7 @@
  * Client-side authentication actions
  */
 
-import type { Session } from '../types.js';
+import type { ActiveSession, LinkedAccount, Session } from '../types.js';
 
 export interface SignInOptions {
   /**
@@ -24,6 +24,40 @@ export interface SignInOptions {
    * Credentials for credentials provider
    */
   credentials?: Record<string, string>;
+
+  /**
+   * Email address to send a sign in link to (email provider)
+   */
+  email?: string;
+}
+
+export interface SignUpOptions {
+  /**
+   * Credentials provider ID (default: 'credentials')
+   */
+  provider?: string;
+
+  /**
+   * Email address or username
+   */
+  login: string;
+
+  password: string;
+
+  /**
+   * Display name for the new user
+   */
+  name?: string;
+
+  /**
+   * URL to redirect to after sign up
+   */
+  redirectTo?: string;
+
+  /**
+   * Whether to redirect (default: true)
+   */
+  redirect?: boolean;
 }
 
 export interface SignOutOptions {
@@ -41,7 +75,7 @@ export interface SignOutOptions {
 export interface ProviderInfo {
   id: string;
   name: string;
-  type: 'oauth' | 'credentials' | 'email';
+  type: 'oauth' | 'credentials' | 'email' | 'passkey';
   signinUrl: string;
   callbackUrl: string;
 }
@@ -53,6 +87,29 @@ function getBasePath(): string {
   return '/auth';
 }
 
+/**
+ * Get a CSRF token for state-changing auth requests
+ *
+ * @example
+ * ```ts
+ * const csrfToken = await getCsrfToken();
+ * ```
+ */
+export async function getCsrfToken(): Promise<string> {
+  const basePath = getBasePath();
+
+  const response = await fetch(`${basePath}/csrf`, {
+    credentials: 'include'
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to fetch CSRF token');
+  }
+
+  const data = await response.json();
+  return data.csrfToken;
+}
+
 /**
  * Sign in with a provider
  *
@@ -61,6 +118,9 @@ function getBasePath(): string {
  * // OAuth sign in (redirects to provider)
  * await signIn({ provider: 'github' });
  *
+ * // Email sign in (sends a sign in link)
+ * await signIn({ provider: 'email', email: 'user@example.com' });
+ *
  * // Credentials sign in
  * await signIn({
  *   provider: 'credentials',
@@ -74,8 +134,8 @@ export async function signIn(options: SignInOptions = {}): Promise<Response | vo
   const provider = options.provider ?? 'credentials';
   const redirectTo = options.redirectTo ?? window.location.href;
 
-  if (provider === 'credentials' || options.credentials) {
-    // Credentials sign in via form POST
+  if (provider === 'credentials' || options.credentials || options.email) {
+    // Credentials and email sign in via form POST
     const formData = new FormData();
 
     if (options.credentials) {
@@ -84,7 +144,12 @@ export async function signIn(options: SignInOptions = {}): Promise<Response | vo
       }
     }
 
+    if (options.email) {
+      formData.append('email', options.email);
+    }
+
     formData.append('callbackUrl', redirectTo);
+    formData.append('csrfToken', await getCsrfToken());
 
     const response = await fetch(`${basePath}/signin/${provider}`, {
       method: 'POST',
@@ -119,6 +184,401 @@ export async function signIn(options: SignInOptions = {}): Promise<Response | vo
   window.location.href = url.toString();
 }
 
+/**
+ * Create an account with a credentials provider and sign in
+ *
+ * @example
+ * ```ts
+ * const response = await signUp({
+ *   login: 'user@example.com',
+ *   password: 'Secret123',
+ *   redirect: false
+ * });
+ *
+ * if (response?.status === 400) {
+ *   const { errors } = await response.json();
+ * }
+ * ```
+ */
+export async function signUp(options: SignUpOptions): Promise<Response | void> {
+  const basePath = getBasePath();
+  const provider = options.provider ?? 'credentials';
+  const redirect = options.redirect ?? true;
+
+  const formData = new FormData();
+  formData.append('login', options.login);
+  formData.append('password', options.password);
+  if (options.name) {
+    formData.append('name', options.name);
+  }
+  if (options.redirectTo) {
+    formData.append('callbackUrl', options.redirectTo);
+  }
+  formData.append('csrfToken', await getCsrfToken());
+
+  const response = await fetch(`${basePath}/signup/${provider}`, {
+    method: 'POST',
+    body: formData,
+    credentials: 'include',
+    redirect: redirect ? 'follow' : 'manual'
+  });
+
+  if (!redirect) {
+    return response;
+  }
+
+  if (response.redirected) {
+    window.location.href = response.url;
+  }
+}
+
+/**
+ * Complete an email sign in with the passcode the user received
+ *
+ * @example
+ * ```ts
+ * await signIn({ provider: 'email', email: 'user@example.com', redirect: false });
+ * // ...then, with the code from the email
+ * await verifyEmailCode({ code: '123456' });
+ * ```
+ */
+export async function verifyEmailCode(options: {
+  code: string;
+  provider?: string;
+  redirectTo?: string;
+  redirect?: boolean;
+}): Promise<Response | void> {
+  const basePath = getBasePath();
+  const provider = options.provider ?? 'email';
+  const redirect = options.redirect ?? true;
+
+  const formData = new FormData();
+  formData.append('code', options.code);
+  formData.append('callbackUrl', options.redirectTo ?? window.location.href);
+  formData.append('csrfToken', await getCsrfToken());
+
+  const response = await fetch(`${basePath}/callback/${provider}-otp`, {
+    method: 'POST',
+    body: formData,
+    credentials: 'include',
+    redirect: redirect ? 'follow' : 'manual'
+  });
+
+  if (!redirect) {
+    return response;
+  }
+
+  if (response.redirected) {
+    window.location.href = response.url;
+  }
+}
+
+/**
+ * Complete a sign in held for two-factor authentication
+ *
+ * Pass either the code from the user's authenticator app or one of
+ * their recovery codes.
+ *
+ * @example
+ * ```ts
+ * await verifyTwoFactor({ code: '123456' });
+ *
+ * await verifyTwoFactor({ recoveryCode: 'a1b2c-3d4e5' });
+ * ```
+ */
+export async function verifyTwoFactor(options: {
+  code?: string;
+  recoveryCode?: string;
+  redirect?: boolean;
+}): Promise<Response | void> {
+  const basePath = getBasePath();
+  const redirect = options.redirect ?? true;
+
+  const formData = new FormData();
+  if (options.code) {
+    formData.append('code', options.code);
+  }
+  if (options.recoveryCode) {
+    formData.append('recoveryCode', options.recoveryCode);
+  }
+  formData.append('csrfToken', await getCsrfToken());
+
+  const response = await fetch(`${basePath}/two-factor/verify`, {
+    method: 'POST',
+    body: formData,
+    credentials: 'include',
+    redirect: redirect ? 'follow' : 'manual'
+  });
+
+  if (!redirect) {
+    return response;
+  }
+
+  if (response.redirected) {
+    window.location.href = response.url;
+  }
+}
+
+/**
+ * Encode bytes as base64url
+ */
+function toBase64Url(buffer: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decode base64url to bytes
+ */
+function fromBase64Url(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0)).buffer;
+}
+
+/**
+ * POST JSON to an auth route with the CSRF token
+ */
+async function postJson(
+  path: string,
+  body: Record<string, unknown>,
+  redirect: RequestRedirect = 'follow'
+): Promise<Response> {
+  return fetch(`${getBasePath()}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...body, csrfToken: await getCsrfToken() }),
+    credentials: 'include',
+    redirect
+  });
+}
+
+/**
+ * Register a passkey for the signed in user
+ *
+ * @example
+ * ```ts
+ * const result = await registerPasskey();
+ * if (!result.ok) console.error(result.error);
+ * ```
+ */
+export async function registerPasskey(
+  options: { provider?: string } = {}
+): Promise<{ ok: boolean; error?: string }> {
+  const provider = options.provider ?? 'passkey';
+
+  const optionsResponse = await postJson(`/register/${provider}/options`, {});
+  if (!optionsResponse.ok) {
+    return { ok: false, error: (await optionsResponse.json()).error };
+  }
+
+  const creationOptions = await optionsResponse.json();
+  const credential = (await navigator.credentials.create({
+    publicKey: {
+      ...creationOptions,
+      challenge: fromBase64Url(creationOptions.challenge),
+      user: { ...creationOptions.user, id: fromBase64Url(creationOptions.user.id) },
+      excludeCredentials: creationOptions.excludeCredentials.map(
+        (c: { id: string; type: 'public-key'; transports?: AuthenticatorTransport[] }) => ({
+          ...c,
+          id: fromBase64Url(c.id)
+        })
+      )
+    }
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    return { ok: false, error: 'Passkey registration was cancelled' };
+  }
+
+  const response = credential.response as AuthenticatorAttestationResponse;
+  const result = await postJson(`/register/${provider}`, {
+    credential: {
+      id: credential.id,
+      rawId: toBase64Url(credential.rawId),
+      type: credential.type,
+      response: {
+        clientDataJSON: toBase64Url(response.clientDataJSON),
+        attestationObject: toBase64Url(response.attestationObject),
+        transports: response.getTransports?.() ?? []
+      }
+    }
+  });
+
+  return result.ok ? { ok: true } : { ok: false, error: (await result.json()).error };
+}
+
+/**
+ * Sign in with a passkey
+ *
+ * @example
+ * ```ts
+ * await signInWithPasskey({ redirectTo: '/dashboard' });
+ * ```
+ */
+export async function signInWithPasskey(
+  options: { provider?: string; redirectTo?: string; redirect?: boolean } = {}
+): Promise<Response | void> {
+  const provider = options.provider ?? 'passkey';
+  const redirect = options.redirect ?? true;
+
+  const optionsResponse = await postJson(`/signin/${provider}`, {});
+  if (!optionsResponse.ok) {
+    throw new Error('Failed to fetch passkey options');
+  }
+
+  const requestOptions = await optionsResponse.json();
+  const credential = (await navigator.credentials.get({
+    publicKey: {
+      ...requestOptions,
+      challenge: fromBase64Url(requestOptions.challenge),
+      allowCredentials: []
+    }
+  })) as PublicKeyCredential | null;
+
+  if (!credential) {
+    throw new Error('Passkey sign in was cancelled');
+  }
+
+  const response = credential.response as AuthenticatorAssertionResponse;
+  const result = await postJson(
+    `/callback/${provider}`,
+    {
+      credential: {
+        id: credential.id,
+        rawId: toBase64Url(credential.rawId),
+        type: credential.type,
+        response: {
+          clientDataJSON: toBase64Url(response.clientDataJSON),
+          authenticatorData: toBase64Url(response.authenticatorData),
+          signature: toBase64Url(response.signature),
+          userHandle: response.userHandle ? toBase64Url(response.userHandle) : null
+        }
+      },
+      callbackUrl: options.redirectTo ?? window.location.href
+    },
+    redirect ? 'follow' : 'manual'
+  );
+
+  if (!redirect) {
+    return result;
+  }
+
+  if (result.redirected) {
+    window.location.href = result.url;
+  }
+}
+
+/**
+ * Link an OAuth provider account to the signed-in user
+ *
+ * Redirects to the provider, then back to `redirectTo` once the account
+ * is linked.
+ *
+ * @example
+ * ```ts
+ * linkAccount('github', { redirectTo: '/settings/accounts' });
+ * ```
+ */
+export function linkAccount(provider: string, options: { redirectTo?: string } = {}): void {
+  const url = new URL(`${getBasePath()}/link/${provider}`, window.location.origin);
+  url.searchParams.set('callbackUrl', options.redirectTo ?? window.location.href);
+  window.location.href = url.toString();
+}
+
+/**
+ * List the accounts linked to the signed-in user
+ *
+ * @example
+ * ```ts
+ * const accounts = await getAccounts();
+ * accounts.forEach(a => console.log(a.provider, a.login));
+ * ```
+ */
+export async function getAccounts(): Promise<LinkedAccount[]> {
+  try {
+    const response = await fetch(`${getBasePath()}/accounts`, {
+      credentials: 'include'
+    });
+
+    if (!response.ok) {
+      return [];
+    }
+
+    const accounts: LinkedAccount[] = await response.json();
+    return accounts.map((account) => ({ ...account, createdAt: new Date(account.createdAt) }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Unlink a provider from the signed-in user
+ *
+ * Fails if the provider is the user's last way to sign in.
+ *
+ * @example
+ * ```ts
+ * const result = await unlinkAccount('github');
+ * if (!result.ok) console.error(result.error);
+ * ```
+ */
+export async function unlinkAccount(provider: string): Promise<{ ok: boolean; error?: string }> {
+  const response = await postJson(`/accounts/${provider}/unlink`, {});
+  return response.ok ? { ok: true } : { ok: false, error: (await response.json()).error };
+}
+
+/**
+ * List the signed-in user's sessions (database session strategy)
+ *
+ * @example
+ * ```ts
+ * const sessions = await getSessions();
+ * sessions.forEach(s => console.log(s.userAgent, s.current));
+ * ```
+ */
+export async function getSessions(): Promise<ActiveSession[]> {
+  try {
+    const response = await fetch(`${getBasePath()}/sessions`, {
+      credentials: 'include'
+    });
+
+    if (!response.ok) {
+      return [];
+    }
+
+    const sessions: ActiveSession[] = await response.json();
+    return sessions.map((session) => ({
+      ...session,
+      createdAt: new Date(session.createdAt),
+      lastSeenAt: session.lastSeenAt ? new Date(session.lastSeenAt) : null,
+      expires: new Date(session.expires)
+    }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Sign out one of the signed-in user's sessions
+ *
+ * @example
+ * ```ts
+ * await revokeSession(session.id);
+ * ```
+ */
+export async function revokeSession(id: string): Promise<{ ok: boolean; error?: string }> {
+  const response = await fetch(`${getBasePath()}/sessions/${id}`, {
+    method: 'DELETE',
+    headers: { 'X-CSRF-Token': await getCsrfToken() },
+    credentials: 'include'
+  });
+
+  return response.ok ? { ok: true } : { ok: false, error: (await response.json()).error };
+}
+
 /**
  * Sign out the current user
  *
@@ -138,6 +598,7 @@ export async function signOut(options: SignOutOptions = {}): Promise<Response |
 
   const formData = new FormData();
   formData.append('callbackUrl', redirectTo);
+  formData.append('csrfToken', await getCsrfToken());
 
   const response = await fetch(`${basePath}/signout`, {
     method: 'POST',
@@ -187,7 +648,7 @@ export async function getSession(): Promise<Session | null> {
     }
 
     return {
-      user: data.user,
+      ...data,
       expires: new Date(data.expires)
     };
   } catch {
@@ -48,9 +48,12 @@ export interface AuthClient {
   refresh(): Promise<void>;
 
   /**
-   * Update the session client-side
+   * Update the session on the server
+   *
+   * `data` is passed to the `jwt` callback with `trigger: 'update'`, and
+   * the re-issued session replaces the current one.
    */
-  update(session: Session | null): void;
+  update(data?: Record<string, unknown>): Promise<Session | null>;
 }
 
 /**
@@ -117,7 +120,7 @@ export function createAuthClient(options: AuthClientOptions = {}): AuthClient {
       }
 
       return {
-        user: data.user,
+        ...data,
         expires: new Date(data.expires)
       };
     } catch {
@@ -138,10 +141,50 @@ export function createAuthClient(options: AuthClientOptions = {}): AuthClient {
   }
 
   /**
-   * Update session client-side
+   * Fetch a CSRF token for the update request
    */
-  function update(newSession: Session | null): void {
-    session = newSession;
+  async function fetchCsrfToken(): Promise<string> {
+    const response = await fetch(`${basePath}/csrf`, {
+      credentials: 'include'
+    });
+
+    if (!response.ok) {
+      throw new Error('Failed to fetch CSRF token');
+    }
+
+    const data = await response.json();
+    return data.csrfToken;
+  }
+
+  /**
+   * Update session on the server
+   */
+  async function update(data: Record<string, unknown> = {}): Promise<Session | null> {
+    loading = true;
+    try {
+      const response = await fetch(`${basePath}/session`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-CSRF-Token': await fetchCsrfToken()
+        },
+        body: JSON.stringify(data),
+        credentials: 'include'
+      });
+
+      if (response.status === 401) {
+        session = null;
+      }
+      if (!response.ok) {
+        return session;
+      }
+
+      const updated = await response.json();
+      session = { ...updated, expires: new Date(updated.expires) };
+      return session;
+    } finally {
+      loading = false;
+    }
   }
 
   // Set up automatic refetching
@@ -3,5 +3,21 @@
  */
 
 export { createAuthClient, type AuthClientOptions } from './auth-client.js';
-export { signIn, signOut, getSession, getProviders } from './actions.js';
-export type { SignInOptions, SignOutOptions } from './actions.js';
+export {
+  signIn,
+  signUp,
+  signOut,
+  verifyEmailCode,
+  verifyTwoFactor,
+  registerPasskey,
+  signInWithPasskey,
+  linkAccount,
+  getAccounts,
+  unlinkAccount,
+  getSessions,
+  revokeSession,
+  getSession,
+  getProviders,
+  getCsrfToken
+} from './actions.js';
+export type { SignInOptions, SignUpOptions, SignOutOptions } from './actions.js';
@@ -16,6 +16,7 @@ export {
   verifyResetToken,
   resetPassword,
   validatePassword,
+  type PasswordPolicy,
   type PasswordResetConfig,
   type CreateResetResult
 } from './password-reset.js';
@@ -0,0 +1,100 @@
+import type { Cookies } from '@sveltejs/kit';
+import { describe, expect, it } from 'vitest';
+import { createMemoryAdapter } from '../adapters/memory.js';
+import { resolveConfig } from '../middleware/index.js';
+import { createMemoryAttemptStore, getLoginAttemptKey } from '../utils/attempts.js';
+import { hashPassword, verifyPassword } from '../utils/password.js';
+import { createMemoryRateLimitStore } from '../utils/rate-limit.js';
+import { createSession, getSessionFromCookies, setSessionCookie } from '../utils/session.js';
+import { createPasswordReset, resetPassword } from './password-reset.js';
+
+const adapter = createMemoryAdapter();
+
+/**
+ * Create a user with a password account for a provider
+ */
+async function createAccount(provider: string, login: string) {
+  const user = await adapter.createUser({ email: login, emailVerified: null });
+  return adapter.linkAccount({
+    userId: user.id,
+    provider,
+    login,
+    type: 'credentials',
+    passwordHash: await hashPassword('Old-password-1')
+  });
+}
+
+describe('password reset', () => {
+  it('resets the account of the configured credentials provider', async () => {
+    const login = 'ldap-user@example.com';
+    const account = await createAccount('ldap', login);
+    const attemptStore = createMemoryAttemptStore();
+    await attemptStore.set({
+      key: getLoginAttemptKey('ldap', login),
+      count: 5,
+      lockedUntil: new Date(Date.now() + 60_000),
+      expiresAt: new Date(Date.now() + 60_000)
+    });
+
+    const reset = await createPasswordReset(adapter, login, {
+      providerId: 'ldap',
+      baseUrl: 'https://example.com',
+      rateLimitStore: createMemoryRateLimitStore(),
+      sendEmail: async () => {}
+    });
+    expect(reset).not.toBeNull();
+
+    const result = await resetPassword(adapter, login, reset!.token, 'New-password-1', {
+      providerId: 'ldap',
+      attemptStore,
+      revokeSessions: false
+    });
+
+    expect(result).toEqual({ success: true });
+    const updated = await adapter.getAccountByLogin!('ldap', login);
+    expect(updated?.id).toBe(account.id);
+    expect(await verifyPassword('New-password-1', updated!.passwordHash!)).toBe(true);
+    expect(await attemptStore.get(getLoginAttemptKey('ldap', login))).toBeNull();
+  });
+
+  it('does not send resets for logins of another provider', async () => {
+    const login = 'other-user@example.com';
+    await createAccount('ldap', login);
+
+    const reset = await createPasswordReset(adapter, login, {
+      baseUrl: 'https://example.com',
+      rateLimitStore: createMemoryRateLimitStore(),
+      sendEmail: async () => {}
+    });
+
+    expect(reset).toBeNull();
+  });
+
+  it('signs the user out of their JWT sessions', async () => {
+    const login = 'revoke@example.com';
+    const account = await createAccount('credentials', login);
+    const config = resolveConfig({
+      secret: 'test-secret-that-is-at-least-32-characters',
+      providers: [],
+      adapter,
+      session: { revocation: true }
+    });
+    const values = new Map<string, string>();
+    const cookies = {
+      get: (name: string) => values.get(name),
+      set: (name: string, value: string) => void values.set(name, value),
+      delete: (name: string) => void values.delete(name)
+    } as unknown as Cookies;
+    await setSessionCookie(cookies, createSession({ id: account.userId }, 60 * 60), config);
+    expect(await getSessionFromCookies(cookies, config)).not.toBeNull();
+
+    const reset = await createPasswordReset(adapter, login, {
+      baseUrl: 'https://example.com',
+      rateLimitStore: createMemoryRateLimitStore(),
+      sendEmail: async () => {}
+    });
+    await resetPassword(adapter, login, reset!.token, 'New-password-1');
+
+    expect(await getSessionFromCookies(cookies, config)).toBeNull();
+  });
+});
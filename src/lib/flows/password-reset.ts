@@ -2,8 +2,11 @@
  * Password reset flow utilities
  */
 
-import type { Adapter } from '../types.js';
+import type { Adapter, AttemptStore, RateLimitStore } from '../types.js';
 import { generateToken, hashPassword } from '../utils/password.js';
+import { defaultAttemptStore, getLoginAttemptKey } from '../utils/attempts.js';
+import { consumeRateLimit, defaultRateLimitStore } from '../utils/rate-limit.js';
+import { getSessionVersionAdapter, revokeSessions } from '../utils/session-version.js';
 
 export interface PasswordResetConfig {
   /**
@@ -30,6 +33,52 @@ export interface PasswordResetConfig {
    * Path for reset endpoint (default: '/auth/reset-password')
    */
   resetPath?: string;
+
+  /**
+   * Minimum seconds between reset emails to the same login (default: 60)
+   */
+  cooldownSeconds?: number;
+
+  /**
+   * Where reset cooldowns are counted (default: in memory, per server process)
+   */
+  rateLimitStore?: RateLimitStore;
+
+  /**
+   * ID of the credentials provider whose accounts are reset
+   * (default: 'credentials')
+   */
+  providerId?: string;
+}
+
+/**
+ * Password strength requirements
+ */
+export interface PasswordPolicy {
+  /**
+   * Minimum length (default: 8)
+   */
+  minLength?: number;
+
+  /**
+   * Require an uppercase letter (default: true)
+   */
+  requireUppercase?: boolean;
+
+  /**
+   * Require a lowercase letter (default: true)
+   */
+  requireLowercase?: boolean;
+
+  /**
+   * Require a digit (default: true)
+   */
+  requireNumbers?: boolean;
+
+  /**
+   * Require a character other than a letter or digit (default: false)
+   */
+  requireSpecial?: boolean;
 }
 
 export interface CreateResetResult {
@@ -44,7 +93,8 @@ export interface CreateResetResult {
  * @param adapter - Database adapter
  * @param login - The email/login requesting reset
  * @param config - Password reset configuration
- * @returns Token, URL, and expiration (or null if login not found)
+ * @returns Token, URL, and expiration (or null if login not found or
+ *   a reset email was sent within the cooldown)
  *
  * @example
  * ```ts
@@ -71,8 +121,18 @@ export async function createPasswordReset(
   const expiresIn = config.expiresIn ?? 60 * 60; // 1 hour
   const resetPath = config.resetPath ?? '/auth/reset-password';
 
+  const cooldown = await consumeRateLimit(
+    config.rateLimitStore ?? defaultRateLimitStore,
+    `password-reset:${login.trim().toLowerCase()}`,
+    { limit: 1, window: config.cooldownSeconds ?? 60 }
+  );
+  if (!cooldown.allowed) {
+    // Same as an unknown login, so as not to reveal either
+    return null;
+  }
+
   // Check if account exists
-  const account = await adapter.getAccountByLogin?.('credentials', login);
+  const account = await adapter.getAccountByLogin?.(config.providerId ?? 'credentials', login);
   if (!account) {
     // Return null but don't reveal this to the user
     return null;
@@ -168,7 +228,17 @@ export async function verifyResetToken(
  * @param login - The login that requested reset
  * @param token - The reset token
  * @param newPassword - The new password
+ * @param options.providerId - ID of the credentials provider whose
+ *   account is reset (default: 'credentials')
+ * @param options.attemptStore - Lockout store to clear the login's failed
+ *   sign ins from; pass the configured `lockout.store` if you set one
+ * @param options.revokeSessions - Sign the user out of every session
+ *   (default: true). JWT sessions are only revoked when the adapter
+ *   implements the session version methods; set to false if your schema
+ *   has no session versions
  * @returns Result with success status
+ * @throws if `revokeSessions` is true and the adapter does not implement
+ *   the session version methods; nothing is changed then
  *
  * @example
  * ```ts
@@ -186,9 +256,17 @@ export async function resetPassword(
   adapter: Adapter,
   login: string,
   token: string,
-  newPassword: string
+  newPassword: string,
+  options: { providerId?: string; attemptStore?: AttemptStore; revokeSessions?: boolean } = {}
 ): Promise<{ success: boolean; error?: string }> {
   const identifier = `reset:${login}`;
+  const providerId = options.providerId ?? 'credentials';
+
+  // Fail before the token is used or the password changed, not after
+  const sessionVersions =
+    (options.revokeSessions ?? typeof adapter.incrementSessionVersion === 'function')
+      ? getSessionVersionAdapter(adapter)
+      : null;
 
   // Verify and consume the token
   const verificationToken = await adapter.useVerificationToken({
@@ -206,7 +284,7 @@ export async function resetPassword(
   }
 
   // Find the account
-  const account = await adapter.getAccountByLogin?.('credentials', login);
+  const account = await adapter.getAccountByLogin?.(providerId, login);
   if (!account) {
     return { success: false, error: 'Account not found' };
   }
@@ -219,6 +297,18 @@ export async function resetPassword(
     passwordHash
   });
 
+  // The new password should not be refused by an earlier lockout
+  const attemptStore = options.attemptStore ?? defaultAttemptStore;
+  await attemptStore.delete(getLoginAttemptKey(providerId, login));
+
+  // Whoever knew the old password should not stay signed in
+  if (options.revokeSessions !== false) {
+    await adapter.deleteSessionsForUser?.(account.userId);
+  }
+  if (sessionVersions) {
+    await revokeSessions(sessionVersions, account.userId);
+  }
+
   return { success: true };
 }
 
@@ -231,13 +321,7 @@ export async function resetPassword(
  */
 export function validatePassword(
   password: string,
-  options: {
-    minLength?: number;
-    requireUppercase?: boolean;
-    requireLowercase?: boolean;
-    requireNumbers?: boolean;
-    requireSpecial?: boolean;
-  } = {}
+  options: PasswordPolicy = {}
 ): { valid: boolean; errors: string[] } {
   const {
     minLength = 8,
@@ -2,8 +2,9 @@
  * Email verification flow utilities
  */
 
-import type { Adapter } from '../types.js';
+import type { Adapter, RateLimitStore } from '../types.js';
 import { generateToken } from '../utils/password.js';
+import { consumeRateLimit, defaultRateLimitStore } from '../utils/rate-limit.js';
 
 export interface VerificationConfig {
   /**
@@ -30,6 +31,11 @@ export interface VerificationConfig {
    * Path for verification endpoint (default: '/auth/verify-email')
    */
   verifyPath?: string;
+
+  /**
+   * Where resend cooldowns are counted (default: in memory, per server process)
+   */
+  rateLimitStore?: RateLimitStore;
 }
 
 export interface CreateVerificationResult {
@@ -202,9 +208,18 @@ export async function resendVerification(
     return { success: false, error: 'Already verified' };
   }
 
-  // Check for existing recent token (simple rate limiting)
-  // Note: This is a basic check; the token might have been used
-  // A proper implementation would track resend attempts separately
+  const cooldown = await consumeRateLimit(
+    config.rateLimitStore ?? defaultRateLimitStore,
+    `resend-verification:${identifier.trim().toLowerCase()}`,
+    { limit: 1, window: cooldownSeconds }
+  );
+  if (!cooldown.allowed) {
+    return {
+      success: false,
+      error: 'Please wait before requesting another email',
+      cooldownRemaining: cooldown.retryAfter
+    };
+  }
 
   // Create new verification
   try {
@@ -22,10 +22,17 @@ export {
   verifyResetToken,
   resetPassword,
   validatePassword,
+  type PasswordPolicy,
   type PasswordResetConfig,
   type CreateResetResult
 } from './flows/index.js';
 
+// Failed sign in stores
+export { createMemoryAttemptStore, createAdapterAttemptStore } from './utils/attempts.js';
+
+// Rate limit stores
+export { createMemoryRateLimitStore, createAdapterRateLimitStore } from './utils/rate-limit.js';
+
 // Password utilities
 export {
   hashPassword,
@@ -54,17 +61,33 @@ export type {
   ProviderConfig,
   OAuthProviderConfig,
   CredentialsProviderConfig,
+  CredentialsSignUpConfig,
+  EmailProviderConfig,
+  PasskeyProviderConfig,
   CredentialInput,
 
   // Configuration types
   AuthConfig,
   ResolvedAuthConfig,
   CookieConfig,
+  SecretKey,
+  TwoFactorConfig,
+  LockoutConfig,
+  AttemptStore,
+  RateLimitConfig,
+  RateLimitRule,
+  RateLimitStore,
+  SigningKey,
+  SigningAlgorithm,
   AuthCallbacks,
+  AuthErrorCode,
 
   // Context types
   AuthContext,
   AuthLocals,
+  LinkedAccount,
+  UnlinkAccountResult,
+  ActiveSession,
   AuthHandle,
   MiddlewareOptions,
 
@@ -72,8 +95,13 @@ export type {
   Adapter,
   PartialAdapter,
   AdapterConfig,
+  AdapterOptions,
   AdapterUser,
   AdapterAccount,
   AdapterSession,
+  AdapterTwoFactor,
+  AdapterAuthenticator,
+  LoginAttempt,
+  RateLimitBucket,
   VerificationToken
 } from './types.js';
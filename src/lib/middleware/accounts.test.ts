@@ -0,0 +1,122 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import { describe, expect, it } from 'vitest';
+import { createMemoryAdapter } from '../adapters/memory.js';
+import type { Session } from '../types.js';
+import { createSession } from '../utils/session.js';
+import { handleListAccounts, handleUnlinkAccount, unlinkAccount } from './accounts.js';
+import { resolveConfig } from './index.js';
+
+function createConfig() {
+  const adapter = createMemoryAdapter();
+  const config = resolveConfig({
+    secret: 'test-secret-that-is-at-least-32-characters',
+    providers: [],
+    adapter
+  });
+
+  /**
+   * Create a user with an account for each provider
+   */
+  async function createUser(...providers: string[]) {
+    const user = await adapter.createUser({ email: 'user@example.com', emailVerified: null });
+    for (const provider of providers) {
+      await adapter.linkAccount({
+        userId: user.id,
+        provider,
+        providerAccountId: `${provider}-${user.id}`,
+        login: 'user@example.com',
+        type: 'oauth',
+        accessToken: 'secret-access-token'
+      });
+    }
+    return user;
+  }
+
+  return { adapter, config, createUser };
+}
+
+function createEvent(session: Session | null): RequestEvent {
+  return { locals: { session } } as unknown as RequestEvent;
+}
+
+describe('unlinkAccount', () => {
+  it('unlinks a provider while another sign in method remains', async () => {
+    const { adapter, config, createUser } = createConfig();
+    const user = await createUser('github', 'google');
+
+    expect(await unlinkAccount(config, user.id, 'github')).toEqual({ success: true });
+
+    const remaining = await adapter.getAccountsByUserId!(user.id);
+    expect(remaining.map((account) => account.provider)).toEqual(['google']);
+  });
+
+  it('refuses to unlink the last sign in method', async () => {
+    const { adapter, config, createUser } = createConfig();
+    const user = await createUser('github');
+
+    expect(await unlinkAccount(config, user.id, 'github')).toEqual({
+      success: false,
+      error: 'Cannot unlink the last sign in method'
+    });
+    expect(await adapter.getAccountsByUserId!(user.id)).toHaveLength(1);
+  });
+
+  it('counts passkeys as a remaining sign in method', async () => {
+    const { adapter, config, createUser } = createConfig();
+    const user = await createUser('github');
+    await adapter.createAuthenticator!({
+      userId: user.id,
+      credentialId: 'credential',
+      publicKey: 'key',
+      counter: 0,
+      transports: ['internal']
+    });
+
+    expect(await unlinkAccount(config, user.id, 'github')).toEqual({ success: true });
+  });
+
+  it('reports providers that are not linked', async () => {
+    const { config, createUser } = createConfig();
+    const user = await createUser('github', 'google');
+
+    expect(await unlinkAccount(config, user.id, 'discord')).toEqual({
+      success: false,
+      error: 'Account not found'
+    });
+  });
+});
+
+describe('accounts routes', () => {
+  it('list the linked accounts without their tokens', async () => {
+    const { config, createUser } = createConfig();
+    const user = await createUser('github');
+
+    const response = await handleListAccounts(createEvent(createSession(user, 60)), config);
+    const accounts = await response.json();
+
+    expect(accounts).toEqual([
+      expect.objectContaining({ provider: 'github', type: 'oauth', login: 'user@example.com' })
+    ]);
+    expect(JSON.stringify(accounts)).not.toContain('secret-access-token');
+  });
+
+  it('answer unlink refusals with 400', async () => {
+    const { config, createUser } = createConfig();
+    const user = await createUser('github');
+
+    const response = await handleUnlinkAccount(
+      createEvent(createSession(user, 60)),
+      config,
+      'github'
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it('require a session', async () => {
+    const { config } = createConfig();
+
+    expect((await handleListAccounts(createEvent(null), config)).status).toBe(401);
+    expect((await handleUnlinkAccount(createEvent(null), config, 'github')).status).toBe(401);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Connected accounts management routes
+ */
+
+import type { RequestEvent } from '@sveltejs/kit';
+import type {
+  Adapter,
+  AdapterAccount,
+  LinkedAccount,
+  ResolvedAuthConfig,
+  Session,
+  UnlinkAccountResult
+} from '../types.js';
+
+/**
+ * Adapter methods required to list and unlink accounts
+ */
+export type AccountsAdapter = Required<Pick<Adapter, 'getAccountsByUserId' | 'unlinkAccount'>> &
+  Pick<Adapter, 'getAuthenticatorsByUserId'>;
+
+const accountsAdapterMethods: (keyof AccountsAdapter)[] = ['getAccountsByUserId', 'unlinkAccount'];
+
+/**
+ * Get the adapter used to manage linked accounts
+ *
+ * @throws if the configured adapter does not implement the required methods
+ */
+export function getAccountsAdapter(config: ResolvedAuthConfig): AccountsAdapter {
+  const adapter = config.adapter;
+  const missing = accountsAdapterMethods.filter(
+    (method) => typeof adapter?.[method] !== 'function'
+  );
+
+  if (missing.length > 0) {
+    throw new Error(`Account management requires an adapter implementing: ${missing.join(', ')}`);
+  }
+
+  return adapter as AccountsAdapter;
+}
+
+/**
+ * Strip the tokens and password hash from an account
+ */
+function toLinkedAccount(account: AdapterAccount): LinkedAccount {
+  return {
+    provider: account.provider,
+    providerAccountId: account.providerAccountId,
+    type: account.type,
+    login: account.login,
+    createdAt: account.createdAt
+  };
+}
+
+/**
+ * List the accounts linked to a user
+ */
+export async function listAccounts(
+  config: ResolvedAuthConfig,
+  userId: string
+): Promise<LinkedAccount[]> {
+  const accounts = await getAccountsAdapter(config).getAccountsByUserId(userId);
+  return accounts.map(toLinkedAccount);
+}
+
+/**
+ * Unlink all of a user's accounts for a provider
+ *
+ * Refused when the user would have no other account or passkey left to
+ * sign in with.
+ */
+export async function unlinkAccount(
+  config: ResolvedAuthConfig,
+  userId: string,
+  provider: string
+): Promise<UnlinkAccountResult> {
+  const adapter = getAccountsAdapter(config);
+  const accounts = await adapter.getAccountsByUserId(userId);
+  const unlinking = accounts.filter(
+    (account): account is AdapterAccount & { providerAccountId: string } =>
+      account.provider === provider && !!account.providerAccountId
+  );
+
+  if (unlinking.length === 0) {
+    return { success: false, error: 'Account not found' };
+  }
+
+  const passkeys = (await adapter.getAuthenticatorsByUserId?.(userId)) ?? [];
+  if (accounts.length - unlinking.length + passkeys.length === 0) {
+    return { success: false, error: 'Cannot unlink the last sign in method' };
+  }
+
+  for (const account of unlinking) {
+    await adapter.unlinkAccount({
+      provider: account.provider,
+      providerAccountId: account.providerAccountId
+    });
+  }
+
+  return { success: true };
+}
+
+/**
+ * GET /auth/accounts - List the signed-in user's linked accounts
+ */
+export async function handleListAccounts(
+  event: RequestEvent,
+  config: ResolvedAuthConfig
+): Promise<Response> {
+  const session = event.locals.session as Session | null;
+  if (!session) {
+    return Response.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    return Response.json(await listAccounts(config, session.user.id));
+  } catch (error) {
+    if (config.debug) {
+      console.error('List accounts error:', error);
+    }
+    return Response.json({ error: 'Failed to list accounts' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /auth/accounts/:provider/unlink - Unlink a provider from the signed-in user
+ */
+export async function handleUnlinkAccount(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  provider: string
+): Promise<Response> {
+  const session = event.locals.session as Session | null;
+  if (!session) {
+    return Response.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const result = await unlinkAccount(config, session.user.id, provider);
+    if (!result.success) {
+      return Response.json({ error: result.error }, { status: 400 });
+    }
+    return Response.json({ success: true });
+  } catch (error) {
+    if (config.debug) {
+      console.error('Unlink account error:', error);
+    }
+    return Response.json({ error: 'Failed to unlink account' }, { status: 500 });
+  }
+}
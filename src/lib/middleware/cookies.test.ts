@@ -0,0 +1,75 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import { describe, expect, it } from 'vitest';
+import { resolveConfig } from './index.js';
+import {
+  getEncryptedCookie,
+  getSignedCookie,
+  setEncryptedCookie,
+  setSignedCookie
+} from './cookies.js';
+
+const oldSecret = 'old-secret-that-is-at-least-32-characters';
+const newSecret = 'new-secret-that-is-at-least-32-characters';
+
+function createConfig(secret: string | string[]) {
+  return resolveConfig({ secret, providers: [] });
+}
+
+function createEvent(cookies: Map<string, string>): RequestEvent {
+  return {
+    cookies: {
+      get: (name: string) => cookies.get(name),
+      set: (name: string, value: string) => void cookies.set(name, value),
+      delete: (name: string) => void cookies.delete(name)
+    }
+  } as unknown as RequestEvent;
+}
+
+describe('encrypted cookies', () => {
+  it('are read back with the secret they were set with', async () => {
+    const cookies = new Map<string, string>();
+    const config = createConfig(newSecret);
+
+    await setEncryptedCookie(createEvent(cookies), config, 'otp', 'value', { maxAge: 60 });
+
+    expect([...cookies.values()][0]).not.toContain('value');
+    expect(await getEncryptedCookie(createEvent(cookies), config, 'otp')).toBe('value');
+  });
+
+  it('set before a secret rotation are still read', async () => {
+    const cookies = new Map<string, string>();
+    await setEncryptedCookie(createEvent(cookies), createConfig(oldSecret), 'otp', 'value', {
+      maxAge: 60
+    });
+
+    const rotated = createConfig([newSecret, oldSecret]);
+
+    expect(await getEncryptedCookie(createEvent(cookies), rotated, 'otp')).toBe('value');
+    expect(await getEncryptedCookie(createEvent(cookies), createConfig(newSecret), 'otp')).toBeNull();
+  });
+
+  it('that were tampered with are ignored', async () => {
+    const cookies = new Map<string, string>();
+    const config = createConfig(newSecret);
+    await setEncryptedCookie(createEvent(cookies), config, 'otp', 'value', { maxAge: 60 });
+
+    const [name, value] = [...cookies.entries()][0];
+    cookies.set(name, `${value.slice(0, -4)}AAAA`);
+
+    expect(await getEncryptedCookie(createEvent(cookies), config, 'otp')).toBeNull();
+  });
+});
+
+describe('signed cookies', () => {
+  it('set before a secret rotation are still read', async () => {
+    const cookies = new Map<string, string>();
+    await setSignedCookie(createEvent(cookies), createConfig(oldSecret), 'state', 'value', {
+      maxAge: 60
+    });
+
+    const rotated = createConfig([newSecret, oldSecret]);
+
+    expect(await getSignedCookie(createEvent(cookies), rotated, 'state')).toBe('value');
+    expect(await getSignedCookie(createEvent(cookies), createConfig(newSecret), 'state')).toBeNull();
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Helpers for the short-lived cookies used by auth routes
+ */
+
+import type { RequestEvent } from '@sveltejs/kit';
+import type { ResolvedAuthConfig } from '../types.js';
+import { sign, verify, encrypt, decrypt } from '../utils/crypto.js';
+
+export interface AuthCookieOptions {
+  /**
+   * Cookie lifetime in seconds
+   */
+  maxAge: number;
+
+  /**
+   * SameSite policy (default: 'lax')
+   */
+  sameSite?: 'strict' | 'lax' | 'none';
+}
+
+/**
+ * Get the full name of an auth cookie (prefixed with the session cookie name)
+ */
+function getCookieName(config: ResolvedAuthConfig, name: string): string {
+  return `${config.cookies.name}.${name}`;
+}
+
+/**
+ * Set an auth cookie
+ */
+export function setAuthCookie(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  name: string,
+  value: string,
+  options: AuthCookieOptions
+): void {
+  event.cookies.set(getCookieName(config, name), value, {
+    path: '/',
+    httpOnly: true,
+    secure: config.cookies.secure,
+    sameSite: options.sameSite ?? 'lax',
+    maxAge: options.maxAge
+  });
+}
+
+/**
+ * Get the value of an auth cookie
+ */
+export function getAuthCookie(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  name: string
+): string | undefined {
+  return event.cookies.get(getCookieName(config, name));
+}
+
+/**
+ * Delete an auth cookie
+ */
+export function deleteAuthCookie(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  name: string
+): void {
+  event.cookies.delete(getCookieName(config, name), { path: '/' });
+}
+
+/**
+ * Store a value in an auth cookie signed with the auth secret
+ */
+export async function setSignedCookie(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  name: string,
+  value: string,
+  options: AuthCookieOptions
+): Promise<void> {
+  const signature = await sign(value, config.secret);
+  setAuthCookie(event, config, name, `${value}.${signature}`, options);
+}
+
+/**
+ * Read a signed auth cookie, returning null if it is missing or the signature is invalid
+ */
+export async function getSignedCookie(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  name: string
+): Promise<string | null> {
+  const stored = event.cookies.get(getCookieName(config, name));
+  if (!stored) {
+    return null;
+  }
+
+  const separator = stored.lastIndexOf('.');
+  if (separator === -1) {
+    return null;
+  }
+
+  const value = stored.slice(0, separator);
+  const signature = stored.slice(separator + 1);
+
+  for (const { secret } of config.secrets) {
+    try {
+      if (await verify(value, signature, secret)) {
+        return value;
+      }
+    } catch {
+      // Try the next secret
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Store a value in an auth cookie encrypted with the auth secret
+ */
+export async function setEncryptedCookie(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  name: string,
+  value: string,
+  options: AuthCookieOptions
+): Promise<void> {
+  setAuthCookie(event, config, name, await encrypt(value, config.secret), options);
+}
+
+/**
+ * Read an encrypted auth cookie, returning null if it is missing or
+ * cannot be decrypted with any configured secret
+ */
+export async function getEncryptedCookie(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  name: string
+): Promise<string | null> {
+  const stored = getAuthCookie(event, config, name);
+  if (!stored) {
+    return null;
+  }
+
+  for (const { secret } of config.secrets) {
+    try {
+      return await decrypt(stored, secret);
+    } catch {
+      // Try the next secret
+    }
+  }
+
+  return null;
+}
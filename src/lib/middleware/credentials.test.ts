@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryAdapter } from '../adapters/memory.js';
+import { Credentials, type CredentialsConfig } from '../providers/credentials.js';
+import { hashPassword, needsRehash } from '../utils/password.js';
+import { authorizeWithAdapter } from './credentials.js';
+import { resolveConfig } from './index.js';
+
+const password = 'Correct-horse-battery-9';
+
+// Cheaper than the defaults; only the relative strength matters here
+const hash = { iterations: 1000 };
+
+function createConfig(options: CredentialsConfig = {}) {
+  const adapter = createMemoryAdapter();
+  const provider = Credentials({ hash, ...options });
+  const config = resolveConfig({
+    secret: 'test-secret-that-is-at-least-32-characters',
+    providers: [provider],
+    adapter
+  });
+
+  /**
+   * Create a user with a credentials account
+   */
+  async function createAccount(login: string, loginVerified: Date | null = new Date()) {
+    const user = await adapter.createUser({ email: login, emailVerified: null, name: 'User' });
+    return adapter.linkAccount({
+      userId: user.id,
+      provider: provider.id,
+      providerAccountId: user.id,
+      login,
+      loginVerified,
+      type: 'credentials',
+      passwordHash: await hashPassword(password, hash)
+    });
+  }
+
+  function authorize(login: string, secret = password) {
+    return authorizeWithAdapter({ login, password: secret }, provider, config);
+  }
+
+  return { adapter, provider, createAccount, authorize };
+}
+
+describe('authorizeWithAdapter', () => {
+  it('returns the user of a matching login and password', async () => {
+    const { createAccount, authorize } = createConfig();
+    const account = await createAccount('user@example.com');
+
+    const user = await authorize('user@example.com');
+
+    expect(user).toMatchObject({ id: account.userId, email: 'user@example.com', name: 'User' });
+  });
+
+  it('rejects a wrong password or an unknown login', async () => {
+    const { createAccount, authorize } = createConfig();
+    await createAccount('user@example.com');
+
+    expect(await authorize('user@example.com', 'Wrong-password-1')).toBeNull();
+    expect(await authorize('user@example.com', '')).toBeNull();
+    expect(await authorize('unknown@example.com')).toBeNull();
+    expect(await authorize('not-an-email')).toBeNull();
+  });
+
+  it('rejects unverified logins when required', async () => {
+    const { createAccount, authorize } = createConfig({ requireVerifiedLogin: true });
+    await createAccount('verified@example.com');
+    await createAccount('unverified@example.com', null);
+
+    expect(await authorize('verified@example.com')).not.toBeNull();
+    expect(await authorize('unverified@example.com')).toBeNull();
+  });
+
+  it('replaces a hash made with weaker options', async () => {
+    const { adapter, provider, createAccount, authorize } = createConfig();
+    const account = await createAccount('user@example.com');
+    await adapter.updateAccount!(account.id, {
+      passwordHash: await hashPassword(password, { iterations: 500 })
+    });
+
+    await authorize('user@example.com');
+
+    const updated = await adapter.getAccountByLogin!(provider.id, 'user@example.com');
+    expect(needsRehash(updated!.passwordHash!, hash)).toBe(false);
+    expect(await authorize('user@example.com')).not.toBeNull();
+  });
+
+  it('requires an adapter that can look up logins', async () => {
+    const provider = Credentials();
+    const config = resolveConfig({
+      secret: 'test-secret-that-is-at-least-32-characters',
+      providers: [provider]
+    });
+
+    await expect(
+      authorizeWithAdapter({ login: 'user@example.com', password }, provider, config)
+    ).rejects.toThrow('getAccountByLogin');
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Adapter-backed authorization for the credentials provider
+ */
+
+import type {
+  Adapter,
+  Credentials,
+  CredentialsProviderConfig,
+  ResolvedAuthConfig,
+  User
+} from '../types.js';
+import { hashPassword, verifyPassword, needsRehash } from '../utils/password.js';
+import { generateRandomString } from '../utils/crypto.js';
+import { validateLogin } from '../providers/credentials.js';
+
+/**
+ * Adapter methods required to check logins
+ */
+export type CredentialsAdapter = Required<
+  Pick<Adapter, 'getAccountByLogin' | 'getUser' | 'updateAccount'>
+>;
+
+/**
+ * Hashes of a random password, by provider, verified against when a
+ * login does not exist so that it takes as long as a wrong password
+ */
+const dummyHashes = new WeakMap<CredentialsProviderConfig, Promise<string>>();
+
+const credentialsAdapterMethods: (keyof CredentialsAdapter)[] = [
+  'getAccountByLogin',
+  'getUser',
+  'updateAccount'
+];
+
+/**
+ * Get the adapter used to check logins
+ *
+ * @throws if the configured adapter does not implement the required methods
+ */
+export function getCredentialsAdapter(config: ResolvedAuthConfig): CredentialsAdapter {
+  const adapter = config.adapter;
+  const missing = credentialsAdapterMethods.filter(
+    (method) => typeof adapter?.[method] !== 'function'
+  );
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Credentials providers without authorize require an adapter implementing: ${missing.join(', ')}`
+    );
+  }
+
+  return adapter as CredentialsAdapter;
+}
+
+/**
+ * Get the dummy hash for a provider, hashed with its options
+ */
+function getDummyHash(provider: CredentialsProviderConfig): Promise<string> {
+  let hash = dummyHashes.get(provider);
+  if (!hash) {
+    hash = hashPassword(generateRandomString(16), provider.hash);
+    dummyHashes.set(provider, hash);
+  }
+  return hash;
+}
+
+/**
+ * Check a login and password against the adapter's credentials accounts
+ *
+ * Unknown logins still verify a password hash, so failures take the
+ * same time whether or not the login exists. Hashes made with weaker
+ * options than the provider's are replaced after a successful check.
+ *
+ * @returns The user, or null if the login or password is wrong or the
+ *   login must be verified first
+ */
+export async function authorizeWithAdapter(
+  credentials: Credentials,
+  provider: CredentialsProviderConfig,
+  config: ResolvedAuthConfig
+): Promise<User | null> {
+  const adapter = getCredentialsAdapter(config);
+  const login = (credentials.login ?? credentials.email)?.trim() ?? '';
+  const password = credentials.password ?? '';
+
+  if (!validateLogin(login, provider.loginType).valid || !password) {
+    return null;
+  }
+
+  const account = await adapter.getAccountByLogin(provider.id, login);
+
+  if (!account?.passwordHash) {
+    await verifyPassword(password, await getDummyHash(provider));
+    return null;
+  }
+
+  if (!(await verifyPassword(password, account.passwordHash))) {
+    return null;
+  }
+
+  if (provider.requireVerifiedLogin && !account.loginVerified) {
+    return null;
+  }
+
+  if (needsRehash(account.passwordHash, provider.hash)) {
+    try {
+      await adapter.updateAccount(account.id, {
+        passwordHash: await hashPassword(password, provider.hash)
+      });
+    } catch (error) {
+      // The old hash still works; try again on the next sign in
+      if (config.debug) {
+        console.error('Password rehash error:', error);
+      }
+    }
+  }
+
+  const user = await adapter.getUser(account.userId);
+  if (!user) {
+    return null;
+  }
+
+  return {
+    id: user.id,
+    email: user.email || null,
+    name: user.name,
+    image: user.image
+  };
+}
@@ -0,0 +1,118 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import { describe, expect, it } from 'vitest';
+import { getCsrfToken, verifyCsrfToken } from './csrf.js';
+import { resolveConfig } from './index.js';
+import { handleAuthRoutes } from './routes.js';
+
+const config = resolveConfig({
+  secret: 'test-secret-that-is-at-least-32-characters',
+  providers: []
+});
+
+/**
+ * Request event sharing a cookie jar with earlier requests
+ */
+function createEvent(
+  cookies: Map<string, string>,
+  init: RequestInit = {},
+  path = '/auth/signout'
+): RequestEvent {
+  const url = `http://localhost${path}`;
+
+  return {
+    url: new URL(url),
+    request: new Request(url, { method: 'POST', ...init }),
+    locals: {},
+    getClientAddress: () => '127.0.0.1',
+    cookies: {
+      get: (name: string) => cookies.get(name),
+      set: (name: string, value: string) => void cookies.set(name, value),
+      delete: (name: string) => void cookies.delete(name)
+    }
+  } as unknown as RequestEvent;
+}
+
+function form(fields: Record<string, string>): URLSearchParams {
+  return new URLSearchParams(fields);
+}
+
+describe('getCsrfToken', () => {
+  it('issues a token once and then returns the same one', async () => {
+    const cookies = new Map<string, string>();
+
+    const token = await getCsrfToken(createEvent(cookies), config);
+
+    expect(token).toBeTruthy();
+    expect(await getCsrfToken(createEvent(cookies), config)).toBe(token);
+  });
+});
+
+describe('verifyCsrfToken', () => {
+  it('accepts the token from a form field, header or JSON body', async () => {
+    const cookies = new Map<string, string>();
+    const csrfToken = await getCsrfToken(createEvent(cookies), config);
+
+    const requests: RequestInit[] = [
+      { body: form({ csrfToken }) },
+      { headers: { 'X-CSRF-Token': csrfToken } },
+      { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ csrfToken }) }
+    ];
+
+    for (const init of requests) {
+      expect(await verifyCsrfToken(createEvent(cookies, init), config)).toBe(true);
+    }
+  });
+
+  it('rejects a missing or different token', async () => {
+    const cookies = new Map<string, string>();
+    await getCsrfToken(createEvent(cookies), config);
+
+    expect(await verifyCsrfToken(createEvent(cookies), config)).toBe(false);
+    expect(
+      await verifyCsrfToken(createEvent(cookies, { body: form({ csrfToken: 'guess' }) }), config)
+    ).toBe(false);
+  });
+
+  it('rejects a token without the cookie it was issued in', async () => {
+    const csrfToken = await getCsrfToken(createEvent(new Map()), config);
+
+    const event = createEvent(new Map(), { body: form({ csrfToken }) });
+
+    expect(await verifyCsrfToken(event, config)).toBe(false);
+  });
+
+  it('rejects a cookie that was not signed with the secret', async () => {
+    const cookies = new Map<string, string>();
+    await getCsrfToken(createEvent(cookies), config);
+    const [name] = [...cookies.keys()];
+    cookies.set(name, 'planted.signature');
+
+    const event = createEvent(cookies, { body: form({ csrfToken: 'planted' }) });
+
+    expect(await verifyCsrfToken(event, config)).toBe(false);
+  });
+});
+
+describe('state-changing auth routes', () => {
+  it('refuse POST requests without the CSRF token', async () => {
+    const response = await handleAuthRoutes(createEvent(new Map()), config);
+
+    expect(response?.status).toBe(302);
+    expect(new URL(response!.headers.get('location')!).searchParams.get('error')).toBe(
+      'MissingCSRF'
+    );
+  });
+
+  it('handle POST requests with the CSRF token', async () => {
+    const cookies = new Map<string, string>();
+    const csrfToken = await getCsrfToken(createEvent(cookies), config);
+
+    const response = await handleAuthRoutes(
+      createEvent(cookies, { body: form({ csrfToken }) }),
+      config
+    );
+
+    expect(response?.status).toBe(302);
+    expect(response!.headers.get('location')).not.toContain('MissingCSRF');
+  });
+});
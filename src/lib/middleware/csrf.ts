@@ -0,0 +1,85 @@
+/**
+ * CSRF protection for state-changing auth routes
+ *
+ * Uses the double-submit pattern: a signed token is stored in a
+ * cookie and must be echoed back in the `csrfToken` form field
+ * (or the `X-CSRF-Token` header) of every POST request.
+ */
+
+import type { RequestEvent } from '@sveltejs/kit';
+import type { ResolvedAuthConfig } from '../types.js';
+import { generateRandomString, timingSafeEqual } from '../utils/crypto.js';
+import { setSignedCookie, getSignedCookie } from './cookies.js';
+
+const CSRF_COOKIE = 'csrf-token';
+const CSRF_HEADER = 'x-csrf-token';
+const CSRF_FIELD = 'csrfToken';
+const CSRF_MAX_AGE = 60 * 60; // 1 hour
+
+/**
+ * Get the current CSRF token, issuing a new one if needed
+ */
+export async function getCsrfToken(
+  event: RequestEvent,
+  config: ResolvedAuthConfig
+): Promise<string> {
+  const existing = await getSignedCookie(event, config, CSRF_COOKIE);
+  if (existing) {
+    return existing;
+  }
+
+  const csrfToken = generateRandomString(32);
+  await setSignedCookie(event, config, CSRF_COOKIE, csrfToken, {
+    maxAge: CSRF_MAX_AGE,
+    sameSite: 'strict'
+  });
+
+  return csrfToken;
+}
+
+/**
+ * Read the submitted CSRF token without consuming the request body
+ */
+async function readSubmittedToken(request: Request): Promise<string | null> {
+  const header = request.headers.get(CSRF_HEADER);
+  if (header) {
+    return header;
+  }
+
+  const contentType = request.headers.get('content-type') ?? '';
+
+  try {
+    if (
+      contentType.includes('application/x-www-form-urlencoded') ||
+      contentType.includes('multipart/form-data')
+    ) {
+      const formData = await request.clone().formData();
+      return formData.get(CSRF_FIELD)?.toString() ?? null;
+    }
+
+    if (contentType.includes('application/json')) {
+      const body = (await request.clone().json()) as Record<string, unknown>;
+      return typeof body?.[CSRF_FIELD] === 'string' ? (body[CSRF_FIELD] as string) : null;
+    }
+  } catch {
+    return null;
+  }
+
+  return null;
+}
+
+/**
+ * Verify that the submitted CSRF token matches the CSRF cookie
+ */
+export async function verifyCsrfToken(
+  event: RequestEvent,
+  config: ResolvedAuthConfig
+): Promise<boolean> {
+  const expected = await getSignedCookie(event, config, CSRF_COOKIE);
+  if (!expected) {
+    return false;
+  }
+
+  const submitted = await readSubmittedToken(event.request);
+  return submitted !== null && timingSafeEqual(submitted, expected);
+}
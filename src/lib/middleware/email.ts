@@ -0,0 +1,460 @@
+/**
+ * Email (magic link) sign in routes
+ */
+
+import type { RequestEvent } from '@sveltejs/kit';
+import type {
+  Account,
+  Adapter,
+  AdapterUser,
+  EmailProviderConfig,
+  ResolvedAuthConfig,
+  User
+} from '../types.js';
+import { createSession, setSessionCookie } from '../utils/session.js';
+import { generateToken } from '../utils/password.js';
+import { generateNumericCode, timingSafeEqual } from '../utils/crypto.js';
+import { validateLogin } from '../providers/credentials.js';
+import { resolveRedirect, errorRedirect } from './redirect.js';
+import { setEncryptedCookie, getEncryptedCookie, deleteAuthCookie } from './cookies.js';
+import { requireTwoFactor } from './two-factor.js';
+import { rateLimitIdentifier } from './rate-limit.js';
+import { getSessionClient } from './sessions.js';
+
+/**
+ * Adapter methods required by email providers
+ */
+export type EmailAdapter = Pick<
+  Adapter,
+  | 'createVerificationToken'
+  | 'useVerificationToken'
+  | 'getUserByEmail'
+  | 'createUser'
+  | 'updateUser'
+  | 'getAccount'
+  | 'linkAccount'
+>;
+
+/**
+ * Passcode challenge stored (encrypted) in the 'otp' cookie
+ */
+interface OtpChallenge {
+  identifier: string;
+  /**
+   * Verification token that makes the challenge single use
+   */
+  token: string;
+  code: string;
+  expires: number;
+}
+
+/**
+ * Failed passcode attempts by provider and email address
+ *
+ * Counts are kept per process and reset once the passcode lifetime
+ * has passed since the first failure.
+ */
+const otpAttempts = new Map<string, { count: number; resetAt: number }>();
+
+/**
+ * Attempt counts kept before expired ones are swept
+ */
+const OTP_ATTEMPTS_SWEEP_SIZE = 10_000;
+
+/**
+ * Record one more failed passcode for a key
+ */
+function recordOtpFailure(key: string, count: number, resetAt: number): void {
+  if (otpAttempts.size >= OTP_ATTEMPTS_SWEEP_SIZE) {
+    const now = Date.now();
+    for (const [attemptKey, attempts] of otpAttempts) {
+      if (attempts.resetAt <= now) {
+        otpAttempts.delete(attemptKey);
+      }
+    }
+  }
+
+  otpAttempts.set(key, { count, resetAt });
+}
+
+const emailAdapterMethods: (keyof EmailAdapter)[] = [
+  'createVerificationToken',
+  'useVerificationToken',
+  'getUserByEmail',
+  'createUser',
+  'updateUser',
+  'getAccount',
+  'linkAccount'
+];
+
+/**
+ * Get the adapter used to store sign in links and users
+ *
+ * @throws if the configured adapter does not implement the required methods
+ */
+export function getEmailAdapter(config: ResolvedAuthConfig): EmailAdapter {
+  const adapter = config.adapter;
+  const missing = emailAdapterMethods.filter(
+    (method) => typeof adapter?.[method] !== 'function'
+  );
+
+  if (missing.length > 0) {
+    throw new Error(`Email providers require an adapter implementing: ${missing.join(', ')}`);
+  }
+
+  return adapter as EmailAdapter;
+}
+
+/**
+ * Find a configured email provider by ID
+ */
+export function getEmailProvider(
+  config: ResolvedAuthConfig,
+  providerId: string
+): EmailProviderConfig | undefined {
+  return config.providers.find(
+    (p): p is EmailProviderConfig => p.id === providerId && p.type === 'email'
+  );
+}
+
+/**
+ * Normalize an email address with the provider's normalizer
+ */
+function normalizeEmail(provider: EmailProviderConfig, email: string): string {
+  return provider.normalizeIdentifier ? provider.normalizeIdentifier(email) : email.trim();
+}
+
+/**
+ * POST /auth/signin/:provider - Send a sign in link
+ */
+export async function handleEmailSignIn(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  provider: EmailProviderConfig
+): Promise<Response> {
+  const formData = await event.request.formData();
+  const email = normalizeEmail(provider, formData.get('email')?.toString() ?? '');
+
+  if (!validateLogin(email, 'email').valid) {
+    return Response.json({ error: 'Invalid email address' }, { status: 400 });
+  }
+
+  const limited = await rateLimitIdentifier(config, provider.id, email);
+  if (limited) {
+    return limited;
+  }
+
+  const verifyUrl = new URL(
+    config.pages.verifyRequest ?? `${config.basePath}/signin`,
+    event.url.origin
+  );
+  verifyUrl.searchParams.set('verifyRequest', provider.id);
+
+  try {
+    const adapter = getEmailAdapter(config);
+    const token = generateToken(32);
+    const expires = new Date(Date.now() + provider.maxAge * 1000);
+
+    await adapter.createVerificationToken({ identifier: email, token, expires });
+
+    if (provider.otp) {
+      // The passcode is kept in the browser that requested it
+      const challenge: OtpChallenge = {
+        identifier: email,
+        token,
+        code: generateNumericCode(provider.otp.length),
+        expires: expires.getTime()
+      };
+      await setEncryptedCookie(event, config, 'otp', JSON.stringify(challenge), {
+        maxAge: provider.maxAge,
+        sameSite: 'strict'
+      });
+
+      await provider.sendVerificationRequest({
+        identifier: email,
+        url: verifyUrl.toString(),
+        token: challenge.code,
+        expires,
+        provider,
+        request: event.request
+      });
+    } else {
+      // Carry the callback URL in the link so it works from another browser
+      const url = new URL(`${config.basePath}/callback/${provider.id}`, event.url.origin);
+      url.searchParams.set('token', token);
+      url.searchParams.set('email', email);
+
+      const callbackUrl = formData.get('callbackUrl')?.toString();
+      if (callbackUrl) {
+        url.searchParams.set('callbackUrl', callbackUrl);
+      }
+
+      await provider.sendVerificationRequest({
+        identifier: email,
+        url: url.toString(),
+        token,
+        expires,
+        provider,
+        request: event.request
+      });
+    }
+  } catch (error) {
+    if (config.debug) {
+      console.error('Email sign in error:', error);
+    }
+    return Response.json({ error: 'Failed to send sign in email' }, { status: 500 });
+  }
+
+  return new Response(null, {
+    status: 302,
+    headers: { Location: verifyUrl.toString() }
+  });
+}
+
+/**
+ * GET /auth/callback/:provider - Consume a sign in link
+ */
+export async function handleEmailCallback(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  provider: EmailProviderConfig
+): Promise<Response> {
+  const token = event.url.searchParams.get('token');
+  const email = event.url.searchParams.get('email');
+
+  if (!token || !email) {
+    return errorRedirect(event, config, 'Verification');
+  }
+
+  try {
+    const adapter = getEmailAdapter(config);
+    const identifier = normalizeEmail(provider, email);
+
+    // Links are single use: the token is deleted as it is read
+    const verificationToken = await adapter.useVerificationToken({ identifier, token });
+    if (!verificationToken || verificationToken.expires.getTime() < Date.now()) {
+      return errorRedirect(event, config, 'Verification');
+    }
+
+    return await completeEmailSignIn(
+      event,
+      config,
+      provider,
+      identifier,
+      event.url.searchParams.get('callbackUrl')
+    );
+  } catch (error) {
+    if (config.debug) {
+      console.error('Email callback error:', error);
+    }
+    return Response.json({ error: 'Authentication failed' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /auth/callback/:provider-otp - Verify a passcode
+ */
+export async function handleEmailOtpCallback(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  provider: EmailProviderConfig
+): Promise<Response> {
+  if (!provider.otp) {
+    return Response.json({ error: 'Provider does not use passcodes' }, { status: 400 });
+  }
+
+  const formData = await event.request.formData();
+  const code = formData.get('code')?.toString().trim() ?? '';
+
+  try {
+    const challenge = await readOtpChallenge(event, config);
+    if (!challenge || challenge.expires < Date.now()) {
+      deleteAuthCookie(event, config, 'otp');
+      return errorRedirect(event, config, 'Verification');
+    }
+
+    const adapter = getEmailAdapter(config);
+    const attemptKey = `${provider.id}:${challenge.identifier}`;
+    const attempts = otpAttempts.get(attemptKey);
+    const failures = attempts && attempts.resetAt > Date.now() ? attempts.count : 0;
+
+    if (failures >= provider.otp.maxAttempts) {
+      // Too many guesses: invalidate the code
+      await adapter.useVerificationToken({ identifier: challenge.identifier, token: challenge.token });
+      deleteAuthCookie(event, config, 'otp');
+      return errorRedirect(event, config, 'Verification');
+    }
+
+    if (!timingSafeEqual(code, challenge.code)) {
+      recordOtpFailure(
+        attemptKey,
+        failures + 1,
+        failures > 0 && attempts ? attempts.resetAt : Date.now() + provider.maxAge * 1000
+      );
+      return errorRedirect(event, config, 'Verification');
+    }
+
+    otpAttempts.delete(attemptKey);
+    deleteAuthCookie(event, config, 'otp');
+
+    // Passcodes are single use: the token is deleted as it is read
+    const verificationToken = await adapter.useVerificationToken({
+      identifier: challenge.identifier,
+      token: challenge.token
+    });
+    if (!verificationToken || verificationToken.expires.getTime() < Date.now()) {
+      return errorRedirect(event, config, 'Verification');
+    }
+
+    return await completeEmailSignIn(
+      event,
+      config,
+      provider,
+      challenge.identifier,
+      formData.get('callbackUrl')?.toString()
+    );
+  } catch (error) {
+    if (config.debug) {
+      console.error('Email passcode error:', error);
+    }
+    return Response.json({ error: 'Authentication failed' }, { status: 500 });
+  }
+}
+
+/**
+ * Read the passcode challenge from the 'otp' cookie
+ */
+async function readOtpChallenge(
+  event: RequestEvent,
+  config: ResolvedAuthConfig
+): Promise<OtpChallenge | null> {
+  const value = await getEncryptedCookie(event, config, 'otp');
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(value) as OtpChallenge;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find or create the user for a verified email address and start a session
+ */
+async function completeEmailSignIn(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  provider: EmailProviderConfig,
+  identifier: string,
+  callbackUrl: string | null | undefined
+): Promise<Response> {
+  const adapter = getEmailAdapter(config);
+  const existingUser = await adapter.getUserByEmail(identifier);
+
+  const account: Account = {
+    provider: provider.id,
+    providerAccountId: identifier,
+    type: 'email'
+  };
+
+  // Call signIn callback if provided
+  if (config.callbacks.signIn) {
+    const user: User = existingUser
+      ? {
+          id: existingUser.id,
+          email: existingUser.email,
+          name: existingUser.name,
+          image: existingUser.image
+        }
+      : { id: identifier, email: identifier };
+
+    const allowed = await config.callbacks.signIn({ user, account });
+    if (allowed === false) {
+      return errorRedirect(event, config, 'AccessDenied');
+    }
+    if (typeof allowed === 'string') {
+      return new Response(null, {
+        status: 302,
+        headers: { Location: allowed }
+      });
+    }
+  }
+
+  const adapterUser = await getOrCreateEmailUser(adapter, identifier, existingUser);
+
+  if (!(await adapter.getAccount({ provider: provider.id, providerAccountId: identifier }))) {
+    await adapter.linkAccount({
+      userId: adapterUser.id,
+      provider: provider.id,
+      providerAccountId: identifier,
+      login: identifier,
+      loginVerified: new Date(),
+      type: 'email'
+    });
+  }
+
+  const user: User = {
+    id: adapterUser.id,
+    email: adapterUser.email,
+    name: adapterUser.name,
+    image: adapterUser.image
+  };
+  const trigger = existingUser ? 'signIn' : 'signUp';
+  const redirectUrl = callbackUrl ?? (existingUser ? undefined : config.pages.newUser);
+
+  // Hold the session until the second factor is verified
+  const twoFactorRedirect = await requireTwoFactor(event, config, {
+    user,
+    account,
+    trigger,
+    callbackUrl: redirectUrl
+  });
+  if (twoFactorRedirect) {
+    return twoFactorRedirect;
+  }
+
+  const maxAge = config.session.maxAge ?? 30 * 24 * 60 * 60;
+  const session = createSession(user, maxAge);
+
+  await setSessionCookie(event.cookies, session, config, {
+    account,
+    trigger,
+    client: getSessionClient(event)
+  });
+
+  const redirectTo = await resolveRedirect(event, config, redirectUrl);
+
+  return new Response(null, {
+    status: 302,
+    headers: { Location: redirectTo }
+  });
+}
+
+/**
+ * Find or create the user for a verified email address
+ *
+ * Following the link or entering the passcode proves ownership of
+ * the address, so it is marked as verified.
+ */
+async function getOrCreateEmailUser(
+  adapter: EmailAdapter,
+  email: string,
+  existingUser: AdapterUser | null
+): Promise<AdapterUser> {
+  if (!existingUser) {
+    return adapter.createUser({
+      email,
+      emailVerified: new Date(),
+      name: null,
+      image: null
+    });
+  }
+
+  if (!existingUser.emailVerified) {
+    return adapter.updateUser({ id: existingUser.id, emailVerified: new Date() });
+  }
+
+  return existingUser;
+}
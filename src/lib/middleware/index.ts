@@ -11,16 +11,34 @@ import type {
   User,
   MiddlewareOptions,
   OAuthProviderConfig,
-  CredentialsProviderConfig
+  CredentialsProviderConfig,
+  SecretKey
 } from '../types.js';
 import {
   getSessionFromCookies,
   setSessionCookie,
-  deleteSessionCookie,
+  destroySession,
+  getSessionAdapter,
+  shouldUpdateSession,
+  renewSession,
   createSession,
   defaultCookieConfig
 } from '../utils/session.js';
+import { defaultAttemptStore } from '../utils/attempts.js';
+import { defaultRateLimitStore } from '../utils/rate-limit.js';
+import { getSessionVersionAdapter } from '../utils/session-version.js';
 import { handleAuthRoutes } from './routes.js';
+import { createAuthorizationUrl } from './oauth.js';
+import { resolveRedirect } from './redirect.js';
+import { getAccessToken } from './tokens.js';
+import { listAccounts, unlinkAccount } from './accounts.js';
+import { listSessions, revokeSession, revokeAllSessions } from './sessions.js';
+import { getEmailAdapter } from './email.js';
+import { getTwoFactorAdapter } from './two-factor.js';
+import { getPasskeyAdapter } from './passkey.js';
+import { getSignUpAdapter } from './signup.js';
+import { getCredentialsAdapter } from './credentials.js';
+import { defaultRouteRateLimits } from './rate-limit.js';
 
 /**
  * Default configuration values
@@ -29,20 +47,43 @@ const defaults = {
   session: {
     strategy: 'jwt' as const,
     maxAge: 30 * 24 * 60 * 60, // 30 days
-    updateAge: 24 * 60 * 60 // 24 hours
+    updateAge: 24 * 60 * 60, // 24 hours
+    encrypt: false,
+    revocation: false
   },
   basePath: '/auth',
   debug: false,
   trustHost: false
 };
 
+/**
+ * Normalize the configured secret or secrets, primary first
+ */
+function resolveSecrets(secret: AuthConfig['secret']): SecretKey[] {
+  const secrets = (Array.isArray(secret) ? secret : [secret])
+    .map((key) => (typeof key === 'string' ? { secret: key } : key))
+    .filter((key) => key.secret);
+
+  if (secrets.length === 0) {
+    throw new Error('At least one secret is required');
+  }
+
+  return secrets;
+}
+
 /**
  * Resolve configuration with defaults
  */
 export function resolveConfig(config: AuthConfig): ResolvedAuthConfig {
+  const secrets = resolveSecrets(config.secret);
+  const lockout = config.lockout === true ? {} : config.lockout;
+  const rateLimit = config.rateLimit === true ? {} : config.rateLimit;
+
   return {
     providers: config.providers,
-    secret: config.secret,
+    secret: secrets[0].secret,
+    secrets,
+    signingKeys: config.signingKeys ?? [],
     adapter: config.adapter,
     session: {
       ...defaults.session,
@@ -56,7 +97,40 @@ export function resolveConfig(config: AuthConfig): ResolvedAuthConfig {
     callbacks: config.callbacks ?? {},
     debug: config.debug ?? defaults.debug,
     trustHost: config.trustHost ?? defaults.trustHost,
-    basePath: config.basePath ?? defaults.basePath
+    basePath: config.basePath ?? defaults.basePath,
+    allowedRedirectOrigins: config.allowedRedirectOrigins ?? [],
+    autoLinkAccount: config.autoLinkAccount ?? false,
+    twoFactor: config.twoFactor
+      ? {
+          digits: 6,
+          period: 30,
+          window: 1,
+          recoveryCodes: 10,
+          maxAge: 5 * 60, // 5 minutes
+          maxAttempts: 5,
+          ...config.twoFactor
+        }
+      : undefined,
+    lockout: lockout
+      ? {
+          maxAttempts: 5,
+          maxAttemptsPerIp: 0,
+          lockoutDuration: 60, // 1 minute
+          maxLockoutDuration: 60 * 60, // 1 hour
+          attemptWindow: 15 * 60, // 15 minutes
+          ...lockout,
+          store: lockout.store ?? defaultAttemptStore
+        }
+      : undefined,
+    rateLimit: rateLimit
+      ? {
+          default: { limit: 120, window: 60 },
+          perIdentifier: { limit: 5, window: 15 * 60 },
+          ...rateLimit,
+          routes: { ...defaultRouteRateLimits, ...rateLimit.routes },
+          store: rateLimit.store ?? defaultRateLimitStore
+        }
+      : undefined
   };
 }
 
@@ -84,11 +158,15 @@ function createAuthContext(
         throw new Error(`Provider "${provider}" not found`);
       }
 
-      const redirectTo = options?.redirectTo ?? event.url.origin;
+      const redirectTo = await resolveRedirect(
+        event,
+        config,
+        options?.redirectTo ?? event.url.origin
+      );
       const redirect = options?.redirect ?? true;
 
       if (providerConfig.type === 'oauth') {
-        const authUrl = buildOAuthAuthorizationUrl(
+        const authUrl = await createAuthorizationUrl(
           providerConfig as OAuthProviderConfig,
           event,
           config,
@@ -108,9 +186,13 @@ function createAuthContext(
     },
 
     async signOut(options?: { redirectTo?: string; redirect?: boolean }) {
-      deleteSessionCookie(event.cookies, config);
+      await destroySession(event.cookies, config);
 
-      const redirectTo = options?.redirectTo ?? config.pages.signOut ?? '/';
+      const redirectTo = await resolveRedirect(
+        event,
+        config,
+        options?.redirectTo ?? config.pages.signOut ?? '/'
+      );
       const redirect = options?.redirect ?? true;
 
       if (redirect) {
@@ -119,59 +201,79 @@ function createAuthContext(
           headers: { Location: redirectTo }
         });
       }
+    },
+
+    async getAccessToken(provider: string) {
+      const session = await sessionPromise;
+      if (!session) {
+        return null;
+      }
+
+      return getAccessToken(config, session.user.id, provider);
+    },
+
+    async revokeAllSessions(userId: string) {
+      await revokeAllSessions(config, userId);
+    },
+
+    async listAccounts() {
+      const session = await sessionPromise;
+      if (!session) {
+        return [];
+      }
+
+      return listAccounts(config, session.user.id);
+    },
+
+    async unlinkAccount(provider: string) {
+      const session = await sessionPromise;
+      if (!session) {
+        return { success: false, error: 'Not authenticated' };
+      }
+
+      return unlinkAccount(config, session.user.id, provider);
+    },
+
+    async listSessions() {
+      const session = await sessionPromise;
+      if (!session) {
+        return [];
+      }
+
+      return listSessions(config, event.cookies, session.user.id);
+    },
+
+    async revokeSession(id: string) {
+      const session = await sessionPromise;
+      if (!session) {
+        return false;
+      }
+
+      return revokeSession(config, session.user.id, id);
     }
   };
 }
 
 /**
- * Build OAuth authorization URL
+ * Load the session for a request, renewing it once updateAge has elapsed
  */
-function buildOAuthAuthorizationUrl(
-  provider: OAuthProviderConfig,
+async function loadSession(
   event: RequestEvent,
-  config: ResolvedAuthConfig,
-  redirectTo: string
-): URL {
-  const authConfig =
-    typeof provider.authorization === 'string'
-      ? { url: provider.authorization }
-      : provider.authorization;
-
-  const url = new URL(authConfig.url);
-  const callbackUrl = new URL(`${config.basePath}/callback/${provider.id}`, event.url.origin);
-
-  url.searchParams.set('client_id', provider.clientId);
-  url.searchParams.set('redirect_uri', callbackUrl.toString());
-  url.searchParams.set('response_type', 'code');
-
-  if (authConfig.params) {
-    for (const [key, value] of Object.entries(authConfig.params)) {
-      url.searchParams.set(key, value);
+  config: ResolvedAuthConfig
+): Promise<Session | null> {
+  const session = await getSessionFromCookies(event.cookies, config);
+
+  if (session && shouldUpdateSession(session, config.session.maxAge, config.session.updateAge)) {
+    try {
+      return await renewSession(event.cookies, session, config);
+    } catch (error) {
+      if (config.debug) {
+        console.error('Session renewal failed:', error);
+      }
     }
   }
 
-  // Store state for CSRF protection
-  const state = crypto.randomUUID();
-  event.cookies.set(`${config.cookies.name}.state`, state, {
-    path: '/',
-    httpOnly: true,
-    secure: config.cookies.secure,
-    sameSite: 'lax',
-    maxAge: 60 * 15 // 15 minutes
-  });
-
-  // Store callback URL
-  event.cookies.set(`${config.cookies.name}.callback-url`, redirectTo, {
-    path: '/',
-    httpOnly: true,
-    secure: config.cookies.secure,
-    sameSite: 'lax',
-    maxAge: 60 * 15
-  });
-
-  url.searchParams.set('state', state);
-
-  return url;
+  return session;
 }
 
 /**
@@ -180,17 +282,44 @@ function buildOAuthAuthorizationUrl(
 export function createAuth(config: AuthConfig): Handle {
   const resolvedConfig = resolveConfig(config);
 
-  return async ({ event, resolve }) => {
-    // Check if this is an auth route
-    if (event.url.pathname.startsWith(resolvedConfig.basePath)) {
-      const response = await handleAuthRoutes(event, resolvedConfig);
-      if (response) {
-        return response;
-      }
-    }
+  // Fail fast if the adapter cannot persist database sessions
+  if (resolvedConfig.session.strategy === 'database') {
+    getSessionAdapter(resolvedConfig);
+  }
+
+  // Session versions are read through the adapter on every request
+  if (resolvedConfig.session.revocation) {
+    getSessionVersionAdapter(resolvedConfig.adapter);
+  }
+
+  // Email providers store sign in links and users through the adapter
+  if (resolvedConfig.providers.some((p) => p.type === 'email')) {
+    getEmailAdapter(resolvedConfig);
+  }
+
+  // Credentials providers without authorize check logins through the adapter
+  if (resolvedConfig.providers.some((p) => p.type === 'credentials' && !p.authorize)) {
+    getCredentialsAdapter(resolvedConfig);
+  }
+
+  // Sign up creates users and accounts through the adapter
+  if (resolvedConfig.providers.some((p) => p.type === 'credentials' && p.signUp)) {
+    getSignUpAdapter(resolvedConfig);
+  }
+
+  // Passkeys are stored through the adapter
+  if (resolvedConfig.providers.some((p) => p.type === 'passkey')) {
+    getPasskeyAdapter(resolvedConfig);
+  }
+
+  // Second factors are stored through the adapter
+  if (resolvedConfig.twoFactor) {
+    getTwoFactorAdapter(resolvedConfig);
+  }
 
+  return async ({ event, resolve }) => {
     // Get session (lazy loaded)
-    const sessionPromise = getSessionFromCookies(event.cookies, resolvedConfig);
+    const sessionPromise = loadSession(event, resolvedConfig);
 
     // Create auth context
     const auth = createAuthContext(event, resolvedConfig, sessionPromise);
@@ -203,6 +332,14 @@ export function createAuth(config: AuthConfig): Handle {
     event.locals.session = session;
     event.locals.user = session?.user ?? null;
 
+    // Check if this is an auth route
+    if (event.url.pathname.startsWith(resolvedConfig.basePath)) {
+      const response = await handleAuthRoutes(event, resolvedConfig);
+      if (response) {
+        return response;
+      }
+    }
+
     // Continue with request
     return resolve(event);
   };
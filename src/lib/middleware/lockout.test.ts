@@ -0,0 +1,115 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import { describe, expect, it } from 'vitest';
+import type { LockoutConfig } from '../types.js';
+import {
+  createMemoryAttemptStore,
+  getIpAttemptKey,
+  getLoginAttemptKey
+} from '../utils/attempts.js';
+import { resolveConfig } from './index.js';
+import { beginSignInAttempt, clearFailedSignIns } from './lockout.js';
+
+function createConfig(lockout?: LockoutConfig | boolean) {
+  return resolveConfig({
+    secret: 'test-secret-that-is-at-least-32-characters',
+    providers: [],
+    lockout
+  });
+}
+
+function createEvent(ip = '203.0.113.7'): RequestEvent {
+  return { getClientAddress: () => ip } as unknown as RequestEvent;
+}
+
+/**
+ * Start a credentials sign in for a login from a client IP
+ */
+function attempt(
+  config: ReturnType<typeof createConfig>,
+  login: string,
+  ip?: string
+): Promise<boolean> {
+  return beginSignInAttempt(createEvent(ip), config, 'credentials', { login });
+}
+
+describe('attempt keys', () => {
+  it('ignore the case and surrounding whitespace of a login', () => {
+    expect(getLoginAttemptKey('credentials', ' User@Example.com ')).toBe(
+      'login:credentials:user@example.com'
+    );
+  });
+
+  it('are separate per provider and per client IP', () => {
+    expect(getLoginAttemptKey('credentials', 'user')).not.toBe(getLoginAttemptKey('ldap', 'user'));
+    expect(getIpAttemptKey('203.0.113.7')).toBe('ip:203.0.113.7');
+  });
+});
+
+describe('lockout config', () => {
+  it('is off by default', () => {
+    expect(createConfig().lockout).toBeUndefined();
+    expect(createConfig(false).lockout).toBeUndefined();
+  });
+
+  it('does not count per client IP unless configured', () => {
+    expect(createConfig(true).lockout?.maxAttemptsPerIp).toBe(0);
+    expect(createConfig({ maxAttemptsPerIp: 20 }).lockout?.maxAttemptsPerIp).toBe(20);
+  });
+});
+
+describe('beginSignInAttempt', () => {
+  it('allows every attempt when lockout is off', async () => {
+    const config = createConfig();
+
+    for (let i = 0; i < 10; i++) {
+      expect(await attempt(config, 'user')).toBe(true);
+    }
+  });
+
+  it('locks a login once its attempts reach the limit', async () => {
+    const store = createMemoryAttemptStore();
+    const config = createConfig({ store, maxAttempts: 3 });
+
+    for (let i = 0; i < 3; i++) {
+      expect(await attempt(config, 'user@example.com')).toBe(true);
+    }
+
+    // Also with another case, and from another address
+    expect(await attempt(config, 'USER@example.com', '198.51.100.1')).toBe(false);
+    expect(await store.get(getIpAttemptKey('203.0.113.7'))).toBeNull();
+  });
+
+  it('counts attempts made in parallel before any is verified', async () => {
+    const config = createConfig({ store: createMemoryAttemptStore(), maxAttempts: 3 });
+
+    const results = await Promise.all(Array.from({ length: 6 }, () => attempt(config, 'user')));
+
+    expect(results).toEqual([true, true, true, false, false, false]);
+  });
+
+  it('locks a client IP across logins when configured', async () => {
+    const config = createConfig({ store: createMemoryAttemptStore(), maxAttemptsPerIp: 3 });
+
+    for (let i = 0; i < 3; i++) {
+      await attempt(config, `user-${i}`);
+    }
+
+    expect(await attempt(config, 'new')).toBe(false);
+    expect(await attempt(config, 'new', '198.51.100.1')).toBe(true);
+  });
+});
+
+describe('clearFailedSignIns', () => {
+  it('forgets the login and takes back the attempt from the client IP', async () => {
+    const store = createMemoryAttemptStore();
+    const config = createConfig({ store, maxAttemptsPerIp: 10 });
+
+    await attempt(config, 'other');
+    await attempt(config, 'user');
+    await clearFailedSignIns(createEvent(), config, 'credentials', { login: 'user' });
+
+    expect(await store.get(getLoginAttemptKey('credentials', 'user'))).toBeNull();
+    expect((await store.get(getLoginAttemptKey('credentials', 'other')))?.count).toBe(1);
+    expect((await store.get(getIpAttemptKey('203.0.113.7')))?.count).toBe(1);
+  });
+});
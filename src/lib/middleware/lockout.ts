@@ -0,0 +1,159 @@
+/**
+ * Lockout after repeated failed credentials sign ins
+ */
+
+import type { RequestEvent } from '@sveltejs/kit';
+import type { AttemptStore, Credentials, ResolvedAuthConfig } from '../types.js';
+import { getLoginAttemptKey, getIpAttemptKey } from '../utils/attempts.js';
+import { createKeyedQueue } from '../utils/queue.js';
+import { getClientAddress } from './rate-limit.js';
+
+type LockoutSettings = NonNullable<ResolvedAuthConfig['lockout']>;
+
+/**
+ * Updates by attempt key, so concurrent requests in this process change
+ * a count one at a time
+ */
+const updateAttempt = createKeyedQueue();
+
+/**
+ * Keys a sign in attempt is counted under, with the failures allowed for each
+ */
+function getAttemptKeys(
+  event: RequestEvent,
+  lockout: LockoutSettings,
+  providerId: string,
+  credentials: Credentials
+): { key: string; maxAttempts: number }[] {
+  const keys: { key: string; maxAttempts: number }[] = [];
+  const login = credentials.login ?? credentials.email;
+
+  if (login?.trim()) {
+    keys.push({ key: getLoginAttemptKey(providerId, login), maxAttempts: lockout.maxAttempts });
+  }
+
+  // Off unless configured, and some adapters cannot report the client
+  // address; count by login only then
+  const ip = lockout.maxAttemptsPerIp > 0 ? getClientAddress(event) : null;
+  if (ip) {
+    keys.push({ key: getIpAttemptKey(ip), maxAttempts: lockout.maxAttemptsPerIp });
+  }
+
+  return keys;
+}
+
+/**
+ * Record one more attempt for a key unless it is locked, locking it once
+ * the limit is reached
+ *
+ * Each attempt past the limit doubles the lockout, up to the maximum.
+ *
+ * @returns false if the key was already locked
+ */
+function recordAttempt(
+  store: AttemptStore,
+  lockout: LockoutSettings,
+  key: string,
+  maxAttempts: number
+): Promise<boolean> {
+  return updateAttempt(key, async () => {
+    const now = Date.now();
+    const previous = await store.get(key);
+    if (previous?.lockedUntil && previous.lockedUntil.getTime() > now) {
+      return false;
+    }
+
+    const count = (previous?.count ?? 0) + 1;
+
+    let lockedUntil: Date | null = null;
+    if (count >= maxAttempts) {
+      const seconds = Math.min(
+        lockout.lockoutDuration * 2 ** (count - maxAttempts),
+        lockout.maxLockoutDuration
+      );
+      lockedUntil = new Date(now + seconds * 1000);
+    }
+
+    await store.set({
+      key,
+      count,
+      lockedUntil,
+      expiresAt: new Date(Math.max(now + lockout.attemptWindow * 1000, lockedUntil?.getTime() ?? 0))
+    });
+    return true;
+  });
+}
+
+/**
+ * Count a sign in attempt against its login and client IP before the
+ * credentials are checked
+ *
+ * Counting first means parallel requests cannot all check against the
+ * same count while the password is being verified.
+ *
+ * @returns false if the login or client IP is locked out
+ */
+export async function beginSignInAttempt(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  providerId: string,
+  credentials: Credentials
+): Promise<boolean> {
+  const lockout = config.lockout;
+  if (!lockout) {
+    return true;
+  }
+
+  const keys = getAttemptKeys(event, lockout, providerId, credentials);
+
+  // Refuse locked keys before counting against any of them
+  for (const { key } of keys) {
+    const attempt = await lockout.store.get(key);
+    if (attempt?.lockedUntil && attempt.lockedUntil.getTime() > Date.now()) {
+      return false;
+    }
+  }
+
+  let allowed = true;
+  for (const { key, maxAttempts } of keys) {
+    if (!(await recordAttempt(lockout.store, lockout, key, maxAttempts))) {
+      allowed = false;
+    }
+  }
+
+  return allowed;
+}
+
+/**
+ * Take back the attempt counted for a login after it signed in
+ *
+ * The login's failures are forgotten. Earlier failures from the client
+ * IP are kept, so signing in to one account does not reset guessing
+ * against others from the same address.
+ */
+export async function clearFailedSignIns(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  providerId: string,
+  credentials: Credentials
+): Promise<void> {
+  const lockout = config.lockout;
+  if (!lockout) {
+    return;
+  }
+
+  for (const { key } of getAttemptKeys(event, lockout, providerId, credentials)) {
+    await updateAttempt(key, async () => {
+      const attempt = await lockout.store.get(key);
+      if (!attempt) {
+        return;
+      }
+
+      if (key.startsWith('login:') || attempt.count <= 1) {
+        await lockout.store.delete(key);
+      } else {
+        await lockout.store.set({ ...attempt, count: attempt.count - 1 });
+      }
+    });
+  }
+}
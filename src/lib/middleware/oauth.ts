@@ -0,0 +1,212 @@
+/**
+ * OAuth authorization helpers
+ */
+
+import type { RequestEvent } from '@sveltejs/kit';
+import type { OAuthProviderConfig, ResolvedAuthConfig } from '../types.js';
+import {
+  generateCodeVerifier,
+  generateCodeChallenge,
+  generateRandomString
+} from '../utils/crypto.js';
+import { discoverIssuer, type OIDCMetadata } from '../utils/oidc.js';
+import {
+  setAuthCookie,
+  deleteAuthCookie,
+  setSignedCookie,
+  getSignedCookie
+} from './cookies.js';
+
+/**
+ * Lifetime of the cookies used during the authorization round trip
+ */
+const CHECKS_MAX_AGE = 60 * 15; // 15 minutes
+
+/**
+ * Endpoint configuration with a URL and optional extra parameters
+ */
+interface EndpointConfig {
+  url: string;
+  params?: Record<string, string>;
+}
+
+/**
+ * Provider endpoints after applying OpenID Connect discovery
+ */
+export interface ResolvedEndpoints {
+  authorization: EndpointConfig;
+  token: EndpointConfig;
+  userinfo?: string;
+  metadata?: OIDCMetadata;
+}
+
+/**
+ * Normalize an endpoint given as a URL or configuration object
+ */
+function toEndpointConfig(endpoint: string | EndpointConfig | undefined): EndpointConfig | undefined {
+  return typeof endpoint === 'string' ? { url: endpoint } : endpoint;
+}
+
+/**
+ * Resolve a provider's endpoints, filling in any missing
+ * ones from its well-known configuration
+ */
+export async function resolveEndpoints(provider: OAuthProviderConfig): Promise<ResolvedEndpoints> {
+  const metadata = provider.wellKnown ? await discoverIssuer(provider.wellKnown) : undefined;
+  if (metadata && provider.issuer && metadata.issuer !== provider.issuer) {
+    throw new Error(
+      `Provider "${provider.id}" issuer mismatch: expected ${provider.issuer}, got ${metadata.issuer}`
+    );
+  }
+
+  const authorization = toEndpointConfig(provider.authorization);
+  const token = toEndpointConfig(provider.token);
+  const userinfo = toEndpointConfig(provider.userinfo);
+
+  const authorizationUrl = authorization?.url || metadata?.authorization_endpoint;
+  const tokenUrl = token?.url || metadata?.token_endpoint;
+
+  if (!authorizationUrl || !tokenUrl) {
+    throw new Error(
+      `Provider "${provider.id}" needs authorization and token endpoints or a wellKnown URL`
+    );
+  }
+
+  return {
+    authorization: { url: authorizationUrl, params: authorization?.params },
+    token: { url: tokenUrl, params: token?.params },
+    userinfo: userinfo?.url || metadata?.userinfo_endpoint,
+    metadata
+  };
+}
+
+/**
+ * Check whether a provider uses PKCE
+ */
+export function usesPkce(provider: OAuthProviderConfig): boolean {
+  return provider.checks?.includes('pkce') ?? false;
+}
+
+/**
+ * Check whether a provider uses an OpenID Connect nonce
+ */
+export function usesNonce(provider: OAuthProviderConfig): boolean {
+  return provider.checks?.includes('nonce') ?? false;
+}
+
+/**
+ * Set a short-lived cookie used during the authorization round trip
+ */
+function setChecksCookie(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  name: string,
+  value: string
+): void {
+  setAuthCookie(event, config, name, value, { maxAge: CHECKS_MAX_AGE });
+}
+
+/**
+ * Read and delete a signed cookie, returning null if the signature is invalid
+ */
+async function consumeSignedCookie(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  name: string
+): Promise<string | null> {
+  const value = await getSignedCookie(event, config, name);
+  deleteAuthCookie(event, config, name);
+  return value;
+}
+
+/**
+ * Build the provider authorization URL and store the state,
+ * callback URL, PKCE verifier and nonce cookies
+ *
+ * Pass `linkUserId` to link the provider account to that user in the
+ * callback instead of signing in.
+ */
+export async function createAuthorizationUrl(
+  provider: OAuthProviderConfig,
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  redirectTo: string,
+  options: { linkUserId?: string } = {}
+): Promise<URL> {
+  const { authorization: authConfig } = await resolveEndpoints(provider);
+
+  const url = new URL(authConfig.url);
+  const callbackUrl = new URL(`${config.basePath}/callback/${provider.id}`, event.url.origin);
+
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', callbackUrl.toString());
+  url.searchParams.set('response_type', 'code');
+
+  if (authConfig.params) {
+    for (const [key, value] of Object.entries(authConfig.params)) {
+      url.searchParams.set(key, value);
+    }
+  }
+
+  // Store state for CSRF protection
+  const state = crypto.randomUUID();
+  setChecksCookie(event, config, 'state', state);
+  url.searchParams.set('state', state);
+
+  // Store the PKCE verifier and send its S256 challenge
+  if (usesPkce(provider)) {
+    const codeVerifier = generateCodeVerifier();
+    await setSignedCookie(event, config, 'pkce', codeVerifier, { maxAge: CHECKS_MAX_AGE });
+    url.searchParams.set('code_challenge', await generateCodeChallenge(codeVerifier));
+    url.searchParams.set('code_challenge_method', 'S256');
+  }
+
+  // Store the nonce the ID token must echo back
+  if (usesNonce(provider)) {
+    const nonce = generateRandomString(16);
+    await setSignedCookie(event, config, 'nonce', nonce, { maxAge: CHECKS_MAX_AGE });
+    url.searchParams.set('nonce', nonce);
+  }
+
+  // Store callback URL for after authentication
+  setChecksCookie(event, config, 'callback-url', redirectTo);
+
+  // Remember which user is linking, or forget an abandoned link
+  if (options.linkUserId) {
+    await setSignedCookie(event, config, 'link', options.linkUserId, { maxAge: CHECKS_MAX_AGE });
+  } else {
+    deleteAuthCookie(event, config, 'link');
+  }
+
+  return url;
+}
+
+/**
+ * Read and delete the PKCE code verifier stored by createAuthorizationUrl
+ */
+export async function useCodeVerifier(
+  event: RequestEvent,
+  config: ResolvedAuthConfig
+): Promise<string | null> {
+  return consumeSignedCookie(event, config, 'pkce');
+}
+
+/**
+ * Read and delete the ID of the user linking an account, if this is a link
+ */
+export async function useLinkUserId(
+  event: RequestEvent,
+  config: ResolvedAuthConfig
+): Promise<string | null> {
+  return consumeSignedCookie(event, config, 'link');
+}
+
+/**
+ * Read and delete the nonce stored by createAuthorizationUrl
+ */
+export async function useNonce(
+  event: RequestEvent,
+  config: ResolvedAuthConfig
+): Promise<string | null> {
+  return consumeSignedCookie(event, config, 'nonce');
+}
@@ -0,0 +1,214 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { createMemoryAdapter } from '../adapters/memory.js';
+import { Passkey } from '../providers/passkey.js';
+import { base64UrlDecode, base64UrlEncode, encrypt } from '../utils/crypto.js';
+import { generateTotpSecret } from '../utils/totp.js';
+import type { AuthenticationResponseJSON } from '../utils/webauthn.js';
+import { resolveConfig } from './index.js';
+import { handlePasskeyAuthenticationOptions, handlePasskeyCallback } from './passkey.js';
+
+const encoder = new TextEncoder();
+const adapter = createMemoryAdapter();
+const provider = Passkey();
+const config = resolveConfig({
+  secret: 'test-secret-that-is-at-least-32-characters',
+  adapter,
+  providers: [provider],
+  twoFactor: {}
+});
+
+let privateKey: CryptoKey;
+let publicKey: string;
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+/**
+ * Convert a raw r || s ECDSA signature to DER, as authenticators send it
+ */
+function rawToDerSignature(raw: Uint8Array): Uint8Array {
+  const integer = (value: Uint8Array): Uint8Array => {
+    let start = 0;
+    while (start < value.length - 1 && value[start] === 0) {
+      start++;
+    }
+    const trimmed = value.slice(start);
+    const bytes = trimmed[0] & 0x80 ? concat(new Uint8Array([0]), trimmed) : trimmed;
+    return concat(new Uint8Array([0x02, bytes.length]), bytes);
+  };
+
+  const body = concat(integer(raw.slice(0, 32)), integer(raw.slice(32)));
+  return concat(new Uint8Array([0x30, body.length]), body);
+}
+
+/**
+ * Request event with its own cookie jar
+ */
+function createEvent(cookies: Map<string, string>, body?: unknown): RequestEvent {
+  const url = 'http://localhost/auth/callback/passkey';
+
+  return {
+    url: new URL(url),
+    request: new Request(url, { method: 'POST', body: JSON.stringify(body ?? {}) }),
+    locals: {},
+    getClientAddress: () => '127.0.0.1',
+    cookies: {
+      get: (name: string) => cookies.get(name),
+      set: (name: string, value: string) => void cookies.set(name, value),
+      delete: (name: string) => void cookies.delete(name)
+    }
+  } as unknown as RequestEvent;
+}
+
+/**
+ * Sign an assertion for a challenge the way a browser and authenticator would
+ */
+async function createAssertion(
+  credentialId: string,
+  challenge: string,
+  flags: number
+): Promise<AuthenticationResponseJSON> {
+  const clientData = encoder.encode(
+    JSON.stringify({ type: 'webauthn.get', challenge, origin: 'http://localhost' })
+  );
+  const rpIdHash = new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode('localhost')));
+  // Counter 0: an authenticator without a signature counter
+  const authenticatorData = concat(rpIdHash, new Uint8Array([flags, 0, 0, 0, 0]));
+  const clientDataHash = new Uint8Array(await crypto.subtle.digest('SHA-256', clientData));
+  const signature = new Uint8Array(
+    await crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      privateKey,
+      concat(authenticatorData, clientDataHash) as unknown as BufferSource
+    )
+  );
+
+  return {
+    id: credentialId,
+    rawId: credentialId,
+    type: 'public-key',
+    response: {
+      clientDataJSON: base64UrlEncode(clientData),
+      authenticatorData: base64UrlEncode(authenticatorData),
+      signature: base64UrlEncode(rawToDerSignature(signature))
+    }
+  };
+}
+
+/**
+ * Create a user with a passkey, and optionally two-factor authentication
+ *
+ * @returns The credential ID of the passkey
+ */
+async function createUser(email: string, twoFactor: boolean): Promise<string> {
+  const user = await adapter.createUser({ email, emailVerified: null });
+  const credentialId = base64UrlEncode(crypto.getRandomValues(new Uint8Array(16)));
+
+  await adapter.createAuthenticator!({
+    userId: user.id,
+    credentialId,
+    publicKey,
+    counter: 0,
+    transports: ['internal']
+  });
+
+  if (twoFactor) {
+    await adapter.createTwoFactor!({
+      userId: user.id,
+      secret: await encrypt(generateTotpSecret(), config.secret),
+      enabledAt: new Date(),
+      lastUsedStep: null,
+      recoveryCodes: []
+    });
+  }
+
+  return credentialId;
+}
+
+/**
+ * Request a challenge and answer it with a passkey
+ *
+ * @returns The answer, with the cookies it was sent with
+ */
+async function answerChallenge(credentialId: string, flags: number) {
+  const cookies = new Map<string, string>();
+  const options = await handlePasskeyAuthenticationOptions(createEvent(cookies), config, provider);
+  const { challenge } = await options.json();
+  const credential = await createAssertion(credentialId, challenge, flags);
+
+  return { cookies, body: { credential, callbackUrl: '/done' } };
+}
+
+async function signIn(credentialId: string, flags: number): Promise<Response> {
+  const { cookies, body } = await answerChallenge(credentialId, flags);
+
+  return handlePasskeyCallback(createEvent(cookies, body), config, provider);
+}
+
+beforeAll(async () => {
+  const pair = (await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+    'sign',
+    'verify'
+  ])) as CryptoKeyPair;
+  const jwk = await crypto.subtle.exportKey('jwk', pair.publicKey);
+
+  // COSE EC2 P-256 key: {1: 2, 3: -7, -1: 1, -2: x, -3: y}
+  const coseKey = concat(
+    new Uint8Array([0xa5, 0x01, 0x02, 0x03, 0x26, 0x20, 0x01, 0x21, 0x58, 0x20]),
+    base64UrlDecode(jwk.x!),
+    new Uint8Array([0x22, 0x58, 0x20]),
+    base64UrlDecode(jwk.y!)
+  );
+
+  privateKey = pair.privateKey;
+  publicKey = base64UrlEncode(coseKey);
+});
+
+describe('handlePasskeyCallback', () => {
+  it('signs in when the authenticator verified the user', async () => {
+    const credentialId = await createUser('verified@example.com', true);
+
+    const response = await signIn(credentialId, 0x05);
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('location')).toBe('/done');
+  });
+
+  it('holds a sign in that only proved presence for the second factor', async () => {
+    const credentialId = await createUser('present@example.com', true);
+
+    const response = await signIn(credentialId, 0x01);
+
+    expect(response.status).toBe(302);
+    expect(new URL(response.headers.get('location')!).searchParams.get('twoFactor')).toBe('1');
+  });
+
+  it('signs in users without two-factor authentication', async () => {
+    const credentialId = await createUser('single@example.com', false);
+
+    const response = await signIn(credentialId, 0x01);
+
+    expect(response.headers.get('location')).toBe('/done');
+  });
+
+  it('accepts a captured challenge cookie and assertion only once', async () => {
+    const credentialId = await createUser('replay@example.com', false);
+    const { cookies, body } = await answerChallenge(credentialId, 0x05);
+
+    const first = await handlePasskeyCallback(createEvent(new Map(cookies), body), config, provider);
+    const replay = await handlePasskeyCallback(createEvent(new Map(cookies), body), config, provider);
+
+    expect(first.headers.get('location')).toBe('/done');
+    expect(new URL(replay.headers.get('location')!).searchParams.get('error')).toBe(
+      'PasskeyVerification'
+    );
+  });
+});
@@ -0,0 +1,452 @@
+/**
+ * Passkey (WebAuthn) registration and sign in routes
+ */
+
+import type { RequestEvent } from '@sveltejs/kit';
+import type {
+  Account,
+  Adapter,
+  PasskeyProviderConfig,
+  ResolvedAuthConfig,
+  Session,
+  User
+} from '../types.js';
+import { createSession, setSessionCookie } from '../utils/session.js';
+import { base64UrlEncode, base64UrlDecode } from '../utils/crypto.js';
+import { generateToken } from '../utils/password.js';
+import {
+  COSE_ALGORITHMS,
+  verifyRegistrationResponse,
+  verifyAuthenticationResponse,
+  type RegistrationResponseJSON,
+  type AuthenticationResponseJSON,
+  type VerifiedAuthentication,
+  type WebAuthnExpectations
+} from '../utils/webauthn.js';
+import { resolveRedirect, errorRedirect } from './redirect.js';
+import { setEncryptedCookie, getEncryptedCookie, deleteAuthCookie } from './cookies.js';
+import { getSessionClient } from './sessions.js';
+import { requireTwoFactor } from './two-factor.js';
+
+/**
+ * Adapter methods required by passkey providers
+ */
+export type PasskeyAdapter = Required<
+  Pick<
+    Adapter,
+    | 'getUser'
+    | 'createAuthenticator'
+    | 'getAuthenticator'
+    | 'getAuthenticatorsByUserId'
+    | 'updateAuthenticatorCounter'
+    | 'createVerificationToken'
+    | 'useVerificationToken'
+  >
+>;
+
+/**
+ * Challenge stored (encrypted) in the 'passkey' cookie
+ *
+ * The challenge is also recorded as a verification token under `id`,
+ * which is consumed when the challenge is answered.
+ */
+interface PasskeyChallenge {
+  id: string;
+  challenge: string;
+  /**
+   * User registering a passkey; absent when signing in
+   */
+  userId?: string;
+  expires: number;
+}
+
+const passkeyAdapterMethods: (keyof PasskeyAdapter)[] = [
+  'getUser',
+  'createAuthenticator',
+  'getAuthenticator',
+  'getAuthenticatorsByUserId',
+  'updateAuthenticatorCounter',
+  'createVerificationToken',
+  'useVerificationToken'
+];
+
+/**
+ * Get the adapter used to store passkeys
+ *
+ * @throws if the configured adapter does not implement the required methods
+ */
+export function getPasskeyAdapter(config: ResolvedAuthConfig): PasskeyAdapter {
+  const adapter = config.adapter;
+  const missing = passkeyAdapterMethods.filter(
+    (method) => typeof adapter?.[method] !== 'function'
+  );
+
+  if (missing.length > 0) {
+    throw new Error(`Passkey providers require an adapter implementing: ${missing.join(', ')}`);
+  }
+
+  return adapter as PasskeyAdapter;
+}
+
+/**
+ * Find a configured passkey provider by ID
+ */
+export function getPasskeyProvider(
+  config: ResolvedAuthConfig,
+  providerId: string
+): PasskeyProviderConfig | undefined {
+  return config.providers.find(
+    (p): p is PasskeyProviderConfig => p.id === providerId && p.type === 'passkey'
+  );
+}
+
+/**
+ * Identifier of the verification token recording a challenge
+ */
+function getChallengeIdentifier(challenge: string): string {
+  return `passkey:${challenge}`;
+}
+
+/**
+ * Issue a new challenge and remember it in the 'passkey' cookie
+ */
+async function issueChallenge(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  provider: PasskeyProviderConfig,
+  userId?: string
+): Promise<string> {
+  const challenge = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+  const stored: PasskeyChallenge = {
+    id: generateToken(32),
+    challenge,
+    userId,
+    expires: Date.now() + provider.timeout
+  };
+
+  await getPasskeyAdapter(config).createVerificationToken({
+    identifier: getChallengeIdentifier(challenge),
+    token: stored.id,
+    expires: new Date(stored.expires)
+  });
+
+  await setEncryptedCookie(event, config, 'passkey', JSON.stringify(stored), {
+    maxAge: Math.ceil(provider.timeout / 1000),
+    sameSite: 'strict'
+  });
+
+  return challenge;
+}
+
+/**
+ * Read and clear the challenge from the 'passkey' cookie
+ *
+ * Challenges are single use, whether or not verification succeeds: the
+ * verification token is consumed, so a copy of the cookie is worthless.
+ */
+async function useChallenge(
+  event: RequestEvent,
+  config: ResolvedAuthConfig
+): Promise<PasskeyChallenge | null> {
+  const value = await getEncryptedCookie(event, config, 'passkey');
+  deleteAuthCookie(event, config, 'passkey');
+  if (!value) {
+    return null;
+  }
+
+  let challenge: PasskeyChallenge;
+  try {
+    challenge = JSON.parse(value) as PasskeyChallenge;
+  } catch {
+    return null;
+  }
+
+  const token = await getPasskeyAdapter(config).useVerificationToken({
+    identifier: getChallengeIdentifier(challenge.challenge),
+    token: challenge.id
+  });
+  if (!token || token.expires.getTime() < Date.now()) {
+    return null;
+  }
+
+  return challenge;
+}
+
+/**
+ * What responses to a challenge are checked against
+ */
+function getExpectations(
+  event: RequestEvent,
+  provider: PasskeyProviderConfig,
+  challenge: string
+): WebAuthnExpectations {
+  return {
+    challenge,
+    origin: provider.origin ?? event.url.origin,
+    rpId: provider.rpId ?? event.url.hostname,
+    requireUserVerification: provider.userVerification === 'required'
+  };
+}
+
+/**
+ * POST /auth/register/:provider/options - Options for `navigator.credentials.create()`
+ */
+export async function handlePasskeyRegistrationOptions(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  provider: PasskeyProviderConfig
+): Promise<Response> {
+  const session = event.locals.session as Session | null;
+  if (!session) {
+    return Response.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const adapter = getPasskeyAdapter(config);
+    const existing = await adapter.getAuthenticatorsByUserId(session.user.id);
+    const challenge = await issueChallenge(event, config, provider, session.user.id);
+
+    return Response.json({
+      challenge,
+      rp: {
+        id: provider.rpId ?? event.url.hostname,
+        name: provider.rpName ?? event.url.host
+      },
+      user: {
+        id: base64UrlEncode(new TextEncoder().encode(session.user.id)),
+        name: session.user.email ?? session.user.id,
+        displayName: session.user.name ?? session.user.email ?? session.user.id
+      },
+      pubKeyCredParams: Object.keys(COSE_ALGORITHMS).map((alg) => ({
+        type: 'public-key',
+        alg: Number(alg)
+      })),
+      timeout: provider.timeout,
+      attestation: 'none',
+      excludeCredentials: existing.map((authenticator) => ({
+        type: 'public-key',
+        id: authenticator.credentialId,
+        transports: authenticator.transports
+      })),
+      authenticatorSelection: {
+        residentKey: 'required',
+        userVerification: provider.userVerification
+      }
+    });
+  } catch (error) {
+    if (config.debug) {
+      console.error('Passkey registration options error:', error);
+    }
+    return Response.json({ error: 'Failed to create registration options' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /auth/register/:provider - Store a new passkey for the current user
+ */
+export async function handlePasskeyRegistration(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  provider: PasskeyProviderConfig
+): Promise<Response> {
+  const session = event.locals.session as Session | null;
+  if (!session) {
+    return Response.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  let body: { credential?: RegistrationResponseJSON } | null;
+  try {
+    body = await event.request.json();
+  } catch {
+    return Response.json({ error: 'Invalid request' }, { status: 400 });
+  }
+
+  let challenge: PasskeyChallenge | null;
+  try {
+    challenge = await useChallenge(event, config);
+  } catch (error) {
+    if (config.debug) {
+      console.error('Passkey registration error:', error);
+    }
+    return Response.json({ error: 'Failed to store passkey' }, { status: 500 });
+  }
+
+  if (!body?.credential || !challenge || challenge.userId !== session.user.id) {
+    return Response.json({ error: 'Invalid registration' }, { status: 400 });
+  }
+
+  let registration;
+  try {
+    registration = await verifyRegistrationResponse(
+      body.credential,
+      getExpectations(event, provider, challenge.challenge)
+    );
+  } catch (error) {
+    if (config.debug) {
+      console.error('Passkey registration failed:', error);
+    }
+    return Response.json({ error: 'Invalid registration' }, { status: 400 });
+  }
+
+  try {
+    const adapter = getPasskeyAdapter(config);
+    if (await adapter.getAuthenticator(registration.credentialId)) {
+      return Response.json({ error: 'Passkey is already registered' }, { status: 409 });
+    }
+
+    await adapter.createAuthenticator({ userId: session.user.id, ...registration });
+    return Response.json({ success: true, credentialId: registration.credentialId });
+  } catch (error) {
+    if (config.debug) {
+      console.error('Passkey registration error:', error);
+    }
+    return Response.json({ error: 'Failed to store passkey' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /auth/signin/:provider - Options for `navigator.credentials.get()`
+ *
+ * No credentials are listed, so the browser offers the passkeys it
+ * has for this site (discoverable credentials).
+ */
+export async function handlePasskeyAuthenticationOptions(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  provider: PasskeyProviderConfig
+): Promise<Response> {
+  try {
+    const challenge = await issueChallenge(event, config, provider);
+
+    return Response.json({
+      challenge,
+      rpId: provider.rpId ?? event.url.hostname,
+      timeout: provider.timeout,
+      userVerification: provider.userVerification,
+      allowCredentials: []
+    });
+  } catch (error) {
+    if (config.debug) {
+      console.error('Passkey authentication options error:', error);
+    }
+    return Response.json({ error: 'Failed to create authentication options' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /auth/callback/:provider - Verify a passkey and start a session
+ *
+ * A passkey that verified the user (PIN or biometric) already
+ * combines two factors. Assertions that only prove presence are held
+ * for the second factor like any other sign in.
+ */
+export async function handlePasskeyCallback(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  provider: PasskeyProviderConfig
+): Promise<Response> {
+  let body: { credential?: AuthenticationResponseJSON; callbackUrl?: string } | null;
+  try {
+    body = await event.request.json();
+  } catch {
+    return Response.json({ error: 'Invalid request' }, { status: 400 });
+  }
+
+  try {
+    const challenge = await useChallenge(event, config);
+    if (!body?.credential || !challenge || challenge.userId) {
+      return errorRedirect(event, config, 'PasskeyVerification');
+    }
+
+    const adapter = getPasskeyAdapter(config);
+    const authenticator = await adapter.getAuthenticator(body.credential.id);
+    if (!authenticator) {
+      return errorRedirect(event, config, 'PasskeyVerification');
+    }
+
+    // The user handle is the user ID the passkey was registered with
+    const userHandle = body.credential.response.userHandle;
+    if (userHandle && new TextDecoder().decode(base64UrlDecode(userHandle)) !== authenticator.userId) {
+      return errorRedirect(event, config, 'PasskeyVerification');
+    }
+
+    let verified: VerifiedAuthentication;
+    try {
+      verified = await verifyAuthenticationResponse(
+        body.credential,
+        authenticator,
+        getExpectations(event, provider, challenge.challenge)
+      );
+    } catch (error) {
+      if (config.debug) {
+        console.error('Passkey verification failed:', error);
+      }
+      return errorRedirect(event, config, 'PasskeyVerification');
+    }
+
+    await adapter.updateAuthenticatorCounter(authenticator.credentialId, verified.counter);
+
+    const adapterUser = await adapter.getUser(authenticator.userId);
+    if (!adapterUser) {
+      return errorRedirect(event, config, 'PasskeyVerification');
+    }
+
+    const user: User = {
+      id: adapterUser.id,
+      email: adapterUser.email,
+      name: adapterUser.name,
+      image: adapterUser.image
+    };
+    const account: Account = {
+      provider: provider.id,
+      providerAccountId: authenticator.credentialId,
+      type: 'passkey'
+    };
+
+    // Call signIn callback if provided
+    if (config.callbacks.signIn) {
+      const allowed = await config.callbacks.signIn({ user, account });
+      if (allowed === false) {
+        return errorRedirect(event, config, 'AccessDenied');
+      }
+      if (typeof allowed === 'string') {
+        return new Response(null, {
+          status: 302,
+          headers: { Location: allowed }
+        });
+      }
+    }
+
+    // Hold the session until the second factor is verified
+    if (!verified.userVerified) {
+      const twoFactorRedirect = await requireTwoFactor(event, config, {
+        user,
+        account,
+        trigger: 'signIn',
+        callbackUrl: body.callbackUrl
+      });
+      if (twoFactorRedirect) {
+        return twoFactorRedirect;
+      }
+    }
+
+    const maxAge = config.session.maxAge ?? 30 * 24 * 60 * 60;
+    const session = createSession(user, maxAge);
+    await setSessionCookie(event.cookies, session, config, {
+      account,
+      trigger: 'signIn',
+      client: getSessionClient(event)
+    });
+
+    const redirectTo = await resolveRedirect(event, config, body.callbackUrl);
+    return new Response(null, {
+      status: 302,
+      headers: { Location: redirectTo }
+    });
+  } catch (error) {
+    if (config.debug) {
+      console.error('Passkey callback error:', error);
+    }
+    return Response.json({ error: 'Authentication failed' }, { status: 500 });
+  }
+}
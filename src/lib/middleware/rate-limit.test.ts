@@ -0,0 +1,104 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import { describe, expect, it } from 'vitest';
+import type { RateLimitConfig } from '../types.js';
+import { consumeRateLimit, createMemoryRateLimitStore } from '../utils/rate-limit.js';
+import { resolveConfig } from './index.js';
+import { handleAuthRoutes } from './routes.js';
+
+function createConfig(rateLimit?: RateLimitConfig | boolean) {
+  return resolveConfig({
+    secret: 'test-secret-that-is-at-least-32-characters',
+    providers: [],
+    rateLimit
+  });
+}
+
+function createEvent(path: string, ip = '203.0.113.7', method = 'GET'): RequestEvent {
+  const url = `http://localhost${path}`;
+  const cookies = new Map<string, string>();
+
+  return {
+    url: new URL(url),
+    request: new Request(url, { method }),
+    locals: {},
+    getClientAddress: () => ip,
+    cookies: {
+      get: (name: string) => cookies.get(name),
+      set: (name: string, value: string) => void cookies.set(name, value),
+      delete: (name: string) => void cookies.delete(name)
+    }
+  } as unknown as RequestEvent;
+}
+
+describe('consumeRateLimit', () => {
+  it('refuses requests over the limit until the window has passed', async () => {
+    const store = createMemoryRateLimitStore();
+    const rule = { limit: 2, window: 60 };
+
+    expect(await consumeRateLimit(store, 'key', rule)).toEqual({ allowed: true, retryAfter: 0 });
+    expect(await consumeRateLimit(store, 'key', rule)).toEqual({ allowed: true, retryAfter: 0 });
+
+    const refused = await consumeRateLimit(store, 'key', rule);
+    expect(refused.allowed).toBe(false);
+    expect(refused.retryAfter).toBeGreaterThan(0);
+    expect(refused.retryAfter).toBeLessThanOrEqual(60);
+
+    // Refused requests are not counted
+    expect((await store.get('key'))?.hits).toHaveLength(2);
+    expect((await consumeRateLimit(store, 'other', rule)).allowed).toBe(true);
+  });
+
+  it('counts requests made in parallel', async () => {
+    const store = createMemoryRateLimitStore();
+
+    const results = await Promise.all(
+      Array.from({ length: 5 }, () => consumeRateLimit(store, 'key', { limit: 3, window: 60 }))
+    );
+
+    expect(results.map((result) => result.allowed)).toEqual([true, true, true, false, false]);
+  });
+});
+
+describe('rateLimitRoute', () => {
+  it('is off by default', () => {
+    expect(createConfig().rateLimit).toBeUndefined();
+    expect(createConfig(false).rateLimit).toBeUndefined();
+    expect(createConfig(true).rateLimit).toBeDefined();
+  });
+
+  it('counts requests to a route per client IP', async () => {
+    const store = createMemoryRateLimitStore();
+    const config = createConfig({ store, routes: { 'GET /providers': { limit: 2, window: 60 } } });
+
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await handleAuthRoutes(createEvent('/auth/providers'), config))?.status);
+    }
+    const otherIp = await handleAuthRoutes(createEvent('/auth/providers', '198.51.100.1'), config);
+
+    expect(statuses).toEqual([200, 200, 429]);
+    expect(otherIp?.status).toBe(200);
+    expect((await store.get('ip:GET /providers:203.0.113.7'))?.hits).toHaveLength(2);
+    expect((await store.get('ip:GET /providers:198.51.100.1'))?.hits).toHaveLength(1);
+  });
+
+  it('counts routes without their own rule under the default', async () => {
+    const store = createMemoryRateLimitStore();
+    const config = createConfig({ store, default: { limit: 1, window: 60 } });
+
+    expect((await handleAuthRoutes(createEvent('/auth/providers'), config))?.status).toBe(200);
+    expect((await handleAuthRoutes(createEvent('/auth/csrf'), config))?.status).toBe(429);
+    expect((await store.get('ip:*:203.0.113.7'))?.hits).toHaveLength(1);
+  });
+
+  it('leaves paths that are not auth routes alone', async () => {
+    const store = createMemoryRateLimitStore();
+    const config = createConfig({ store, default: { limit: 1, window: 60 } });
+
+    for (const path of ['/authors', '/auth/unknown', '/auth/unknown', '/authentication/csrf']) {
+      expect(await handleAuthRoutes(createEvent(path), config)).toBeNull();
+    }
+    expect(await store.get('ip:*:203.0.113.7')).toBeNull();
+    expect((await handleAuthRoutes(createEvent('/auth/providers'), config))?.status).toBe(200);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Rate limiting for the auth routes
+ */
+
+import type { RequestEvent } from '@sveltejs/kit';
+import type { RateLimitConfig, RateLimitRule, ResolvedAuthConfig } from '../types.js';
+import { consumeRateLimit } from '../utils/rate-limit.js';
+
+/**
+ * Per-IP rules applied unless overridden in `rateLimit.routes`
+ *
+ * Tighter than the default for routes that send email, check a secret
+ * or create accounts.
+ */
+export const defaultRouteRateLimits: Record<string, RateLimitRule> = {
+  'POST /signin': { limit: 10, window: 60 },
+  'POST /signup': { limit: 10, window: 60 * 60 },
+  'POST /callback': { limit: 10, window: 60 },
+  'POST /two-factor': { limit: 10, window: 60 }
+};
+
+/**
+ * Get the client address, or null if the server adapter cannot report it
+ */
+export function getClientAddress(event: RequestEvent): string | null {
+  try {
+    return event.getClientAddress();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 429 response telling the client when to retry
+ */
+function tooManyRequests(retryAfter: number): Response {
+  return Response.json(
+    { error: 'Too many requests' },
+    { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+  );
+}
+
+/**
+ * Find the most specific rule for a request to a route below `basePath`
+ *
+ * @returns The rule and the name its requests are counted under
+ */
+function getRouteRule(
+  rateLimit: Required<RateLimitConfig>,
+  method: string,
+  route: string
+): { name: string; rule: RateLimitRule | false } {
+  let match: { name: string; rule: RateLimitRule | false } | null = null;
+
+  for (const [name, rule] of Object.entries(rateLimit.routes)) {
+    const [ruleMethod, rulePath] = name.split(' ');
+    const covers = ruleMethod === method && (route === rulePath || route.startsWith(`${rulePath}/`));
+
+    if (covers && (!match || name.length > match.name.length)) {
+      match = { name, rule };
+    }
+  }
+
+  return match ?? { name: '*', rule: rateLimit.default };
+}
+
+/**
+ * Count a request to an auth route against its client IP
+ *
+ * @returns A 429 response if the limit was reached, otherwise null
+ */
+export async function rateLimitRoute(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  route: string
+): Promise<Response | null> {
+  const rateLimit = config.rateLimit;
+  if (!rateLimit) {
+    return null;
+  }
+
+  const match = getRouteRule(rateLimit, event.request.method, route);
+  const ip = getClientAddress(event);
+
+  if (!match.rule || !ip) {
+    return null;
+  }
+
+  const result = await consumeRateLimit(
+    rateLimit.store,
+    `ip:${match.name}:${ip}`,
+    match.rule
+  );
+
+  return result.allowed ? null : tooManyRequests(result.retryAfter);
+}
+
+/**
+ * Count a request that sends email against the address it is sent to
+ *
+ * @returns A 429 response if the limit was reached, otherwise null
+ */
+export async function rateLimitIdentifier(
+  config: ResolvedAuthConfig,
+  name: string,
+  identifier: string
+): Promise<Response | null> {
+  const rateLimit = config.rateLimit;
+  if (!rateLimit?.perIdentifier) {
+    return null;
+  }
+
+  const result = await consumeRateLimit(
+    rateLimit.store,
+    `identifier:${name}:${identifier.trim().toLowerCase()}`,
+    rateLimit.perIdentifier
+  );
+
+  return result.allowed ? null : tooManyRequests(result.retryAfter);
+}
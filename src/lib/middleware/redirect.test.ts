@@ -0,0 +1,153 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import { describe, expect, it } from 'vitest';
+import { OAuth } from '../providers/oauth.js';
+import type { AuthConfig } from '../types.js';
+import { createAuth, resolveConfig } from './index.js';
+import { resolveRedirect } from './redirect.js';
+
+const secret = 'test-secret-that-is-at-least-32-characters';
+
+function createEvent(cookies = new Map<string, string>()): RequestEvent {
+  const url = 'https://example.com/';
+
+  return {
+    url: new URL(url),
+    request: new Request(url),
+    locals: {},
+    getClientAddress: () => '127.0.0.1',
+    cookies: {
+      get: (name: string) => cookies.get(name),
+      set: (name: string, value: string) => void cookies.set(name, value),
+      delete: (name: string) => void cookies.delete(name)
+    }
+  } as unknown as RequestEvent;
+}
+
+function resolve(url: string | null | undefined, options: Partial<AuthConfig> = {}) {
+  const config = resolveConfig({ secret, providers: [], ...options });
+  return resolveRedirect(createEvent(), config, url);
+}
+
+/**
+ * Run a request through the auth handle and sign out from the page
+ */
+async function signOutFromPage(redirectTo: string, options: Partial<AuthConfig> = {}) {
+  const handle = createAuth({ secret, providers: [], ...options });
+
+  const response = await handle({
+    event: createEvent(),
+    resolve: async (event) => (await event.locals.auth.signOut({ redirectTo }))!
+  });
+
+  return response.headers.get('location');
+}
+
+/**
+ * Run a request through the auth handle and start an OAuth sign in from the page
+ *
+ * @returns Where the user is sent after signing in
+ */
+async function signInFromPage(redirectTo: string) {
+  const provider = OAuth({
+    id: 'custom',
+    name: 'Custom',
+    clientId: 'client',
+    authorization: 'https://custom.example/authorize',
+    token: 'https://custom.example/token'
+  });
+  const handle = createAuth({ secret, providers: [provider] });
+  const cookies = new Map<string, string>();
+
+  await handle({
+    event: createEvent(cookies),
+    resolve: async (event) => (await event.locals.auth.signIn('custom', { redirectTo }))!
+  });
+
+  return [...cookies].find(([name]) => name.endsWith('.callback-url'))?.[1];
+}
+
+describe('resolveRedirect', () => {
+  it('keeps paths on this site', async () => {
+    expect(await resolve('/dashboard?tab=1#top')).toBe('/dashboard?tab=1#top');
+    expect(await resolve('https://example.com/settings')).toBe('/settings');
+  });
+
+  it('falls back to the home page', async () => {
+    expect(await resolve(undefined)).toBe('/');
+    expect(await resolve('')).toBe('/');
+  });
+
+  it('refuses other sites and schemes', async () => {
+    for (const url of [
+      'https://evil.example/',
+      '//evil.example/path',
+      '/\\evil.example',
+      'https://example.com.evil.example/',
+      'javascript:alert(1)',
+      'data:text/html,hi'
+    ]) {
+      expect(await resolve(url)).toBe('/');
+    }
+  });
+
+  it('allows configured origins only', async () => {
+    const options = { allowedRedirectOrigins: ['https://app.example.com'] };
+
+    expect(await resolve('https://app.example.com/home', options)).toBe(
+      'https://app.example.com/home'
+    );
+    expect(await resolve('http://app.example.com/home', options)).toBe('/');
+    expect(await resolve('https://app.example.com:8443/home', options)).toBe('/');
+  });
+
+  it('checks the target returned by the redirect callback', async () => {
+    const options: Partial<AuthConfig> = {
+      callbacks: { redirect: ({ url }) => (url === '/out' ? 'https://evil.example/' : '/in') }
+    };
+
+    expect(await resolve('/out', options)).toBe('/');
+    expect(await resolve('/anything', options)).toBe('/in');
+  });
+
+  it('falls back to the home page when the redirect callback throws', async () => {
+    const options: Partial<AuthConfig> = {
+      callbacks: {
+        redirect: () => {
+          throw new Error('failed');
+        }
+      }
+    };
+
+    expect(await resolve('/dashboard', options)).toBe('/');
+  });
+});
+
+describe('locals.auth.signIn', () => {
+  it('returns to a path on this site', async () => {
+    expect(await signInFromPage('/dashboard')).toBe('/dashboard');
+  });
+
+  it('does not return to another site', async () => {
+    expect(await signInFromPage('https://evil.example/phish')).toBe('/');
+  });
+});
+
+describe('locals.auth.signOut', () => {
+  it('redirects to a path on this site', async () => {
+    expect(await signOutFromPage('/goodbye?from=menu')).toBe('/goodbye?from=menu');
+  });
+
+  it('does not redirect to another site', async () => {
+    expect(await signOutFromPage('https://evil.example/phish')).toBe('/');
+    expect(await signOutFromPage('//evil.example')).toBe('/');
+    expect(await signOutFromPage('javascript:alert(1)')).toBe('/');
+  });
+
+  it('redirects to allowed origins', async () => {
+    const options = { allowedRedirectOrigins: ['https://app.example.com'] };
+
+    expect(await signOutFromPage('https://app.example.com/home', options)).toBe(
+      'https://app.example.com/home'
+    );
+  });
+});
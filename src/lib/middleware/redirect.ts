@@ -0,0 +1,78 @@
+/**
+ * Post-authentication redirect resolution
+ */
+
+import type { RequestEvent } from '@sveltejs/kit';
+import type { AuthErrorCode, ResolvedAuthConfig } from '../types.js';
+
+/**
+ * Resolve a caller-supplied redirect target
+ *
+ * Runs the `redirect` callback, then only allows targets on the
+ * current origin or one of `allowedRedirectOrigins`. Anything else
+ * falls back to '/'.
+ */
+export async function resolveRedirect(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  url: string | null | undefined
+): Promise<string> {
+  const baseUrl = event.url.origin;
+  let target = url || '/';
+
+  if (config.callbacks.redirect) {
+    try {
+      target = await config.callbacks.redirect({ url: target, baseUrl });
+    } catch (error) {
+      if (config.debug) {
+        console.error('Redirect callback error:', error);
+      }
+      return '/';
+    }
+  }
+
+  let resolved: URL;
+  try {
+    resolved = new URL(target, baseUrl);
+  } catch {
+    return '/';
+  }
+
+  if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') {
+    return '/';
+  }
+
+  if (resolved.origin === baseUrl) {
+    return `${resolved.pathname}${resolved.search}${resolved.hash}`;
+  }
+
+  const allowed = config.allowedRedirectOrigins.some((origin) => {
+    try {
+      return new URL(origin).origin === resolved.origin;
+    } catch {
+      return false;
+    }
+  });
+
+  return allowed ? resolved.toString() : '/';
+}
+
+/**
+ * Redirect to the error page (or the sign in page) with an error code
+ *
+ * Provider errors from an OAuth callback are passed through as-is.
+ */
+export function errorRedirect(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  error: AuthErrorCode | string
+): Response {
+  const errorUrl = config.pages.error
+    ? new URL(config.pages.error, event.url.origin)
+    : new URL(`${config.basePath}/signin`, event.url.origin);
+  errorUrl.searchParams.set('error', error);
+  return new Response(null, {
+    status: 302,
+    headers: { Location: errorUrl.toString() }
+  });
+}
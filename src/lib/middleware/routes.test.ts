@@ -0,0 +1,147 @@
+import type { Cookies, RequestEvent } from '@sveltejs/kit';
+import { describe, expect, it } from 'vitest';
+import { Discord } from '../providers/discord.js';
+import { OAuth } from '../providers/oauth.js';
+import type { Account, AuthConfig, ResolvedAuthConfig } from '../types.js';
+import { createSession, getSessionFromCookies, setSessionCookie } from '../utils/session.js';
+import { getCsrfToken } from './csrf.js';
+import { resolveConfig } from './index.js';
+import { canLinkByEmail, handleAuthRoutes } from './routes.js';
+
+function createConfig(options: Partial<AuthConfig> = {}) {
+  return resolveConfig({
+    secret: 'test-secret-that-is-at-least-32-characters',
+    providers: [
+      OAuth({
+        id: 'custom',
+        name: 'Custom',
+        clientId: 'client',
+        authorization: 'https://custom.example/authorize',
+        token: 'https://custom.example/token',
+        userinfo: 'https://custom.example/user'
+      }),
+      Discord({ clientId: 'client', clientSecret: 'secret' })
+    ],
+    ...options
+  });
+}
+
+function oauthAccount(provider: string): Account {
+  return { provider, providerAccountId: '1', type: 'oauth' };
+}
+
+describe('canLinkByEmail', () => {
+  it('links OAuth accounts whose provider verified the email', () => {
+    const config = createConfig();
+
+    expect(canLinkByEmail(config, oauthAccount('custom'), { email_verified: true })).toBe(true);
+    expect(canLinkByEmail(config, oauthAccount('discord'), { verified: true })).toBe(true);
+  });
+
+  it('refuses OAuth accounts with an unverified or unknown email', () => {
+    const config = createConfig();
+
+    expect(canLinkByEmail(config, oauthAccount('custom'), { email_verified: false })).toBe(false);
+    expect(canLinkByEmail(config, oauthAccount('custom'), { email_verified: 'true' })).toBe(false);
+    expect(canLinkByEmail(config, oauthAccount('custom'))).toBe(false);
+    // Discord reports verification in its own field
+    expect(canLinkByEmail(config, oauthAccount('discord'), { email_verified: true })).toBe(false);
+    expect(canLinkByEmail(config, oauthAccount('removed'), { email_verified: true })).toBe(false);
+  });
+
+  it('links any account when autoLinkAccount is set', () => {
+    const config = createConfig({ autoLinkAccount: true });
+
+    expect(canLinkByEmail(config, oauthAccount('custom'), { email_verified: false })).toBe(true);
+  });
+
+  it('links accounts that prove the email themselves', () => {
+    const config = createConfig();
+
+    for (const type of ['email', 'credentials', 'passkey'] as const) {
+      expect(canLinkByEmail(config, { provider: type, providerAccountId: '1', type })).toBe(true);
+    }
+  });
+});
+
+describe('POST /auth/session', () => {
+  const config = createConfig({
+    callbacks: {
+      jwt: ({ token, trigger, session }) =>
+        trigger === 'update' && typeof session?.theme === 'string'
+          ? { ...token, theme: session.theme }
+          : token,
+      session: ({ session, token }) => ({ ...session, theme: token.theme })
+    }
+  });
+
+  function createCookies(values = new Map<string, string>()): Cookies {
+    return {
+      get: (name: string) => values.get(name),
+      set: (name: string, value: string) => void values.set(name, value),
+      delete: (name: string) => void values.delete(name)
+    } as unknown as Cookies;
+  }
+
+  async function signIn(resolved: ResolvedAuthConfig = config): Promise<Cookies> {
+    const cookies = createCookies();
+    await setSessionCookie(cookies, createSession({ id: 'user', name: 'User' }, 60), resolved);
+    return cookies;
+  }
+
+  /**
+   * Send a session update with the CSRF token from a signed-in browser
+   */
+  async function update(
+    cookies: Cookies,
+    body: string,
+    resolved: ResolvedAuthConfig = config
+  ): Promise<Response> {
+    const url = 'http://localhost/auth/session';
+    const event = {
+      url: new URL(url),
+      locals: { session: await getSessionFromCookies(cookies, resolved) },
+      getClientAddress: () => '127.0.0.1',
+      cookies
+    } as unknown as RequestEvent;
+    const csrfToken = await getCsrfToken(event, resolved);
+    event.request = new Request(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-CSRF-Token': csrfToken },
+      body
+    });
+
+    return (await handleAuthRoutes(event, resolved))!;
+  }
+
+  it('runs the jwt callback with the patch and re-issues the cookie', async () => {
+    const cookies = await signIn();
+
+    const response = await update(cookies, JSON.stringify({ theme: 'dark' }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ user: { id: 'user' }, theme: 'dark' });
+    expect(await getSessionFromCookies(cookies, config)).toMatchObject({ theme: 'dark' });
+  });
+
+  it('changes only what the jwt callback copies from the patch', async () => {
+    const resolved = createConfig();
+    const cookies = await signIn(resolved);
+
+    const response = await update(cookies, JSON.stringify({ user: { id: 'admin' } }), resolved);
+
+    expect(await response.json()).toMatchObject({ user: { id: 'user' } });
+  });
+
+  it('rejects bodies that are not a JSON object', async () => {
+    const cookies = await signIn();
+
+    for (const body of ['not json', '[]', 'null']) {
+      expect((await update(cookies, body)).status).toBe(400);
+    }
+  });
+
+  it('requires a session', async () => {
+    expect((await update(createCookies(), '{}')).status).toBe(401);
+  });
+});
@@ -13,23 +13,170 @@ import type {
   CredentialsProviderConfig,
   TokenSet,
   Adapter,
-  AdapterUser
+  AdapterUser,
+  AdapterAccount
 } from '../types.js';
 import {
   createSession,
   setSessionCookie,
-  deleteSessionCookie
+  destroySession,
+  updateSessionToken
 } from '../utils/session.js';
+import { verifyIdToken } from '../utils/oidc.js';
+import { getSigningKeys } from '../utils/keys.js';
+import { getCsrfToken, verifyCsrfToken } from './csrf.js';
+import { resolveRedirect, errorRedirect } from './redirect.js';
+import {
+  getEmailProvider,
+  handleEmailSignIn,
+  handleEmailCallback,
+  handleEmailOtpCallback
+} from './email.js';
+import { handleSignUp } from './signup.js';
+import { authorizeWithAdapter } from './credentials.js';
+import { beginSignInAttempt, clearFailedSignIns } from './lockout.js';
+import { rateLimitRoute } from './rate-limit.js';
+import { handleListAccounts, handleUnlinkAccount } from './accounts.js';
+import { getSessionClient, handleListSessions, handleRevokeSession } from './sessions.js';
+import {
+  getPasskeyProvider,
+  handlePasskeyRegistrationOptions,
+  handlePasskeyRegistration,
+  handlePasskeyAuthenticationOptions,
+  handlePasskeyCallback
+} from './passkey.js';
+import {
+  requireTwoFactor,
+  handleTwoFactorVerify,
+  handleTwoFactorSetup,
+  handleTwoFactorEnable,
+  handleTwoFactorDisable,
+  handleTwoFactorRecoveryCodes
+} from './two-factor.js';
+import {
+  createAuthorizationUrl,
+  resolveEndpoints,
+  usesPkce,
+  usesNonce,
+  useCodeVerifier,
+  useNonce,
+  useLinkUserId
+} from './oauth.js';
 
 /**
- * Get or create a user in the database via adapter
+ * Store the tokens from a new sign in on an existing account
  */
-async function getOrCreateUser(
+async function updateAccountTokens(
+  adapter: Adapter | Partial<Adapter>,
+  account: Account
+): Promise<void> {
+  if (!adapter.getAccount || !adapter.updateAccount || !account.providerAccountId) {
+    return;
+  }
+
+  const existing = await adapter.getAccount({
+    provider: account.provider,
+    providerAccountId: account.providerAccountId
+  });
+
+  if (existing && account.accessToken) {
+    await adapter.updateAccount(existing.id, {
+      accessToken: account.accessToken,
+      refreshToken: account.refreshToken ?? existing.refreshToken,
+      expiresAt: account.expiresAt ?? null
+    });
+  }
+}
+
+/**
+ * Adapter methods required to link accounts to the signed-in user
+ */
+type LinkAdapter = Required<Pick<Adapter, 'getUserByAccount' | 'linkAccount'>>;
+
+const linkAdapterMethods: (keyof LinkAdapter)[] = ['getUserByAccount', 'linkAccount'];
+
+/**
+ * Get the adapter used to link accounts
+ *
+ * @throws if the configured adapter does not implement the required methods
+ */
+function getLinkAdapter(config: ResolvedAuthConfig): LinkAdapter {
+  const adapter = config.adapter;
+  const missing = linkAdapterMethods.filter((method) => typeof adapter?.[method] !== 'function');
+
+  if (missing.length > 0) {
+    throw new Error(`Account linking requires an adapter implementing: ${missing.join(', ')}`);
+  }
+
+  return adapter as LinkAdapter;
+}
+
+/**
+ * Link a provider account to a user
+ */
+async function linkUserAccount(
   adapter: Adapter | Partial<Adapter>,
+  userId: string,
   user: User,
+  account: Account & { type: AdapterAccount['type'] }
+): Promise<void> {
+  await adapter.linkAccount?.({
+    userId,
+    provider: account.provider,
+    providerAccountId: account.providerAccountId,
+    login: user.email ?? account.providerAccountId ?? user.id,
+    type: account.type,
+    accessToken: account.accessToken,
+    refreshToken: account.refreshToken,
+    expiresAt: account.expiresAt,
+    tokenType: account.tokenType,
+    scope: account.scope,
+    idToken: account.idToken
+  });
+}
+
+/**
+ * Check whether a new account may be linked to an existing user with the same email
+ *
+ * OAuth accounts are only linked when `autoLinkAccount` is set or the
+ * provider vouches for the email; otherwise anyone who registers the
+ * email with that provider could take over the user.
+ */
+export function canLinkByEmail(
+  config: ResolvedAuthConfig,
   account: Account,
   profile?: Profile
-): Promise<AdapterUser> {
+): boolean {
+  if (account.type !== 'oauth' || config.autoLinkAccount) {
+    return true;
+  }
+
+  const provider = config.providers.find(
+    (p): p is OAuthProviderConfig => p.id === account.provider && p.type === 'oauth'
+  );
+  if (!provider || !profile) {
+    return false;
+  }
+
+  return provider.emailVerified
+    ? provider.emailVerified(profile)
+    : profile.email_verified === true;
+}
+
+/**
+ * Get or create a user in the database via adapter
+ *
+ * @returns The user, or null if a user with the same email exists and
+ *   the account may not be linked to them
+ */
+async function getOrCreateUser(
+  config: ResolvedAuthConfig,
+  user: User,
+  account: Account & { type: AdapterAccount['type'] },
+  profile?: Profile
+): Promise<AdapterUser | null> {
+  const adapter = config.adapter ?? {};
+
   // Try to find existing user by account
   if (adapter.getUserByAccount && account.providerAccountId) {
     const existingUser = await adapter.getUserByAccount({
@@ -38,6 +185,7 @@ async function getOrCreateUser(
     });
 
     if (existingUser) {
+      await updateAccountTokens(adapter, account);
       return existingUser;
     }
   }
@@ -47,24 +195,11 @@ async function getOrCreateUser(
     const existingUser = await adapter.getUserByEmail(user.email);
 
     if (existingUser) {
-      // Link account to existing user
-      if (adapter.linkAccount) {
-        const login = user.email ?? account.providerAccountId ?? user.id;
-        await adapter.linkAccount({
-          userId: existingUser.id,
-          provider: account.provider,
-          providerAccountId: account.providerAccountId,
-          login,
-          type: account.type,
-          accessToken: account.accessToken,
-          refreshToken: account.refreshToken,
-          expiresAt: account.expiresAt,
-          tokenType: account.tokenType,
-          scope: account.scope,
-          idToken: account.idToken
-        });
+      if (!canLinkByEmail(config, account, profile)) {
+        return null;
       }
 
+      await linkUserAccount(adapter, existingUser.id, user, account);
       return existingUser;
     }
   }
@@ -78,24 +213,7 @@ async function getOrCreateUser(
       image: user.image
     });
 
-    // Link account to new user
-    if (adapter.linkAccount) {
-      const newLogin = user.email ?? account.providerAccountId ?? user.id;
-      await adapter.linkAccount({
-        userId: newUser.id,
-        provider: account.provider,
-        providerAccountId: account.providerAccountId,
-        login: newLogin,
-        type: account.type,
-        accessToken: account.accessToken,
-        refreshToken: account.refreshToken,
-        expiresAt: account.expiresAt,
-        tokenType: account.tokenType,
-        scope: account.scope,
-        idToken: account.idToken
-      });
-    }
-
+    await linkUserAccount(adapter, newUser.id, user, account);
     return newUser;
   }
 
@@ -110,6 +228,25 @@ async function getOrCreateUser(
   } as AdapterUser;
 }
 
+/**
+ * Reject a state-changing request without a valid CSRF token
+ */
+async function checkCsrf(
+  event: RequestEvent,
+  config: ResolvedAuthConfig
+): Promise<Response | null> {
+  if (await verifyCsrfToken(event, config)) {
+    return null;
+  }
+
+  return errorRedirect(event, config, 'MissingCSRF');
+}
+
+/**
+ * Handler for a request to an auth route
+ */
+type RouteHandler = () => Promise<Response>;
+
 /**
  * Handle authentication routes
  */
@@ -120,55 +257,198 @@ export async function handleAuthRoutes(
   const { pathname } = event.url;
   const basePath = config.basePath;
 
+  // Only paths below the base path, e.g. not /authors for /auth
+  if (pathname !== basePath && !pathname.startsWith(`${basePath}/`)) {
+    return null;
+  }
+
   // Remove base path prefix
   const route = pathname.slice(basePath.length);
 
+  const handler = matchAuthRoute(event, config, route);
+  if (!handler) {
+    return null;
+  }
+
+  // Only requests this library answers are counted
+  return (await rateLimitRoute(event, config, route)) ?? handler();
+}
+
+/**
+ * Find the handler for a route below the base path
+ *
+ * @returns null if the route is not an auth route
+ */
+function matchAuthRoute(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  route: string
+): RouteHandler | null {
   // GET /auth/session - Get current session
   if (route === '/session' && event.request.method === 'GET') {
-    return handleGetSession(event, config);
+    return () => handleGetSession(event, config);
+  }
+
+  // POST /auth/session - Update the session
+  if (route === '/session' && event.request.method === 'POST') {
+    return async () => (await checkCsrf(event, config)) ?? handleUpdateSession(event, config);
   }
 
   // GET /auth/signin - Sign in page
   if (route === '/signin' && event.request.method === 'GET') {
-    return handleSignInPage(event, config);
+    return () => handleSignInPage(event, config);
   }
 
   // POST /auth/signin/:provider - Sign in with provider
   if (route.startsWith('/signin/') && event.request.method === 'POST') {
     const provider = route.slice('/signin/'.length);
-    return handleSignIn(event, config, provider);
+    const emailProvider = getEmailProvider(config, provider);
+    const passkeyProvider = getPasskeyProvider(config, provider);
+    return async () =>
+      (await checkCsrf(event, config)) ??
+      (emailProvider
+        ? handleEmailSignIn(event, config, emailProvider)
+        : passkeyProvider
+          ? handlePasskeyAuthenticationOptions(event, config, passkeyProvider)
+          : handleSignIn(event, config, provider));
+  }
+
+  // POST /auth/signup/:provider - Create an account with credentials
+  if (route.startsWith('/signup/') && event.request.method === 'POST') {
+    const provider = route.slice('/signup/'.length);
+    return async () => (await checkCsrf(event, config)) ?? handleSignUp(event, config, provider);
   }
 
   // GET /auth/signin/:provider - OAuth redirect
   if (route.startsWith('/signin/') && event.request.method === 'GET') {
     const provider = route.slice('/signin/'.length);
-    return handleOAuthRedirect(event, config, provider);
+    return () => handleOAuthRedirect(event, config, provider);
+  }
+
+  // GET /auth/link/:provider - Link an OAuth account to the signed-in user
+  if (route.startsWith('/link/') && event.request.method === 'GET') {
+    return () => handleLinkRedirect(event, config, route.slice('/link/'.length));
   }
 
-  // GET /auth/callback/:provider - OAuth callback
+  // GET /auth/callback/:provider - OAuth callback or email sign in link
   if (route.startsWith('/callback/') && event.request.method === 'GET') {
     const provider = route.slice('/callback/'.length);
-    return handleOAuthCallback(event, config, provider);
+    const emailProvider = getEmailProvider(config, provider);
+    return () =>
+      emailProvider
+        ? handleEmailCallback(event, config, emailProvider)
+        : handleOAuthCallback(event, config, provider);
+  }
+
+  // POST /auth/callback/:provider-otp - Email passcode
+  if (route.startsWith('/callback/') && route.endsWith('-otp') && event.request.method === 'POST') {
+    const emailProvider = getEmailProvider(config, route.slice('/callback/'.length, -'-otp'.length));
+    if (emailProvider) {
+      return async () =>
+        (await checkCsrf(event, config)) ?? handleEmailOtpCallback(event, config, emailProvider);
+    }
+  }
+
+  // POST /auth/callback/:provider - Passkey sign in
+  if (route.startsWith('/callback/') && event.request.method === 'POST') {
+    const passkeyProvider = getPasskeyProvider(config, route.slice('/callback/'.length));
+    if (passkeyProvider) {
+      return async () =>
+        (await checkCsrf(event, config)) ?? handlePasskeyCallback(event, config, passkeyProvider);
+    }
+  }
+
+  // POST /auth/register/:provider/options - Passkey registration options
+  if (route.startsWith('/register/') && route.endsWith('/options') && event.request.method === 'POST') {
+    const passkeyProvider = getPasskeyProvider(config, route.slice('/register/'.length, -'/options'.length));
+    if (passkeyProvider) {
+      return async () =>
+        (await checkCsrf(event, config)) ??
+        handlePasskeyRegistrationOptions(event, config, passkeyProvider);
+    }
+  }
+
+  // POST /auth/register/:provider - Register a passkey
+  if (route.startsWith('/register/') && event.request.method === 'POST') {
+    const passkeyProvider = getPasskeyProvider(config, route.slice('/register/'.length));
+    if (passkeyProvider) {
+      return async () =>
+        (await checkCsrf(event, config)) ?? handlePasskeyRegistration(event, config, passkeyProvider);
+    }
+  }
+
+  // POST /auth/two-factor/verify - Complete a sign in with a second factor
+  if (route === '/two-factor/verify' && event.request.method === 'POST') {
+    return async () => (await checkCsrf(event, config)) ?? handleTwoFactorVerify(event, config);
+  }
+
+  // POST /auth/two-factor/setup - Start enrolling an authenticator app
+  if (route === '/two-factor/setup' && event.request.method === 'POST') {
+    return async () => (await checkCsrf(event, config)) ?? handleTwoFactorSetup(event, config);
+  }
+
+  // POST /auth/two-factor/enable - Confirm enrollment
+  if (route === '/two-factor/enable' && event.request.method === 'POST') {
+    return async () => (await checkCsrf(event, config)) ?? handleTwoFactorEnable(event, config);
+  }
+
+  // POST /auth/two-factor/disable - Remove the second factor
+  if (route === '/two-factor/disable' && event.request.method === 'POST') {
+    return async () => (await checkCsrf(event, config)) ?? handleTwoFactorDisable(event, config);
+  }
+
+  // POST /auth/two-factor/recovery-codes - Replace the recovery codes
+  if (route === '/two-factor/recovery-codes' && event.request.method === 'POST') {
+    return async () =>
+      (await checkCsrf(event, config)) ?? handleTwoFactorRecoveryCodes(event, config);
+  }
+
+  // GET /auth/accounts - List linked accounts
+  if (route === '/accounts' && event.request.method === 'GET') {
+    return () => handleListAccounts(event, config);
+  }
+
+  // POST /auth/accounts/:provider/unlink - Unlink a provider
+  if (route.startsWith('/accounts/') && route.endsWith('/unlink') && event.request.method === 'POST') {
+    const provider = route.slice('/accounts/'.length, -'/unlink'.length);
+    return async () =>
+      (await checkCsrf(event, config)) ?? handleUnlinkAccount(event, config, provider);
+  }
+
+  // GET /auth/sessions - List the user's sessions
+  if (route === '/sessions' && event.request.method === 'GET') {
+    return () => handleListSessions(event, config);
+  }
+
+  // DELETE /auth/sessions/:id - Sign out one of the user's sessions
+  if (route.startsWith('/sessions/') && event.request.method === 'DELETE') {
+    const id = route.slice('/sessions/'.length);
+    return async () => (await checkCsrf(event, config)) ?? handleRevokeSession(event, config, id);
   }
 
   // POST /auth/signout - Sign out
   if (route === '/signout' && event.request.method === 'POST') {
-    return handleSignOut(event, config);
+    return async () => (await checkCsrf(event, config)) ?? handleSignOut(event, config);
   }
 
   // GET /auth/signout - Sign out page/redirect
   if (route === '/signout' && event.request.method === 'GET') {
-    return handleSignOut(event, config);
+    return () => handleSignOutPage(event, config);
   }
 
   // GET /auth/providers - List providers
   if (route === '/providers' && event.request.method === 'GET') {
-    return handleGetProviders(event, config);
+    return () => handleGetProviders(event, config);
   }
 
   // GET /auth/csrf - Get CSRF token
   if (route === '/csrf' && event.request.method === 'GET') {
-    return handleGetCsrf(event, config);
+    return () => handleGetCsrf(event, config);
+  }
+
+  // GET /auth/jwks - Public keys for verifying session JWTs
+  if (route === '/jwks' && event.request.method === 'GET') {
+    return () => handleGetJwks(event, config);
   }
 
   return null;
@@ -181,28 +461,70 @@ async function handleGetSession(
   event: RequestEvent,
   config: ResolvedAuthConfig
 ): Promise<Response> {
+  // Already passed through the session callback by createAuth
   const session = event.locals.session as Session | null;
 
   if (!session) {
     return Response.json({ user: null, expires: null });
   }
 
-  // Apply session callback if provided
-  let finalSession = session;
-  if (config.callbacks.session) {
-    finalSession = await config.callbacks.session({
-      session,
-      token: {},
-      user: session.user
-    });
-  }
+  return sessionResponse(session);
+}
+
+/**
+ * JSON response with a session, without its provider tokens
+ */
+function sessionResponse(session: Session): Response {
+  // Provider tokens stay on the server
+  const { accessToken, refreshToken, ...publicSession } = session;
 
   return Response.json({
-    user: finalSession.user,
-    expires: finalSession.expires.toISOString()
+    ...publicSession,
+    expires: session.expires.toISOString()
   });
 }
 
+/**
+ * POST /auth/session - Re-issue the session with a patch from the client
+ *
+ * The JSON body is passed to the `jwt` callback with `trigger: 'update'`.
+ */
+async function handleUpdateSession(
+  event: RequestEvent,
+  config: ResolvedAuthConfig
+): Promise<Response> {
+  const session = event.locals.session as Session | null;
+  if (!session) {
+    return Response.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  let update: unknown;
+  try {
+    update = await event.request.json();
+  } catch {
+    return Response.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  if (!update || typeof update !== 'object' || Array.isArray(update)) {
+    return Response.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const { csrfToken, ...patch } = update as Record<string, unknown>;
+
+  try {
+    const updated = await updateSessionToken(event.cookies, session, config, patch);
+    if (!updated) {
+      return Response.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+    return sessionResponse(updated);
+  } catch (error) {
+    if (config.debug) {
+      console.error('Session update error:', error);
+    }
+    return Response.json({ error: 'Failed to update session' }, { status: 500 });
+  }
+}
+
 /**
  * GET /auth/signin - Render sign in page or redirect
  */
@@ -265,21 +587,22 @@ async function handleSignIn(
   }
 
   try {
-    const user = await credentials.authorize(credentialData, event.request);
+    if (!(await beginSignInAttempt(event, config, providerId, credentialData))) {
+      return errorRedirect(event, config, 'AccountLocked');
+    }
+
+    const user = credentials.authorize
+      ? await credentials.authorize(credentialData, event.request)
+      : await authorizeWithAdapter(credentialData, credentials, config);
 
     if (!user) {
-      const errorUrl = config.pages.error
-        ? new URL(config.pages.error, event.url.origin)
-        : new URL(`${config.basePath}/signin`, event.url.origin);
-      errorUrl.searchParams.set('error', 'CredentialsSignin');
-      return new Response(null, {
-        status: 302,
-        headers: { Location: errorUrl.toString() }
-      });
+      return errorRedirect(event, config, 'CredentialsSignin');
     }
 
+    await clearFailedSignIns(event, config, providerId, credentialData);
+
     // Create account info
-    const account: Account = {
+    const account: Account & { type: 'credentials' } = {
       provider: providerId,
       providerAccountId: user.id,
       type: 'credentials'
@@ -303,7 +626,10 @@ async function handleSignIn(
     let finalUser = user;
     if (config.adapter) {
       try {
-        const adapterUser = await getOrCreateUser(config.adapter, user, account);
+        const adapterUser = await getOrCreateUser(config, user, account);
+        if (!adapterUser) {
+          return errorRedirect(event, config, 'OAuthAccountNotLinked');
+        }
         finalUser = {
           id: adapterUser.id,
           email: adapterUser.email,
@@ -318,13 +644,32 @@ async function handleSignIn(
       }
     }
 
+    // Hold the session until the second factor is verified
+    const twoFactorRedirect = await requireTwoFactor(event, config, {
+      user: finalUser,
+      account,
+      trigger: 'signIn',
+      callbackUrl: formData.get('callbackUrl')?.toString()
+    });
+    if (twoFactorRedirect) {
+      return twoFactorRedirect;
+    }
+
     // Create session (default maxAge: 30 days)
     const maxAge = config.session.maxAge ?? 30 * 24 * 60 * 60;
     const session = createSession(finalUser, maxAge);
-    await setSessionCookie(event.cookies, session, config);
+    await setSessionCookie(event.cookies, session, config, {
+      account,
+      trigger: 'signIn',
+      client: getSessionClient(event)
+    });
 
     // Redirect to callback URL or home
-    const callbackUrl = formData.get('callbackUrl')?.toString() ?? '/';
+    const callbackUrl = await resolveRedirect(
+      event,
+      config,
+      formData.get('callbackUrl')?.toString()
+    );
     return new Response(null, {
       status: 302,
       headers: { Location: callbackUrl }
@@ -358,53 +703,116 @@ async function handleOAuthRedirect(
     );
   }
 
-  const oauth = providerConfig as OAuthProviderConfig;
-  const authConfig =
-    typeof oauth.authorization === 'string'
-      ? { url: oauth.authorization }
-      : oauth.authorization;
-
-  const authUrl = new URL(authConfig.url);
-  const callbackUrl = new URL(
-    `${config.basePath}/callback/${providerId}`,
-    event.url.origin
+  // Redirect to the provider, returning to callbackUrl afterwards
+  const requestCallbackUrl = event.url.searchParams.get('callbackUrl') ?? '/';
+
+  try {
+    const authUrl = await createAuthorizationUrl(
+      providerConfig as OAuthProviderConfig,
+      event,
+      config,
+      requestCallbackUrl
+    );
+
+    return new Response(null, {
+      status: 302,
+      headers: { Location: authUrl.toString() }
+    });
+  } catch (error) {
+    if (config.debug) {
+      console.error('OAuth redirect error:', error);
+    }
+    return Response.json({ error: 'Provider configuration failed' }, { status: 500 });
+  }
+}
+
+/**
+ * GET /auth/link/:provider - Redirect to an OAuth provider to link an account
+ */
+async function handleLinkRedirect(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  providerId: string
+): Promise<Response> {
+  const session = event.locals.session as Session | null;
+  if (!session) {
+    return Response.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const provider = config.providers.find(
+    (p): p is OAuthProviderConfig => p.id === providerId && p.type === 'oauth'
   );
+  if (!provider) {
+    return Response.json({ error: 'Provider not found' }, { status: 404 });
+  }
 
-  authUrl.searchParams.set('client_id', oauth.clientId);
-  authUrl.searchParams.set('redirect_uri', callbackUrl.toString());
-  authUrl.searchParams.set('response_type', 'code');
+  try {
+    getLinkAdapter(config);
+
+    const authUrl = await createAuthorizationUrl(
+      provider,
+      event,
+      config,
+      event.url.searchParams.get('callbackUrl') ?? '/',
+      { linkUserId: session.user.id }
+    );
 
-  if (authConfig.params) {
-    for (const [key, value] of Object.entries(authConfig.params)) {
-      authUrl.searchParams.set(key, value);
+    return new Response(null, {
+      status: 302,
+      headers: { Location: authUrl.toString() }
+    });
+  } catch (error) {
+    if (config.debug) {
+      console.error('Account link redirect error:', error);
     }
+    return Response.json({ error: 'Provider configuration failed' }, { status: 500 });
   }
+}
 
-  // Generate and store state
-  const state = crypto.randomUUID();
-  event.cookies.set(`${config.cookies.name}.state`, state, {
-    path: '/',
-    httpOnly: true,
-    secure: config.cookies.secure,
-    sameSite: 'lax',
-    maxAge: 60 * 15
-  });
+/**
+ * Link an account returned to the OAuth callback to the signed-in user
+ *
+ * The account must not belong to another user. No new session is
+ * issued; the user stays signed in as before.
+ */
+async function completeOAuthLink(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  userId: string,
+  user: User,
+  account: Account & { type: 'oauth' }
+): Promise<Response> {
+  const session = event.locals.session as Session | null;
+  if (session?.user.id !== userId) {
+    return Response.json({ error: 'Not authenticated' }, { status: 401 });
+  }
 
-  // Store callback URL for after authentication
-  const requestCallbackUrl = event.url.searchParams.get('callbackUrl') ?? '/';
-  event.cookies.set(`${config.cookies.name}.callback-url`, requestCallbackUrl, {
-    path: '/',
-    httpOnly: true,
-    secure: config.cookies.secure,
-    sameSite: 'lax',
-    maxAge: 60 * 15
+  const adapter = getLinkAdapter(config);
+  const existing = await adapter.getUserByAccount({
+    provider: account.provider,
+    providerAccountId: account.providerAccountId!
   });
 
-  authUrl.searchParams.set('state', state);
+  if (existing && existing.id !== userId) {
+    return errorRedirect(event, config, 'AccountAlreadyLinked');
+  }
+
+  if (existing) {
+    await updateAccountTokens(adapter, account);
+  } else {
+    await linkUserAccount(adapter, userId, user, account);
+  }
+
+  const redirectTo = await resolveRedirect(
+    event,
+    config,
+    event.cookies.get(`${config.cookies.name}.callback-url`)
+  );
+  event.cookies.delete(`${config.cookies.name}.callback-url`, { path: '/' });
 
   return new Response(null, {
     status: 302,
-    headers: { Location: authUrl.toString() }
+    headers: { Location: redirectTo }
   });
 }
 
@@ -435,17 +843,22 @@ async function handleOAuthCallback(
   // Clean up state cookie
   event.cookies.delete(`${config.cookies.name}.state`, { path: '/' });
 
+  // Recover the PKCE code verifier
+  const codeVerifier = usesPkce(oauth) ? await useCodeVerifier(event, config) : null;
+  if (usesPkce(oauth) && !codeVerifier) {
+    return Response.json({ error: 'Invalid PKCE code verifier' }, { status: 400 });
+  }
+
+  // Recover the nonce the ID token must match
+  const nonce = usesNonce(oauth) ? await useNonce(event, config) : undefined;
+
+  // Recover the user linking this account, if this is a link
+  const linkUserId = await useLinkUserId(event, config);
+
   // Check for error
   const error = event.url.searchParams.get('error');
   if (error) {
-    const errorUrl = config.pages.error
-      ? new URL(config.pages.error, event.url.origin)
-      : new URL(`${config.basePath}/signin`, event.url.origin);
-    errorUrl.searchParams.set('error', error);
-    return new Response(null, {
-      status: 302,
-      headers: { Location: errorUrl.toString() }
-    });
+    return errorRedirect(event, config, error);
   }
 
   // Get authorization code
@@ -456,28 +869,37 @@ async function handleOAuthCallback(
 
   try {
     // Exchange code for tokens
-    const tokenConfig =
-      typeof oauth.token === 'string' ? { url: oauth.token } : oauth.token;
+    const endpoints = await resolveEndpoints(oauth);
+    const tokenConfig = endpoints.token;
 
     const callbackUrl = new URL(
       `${config.basePath}/callback/${providerId}`,
       event.url.origin
     );
 
+    const tokenParams = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: callbackUrl.toString(),
+      client_id: oauth.clientId,
+      ...(tokenConfig.params ?? {})
+    });
+
+    // Public clients authenticate with the PKCE verifier alone
+    if (oauth.clientSecret) {
+      tokenParams.set('client_secret', oauth.clientSecret);
+    }
+    if (codeVerifier) {
+      tokenParams.set('code_verifier', codeVerifier);
+    }
+
     const tokenResponse = await fetch(tokenConfig.url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
         Accept: 'application/json'
       },
-      body: new URLSearchParams({
-        grant_type: 'authorization_code',
-        code,
-        redirect_uri: callbackUrl.toString(),
-        client_id: oauth.clientId,
-        client_secret: oauth.clientSecret,
-        ...(tokenConfig.params ?? {})
-      })
+      body: tokenParams
     });
 
     if (!tokenResponse.ok) {
@@ -506,14 +928,28 @@ async function handleOAuthCallback(
       scope: tokens.scope
     };
 
-    // Get user profile
+    // Validate the ID token of OpenID Connect providers
     let profile: Profile = {};
 
-    if (oauth.userinfo) {
-      const userinfoUrl =
-        typeof oauth.userinfo === 'string' ? oauth.userinfo : oauth.userinfo.url;
+    if (endpoints.metadata && tokenSet.idToken) {
+      const claims = await verifyIdToken(tokenSet.idToken, {
+        metadata: endpoints.metadata,
+        clientId: oauth.clientId,
+        nonce
+      });
 
-      const profileResponse = await fetch(userinfoUrl, {
+      if (!claims) {
+        return Response.json({ error: 'Invalid ID token' }, { status: 400 });
+      }
+
+      profile = { ...claims };
+    } else if (nonce !== undefined) {
+      return Response.json({ error: 'Missing ID token' }, { status: 400 });
+    }
+
+    // Get user profile
+    if (endpoints.userinfo) {
+      const profileResponse = await fetch(endpoints.userinfo, {
         headers: {
           Authorization: `Bearer ${tokenSet.accessToken}`,
           Accept: 'application/json'
@@ -521,7 +957,15 @@ async function handleOAuthCallback(
       });
 
       if (profileResponse.ok) {
-        profile = (await profileResponse.json()) as Profile;
+        const userinfo = (await profileResponse.json()) as Profile;
+
+        // The ID token identifies the user; userinfo must be about the
+        // same subject (OpenID Connect Core 5.3.2) and cannot override it
+        if (profile.sub !== undefined && userinfo.sub !== profile.sub) {
+          return Response.json({ error: 'UserInfo subject mismatch' }, { status: 400 });
+        }
+
+        profile = { ...userinfo, ...profile };
       }
     }
 
@@ -536,7 +980,7 @@ async function handleOAuthCallback(
         };
 
     // Create account info
-    const account: Account = {
+    const account: Account & { type: 'oauth' } = {
       provider: providerId,
       providerAccountId: user.id,
       type: 'oauth',
@@ -550,18 +994,15 @@ async function handleOAuthCallback(
       idToken: tokenSet.idToken
     };
 
+    if (linkUserId) {
+      return await completeOAuthLink(event, config, linkUserId, user, account);
+    }
+
     // Call signIn callback if provided
     if (config.callbacks.signIn) {
       const allowed = await config.callbacks.signIn({ user, account, profile });
       if (allowed === false) {
-        const errorUrl = config.pages.error
-          ? new URL(config.pages.error, event.url.origin)
-          : new URL(`${config.basePath}/signin`, event.url.origin);
-        errorUrl.searchParams.set('error', 'AccessDenied');
-        return new Response(null, {
-          status: 302,
-          headers: { Location: errorUrl.toString() }
-        });
+        return errorRedirect(event, config, 'AccessDenied');
       }
       if (typeof allowed === 'string') {
         return new Response(null, {
@@ -575,7 +1016,10 @@ async function handleOAuthCallback(
     let finalUser = user;
     if (config.adapter) {
       try {
-        const adapterUser = await getOrCreateUser(config.adapter, user, account, profile);
+        const adapterUser = await getOrCreateUser(config, user, account, profile);
+        if (!adapterUser) {
+          return errorRedirect(event, config, 'OAuthAccountNotLinked');
+        }
         finalUser = {
           id: adapterUser.id,
           email: adapterUser.email,
@@ -590,17 +1034,38 @@ async function handleOAuthCallback(
       }
     }
 
+    // Hold the session until the second factor is verified
+    const twoFactorRedirect = await requireTwoFactor(event, config, {
+      user: finalUser,
+      account,
+      profile,
+      trigger: 'signIn',
+      callbackUrl: event.cookies.get(`${config.cookies.name}.callback-url`)
+    });
+    if (twoFactorRedirect) {
+      event.cookies.delete(`${config.cookies.name}.callback-url`, { path: '/' });
+      return twoFactorRedirect;
+    }
+
     // Create session (default maxAge: 30 days)
     const oauthMaxAge = config.session.maxAge ?? 30 * 24 * 60 * 60;
     const session = createSession(finalUser, oauthMaxAge);
     session.accessToken = tokenSet.accessToken;
     session.refreshToken = tokenSet.refreshToken;
 
-    await setSessionCookie(event.cookies, session, config);
+    await setSessionCookie(event.cookies, session, config, {
+      account,
+      profile,
+      trigger: 'signIn',
+      client: getSessionClient(event)
+    });
 
     // Redirect to original callback URL
-    const finalCallbackUrl =
-      event.cookies.get(`${config.cookies.name}.callback-url`) ?? '/';
+    const finalCallbackUrl = await resolveRedirect(
+      event,
+      config,
+      event.cookies.get(`${config.cookies.name}.callback-url`)
+    );
     event.cookies.delete(`${config.cookies.name}.callback-url`, { path: '/' });
 
     return new Response(null, {
@@ -616,31 +1081,44 @@ async function handleOAuthCallback(
 }
 
 /**
- * POST/GET /auth/signout - Sign out
+ * GET /auth/signout - Render sign out confirmation or redirect
+ *
+ * Never signs out by itself: a link or image could otherwise sign the
+ * user out. The confirmation has to POST back with the CSRF token.
  */
-async function handleSignOut(
+async function handleSignOutPage(
   event: RequestEvent,
   config: ResolvedAuthConfig
 ): Promise<Response> {
-  deleteSessionCookie(event.cookies, config);
+  // If custom sign out page is configured, redirect there
+  if (config.pages.signOut) {
+    const callbackUrl = event.url.searchParams.get('callbackUrl') ?? '/';
+    const redirectUrl = new URL(config.pages.signOut, event.url.origin);
+    redirectUrl.searchParams.set('callbackUrl', callbackUrl);
+    return new Response(null, {
+      status: 302,
+      headers: { Location: redirectUrl.toString() }
+    });
+  }
 
-  // Get redirect URL
-  let redirectUrl = '/';
+  // Return what a client needs to confirm the sign out
+  const csrfToken = await getCsrfToken(event, config);
 
-  if (event.request.method === 'POST') {
-    const formData = await event.request.formData();
-    redirectUrl = formData.get('callbackUrl')?.toString() ?? '/';
-  } else {
-    redirectUrl = event.url.searchParams.get('callbackUrl') ?? '/';
-  }
+  return Response.json({ signoutUrl: `${config.basePath}/signout`, csrfToken });
+}
 
-  // Apply redirect callback if provided
-  if (config.callbacks.redirect) {
-    redirectUrl = await config.callbacks.redirect({
-      url: redirectUrl,
-      baseUrl: event.url.origin
-    });
-  }
+/**
+ * POST /auth/signout - Sign out
+ */
+async function handleSignOut(
+  event: RequestEvent,
+  config: ResolvedAuthConfig
+): Promise<Response> {
+  await destroySession(event.cookies, config);
+
+  const formData = await event.request.formData();
+  const requestedUrl = formData.get('callbackUrl')?.toString();
+  const redirectUrl = await resolveRedirect(event, config, requestedUrl);
 
   return new Response(null, {
     status: 302,
@@ -673,15 +1151,22 @@ async function handleGetCsrf(
   event: RequestEvent,
   config: ResolvedAuthConfig
 ): Promise<Response> {
-  const csrfToken = crypto.randomUUID();
-
-  event.cookies.set(`${config.cookies.name}.csrf-token`, csrfToken, {
-    path: '/',
-    httpOnly: true,
-    secure: config.cookies.secure,
-    sameSite: 'strict',
-    maxAge: 60 * 60 // 1 hour
-  });
+  const csrfToken = await getCsrfToken(event, config);
 
   return Response.json({ csrfToken });
 }
+
+/**
+ * GET /auth/jwks - Publish the public signing keys as a JWK Set
+ */
+async function handleGetJwks(
+  event: RequestEvent,
+  config: ResolvedAuthConfig
+): Promise<Response> {
+  const keys = await getSigningKeys(config.signingKeys);
+
+  return Response.json(
+    { keys: keys.map((key) => key.publicJwk) },
+    { headers: { 'Cache-Control': 'public, max-age=3600' } }
+  );
+}
@@ -0,0 +1,118 @@
+import type { Cookies, RequestEvent } from '@sveltejs/kit';
+import { describe, expect, it } from 'vitest';
+import { createMemoryAdapter } from '../adapters/memory.js';
+import type { ActiveSession, AdapterUser } from '../types.js';
+import { createSession, getSessionFromCookies, setSessionCookie } from '../utils/session.js';
+import { resolveConfig } from './index.js';
+import { handleListSessions, handleRevokeSession, revokeAllSessions } from './sessions.js';
+
+function createConfig(strategy: 'jwt' | 'database' = 'database') {
+  const adapter = createMemoryAdapter();
+  const config = resolveConfig({
+    secret: 'test-secret-that-is-at-least-32-characters',
+    providers: [],
+    adapter,
+    session: { strategy }
+  });
+
+  function createUser(email: string) {
+    return adapter.createUser({ email, emailVerified: null });
+  }
+
+  /**
+   * Request event for a browser signed in as a user
+   */
+  async function signIn(user: AdapterUser, userAgent: string): Promise<RequestEvent> {
+    const values = new Map<string, string>();
+    const cookies = {
+      get: (name: string) => values.get(name),
+      set: (name: string, value: string) => void values.set(name, value),
+      delete: (name: string) => void values.delete(name)
+    } as unknown as Cookies;
+    await setSessionCookie(cookies, createSession(user, 60 * 60), config, {
+      client: { userAgent, ipAddress: '127.0.0.1' }
+    });
+
+    return {
+      cookies,
+      locals: { session: await getSessionFromCookies(cookies, config) }
+    } as unknown as RequestEvent;
+  }
+
+  async function listSessions(event: RequestEvent) {
+    return (await (await handleListSessions(event, config)).json()) as ActiveSession[];
+  }
+
+  return { config, createUser, signIn, listSessions };
+}
+
+describe('sessions routes', () => {
+  it("list the user's sessions without their tokens and mark the current one", async () => {
+    const { config, createUser, signIn, listSessions } = createConfig();
+    const user = await createUser('user@example.com');
+    const other = await createUser('other@example.com');
+    await signIn(user, 'Laptop');
+    const phone = await signIn(user, 'Phone');
+    await signIn(other, 'Other');
+
+    const sessions = await listSessions(phone);
+
+    expect(sessions.map((session) => [session.userAgent, session.current])).toEqual(
+      expect.arrayContaining([
+        ['Laptop', false],
+        ['Phone', true]
+      ])
+    );
+    expect(sessions).toHaveLength(2);
+    expect(JSON.stringify(sessions)).not.toContain(phone.cookies.get(config.cookies.name));
+  });
+
+  it('revoke one of the sessions of the signed-in user only', async () => {
+    const { config, createUser, signIn, listSessions } = createConfig();
+    const user = await createUser('user@example.com');
+    const other = await createUser('other@example.com');
+    const laptop = await signIn(user, 'Laptop');
+    const phone = await signIn(user, 'Phone');
+    const stranger = await signIn(other, 'Other');
+
+    const laptopSession = (await listSessions(laptop)).find((session) => session.current)!;
+    const strangerSession = (await listSessions(stranger))[0];
+
+    const denied = await handleRevokeSession(phone, config, strangerSession.id);
+    const revoked = await handleRevokeSession(phone, config, laptopSession.id);
+
+    expect(denied.status).toBe(404);
+    expect(revoked.status).toBe(200);
+    expect(await getSessionFromCookies(laptop.cookies, config)).toBeNull();
+    expect(await getSessionFromCookies(phone.cookies, config)).not.toBeNull();
+    expect(await getSessionFromCookies(stranger.cookies, config)).not.toBeNull();
+  });
+
+  it('are only available for database sessions', async () => {
+    const { config, createUser, signIn } = createConfig('jwt');
+    const user = await createUser('user@example.com');
+    const event = await signIn(user, 'Laptop');
+
+    expect((await handleListSessions(event, config)).status).toBe(400);
+  });
+});
+
+describe('revokeAllSessions', () => {
+  it('deletes every database session of the user', async () => {
+    const { config, createUser, signIn } = createConfig();
+    const user = await createUser('user@example.com');
+    const laptop = await signIn(user, 'Laptop');
+    const phone = await signIn(user, 'Phone');
+
+    await revokeAllSessions(config, user.id);
+
+    expect(await getSessionFromCookies(laptop.cookies, config)).toBeNull();
+    expect(await getSessionFromCookies(phone.cookies, config)).toBeNull();
+  });
+
+  it('requires revocation for JWT sessions', async () => {
+    const { config } = createConfig('jwt');
+
+    await expect(revokeAllSessions(config, 'user')).rejects.toThrow('session.revocation');
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Active sessions routes
+ */
+
+import type { Cookies, RequestEvent } from '@sveltejs/kit';
+import type {
+  ActiveSession,
+  Adapter,
+  AdapterSession,
+  ResolvedAuthConfig,
+  Session
+} from '../types.js';
+import type { SessionClient } from '../utils/session.js';
+import { getSessionVersionAdapter, revokeSessions } from '../utils/session-version.js';
+import { getClientAddress } from './rate-limit.js';
+
+/**
+ * Adapter methods required to list and revoke a user's database sessions
+ */
+export type SessionListAdapter = Required<
+  Pick<Adapter, 'listSessionsForUser' | 'deleteSessionsForUser' | 'deleteSession'>
+>;
+
+const sessionListAdapterMethods: (keyof SessionListAdapter)[] = [
+  'listSessionsForUser',
+  'deleteSessionsForUser',
+  'deleteSession'
+];
+
+/**
+ * Get the adapter used to list and revoke database sessions
+ *
+ * @throws if the configured adapter does not implement the required methods
+ */
+export function getSessionListAdapter(config: ResolvedAuthConfig): SessionListAdapter {
+  const adapter = config.adapter;
+  const missing = sessionListAdapterMethods.filter(
+    (method) => typeof adapter?.[method] !== 'function'
+  );
+
+  if (missing.length > 0) {
+    throw new Error(`Session management requires an adapter implementing: ${missing.join(', ')}`);
+  }
+
+  return adapter as SessionListAdapter;
+}
+
+/**
+ * Get the user agent and IP a new session is issued to
+ */
+export function getSessionClient(event: RequestEvent): SessionClient {
+  return {
+    userAgent: event.request.headers.get('user-agent'),
+    ipAddress: getClientAddress(event)
+  };
+}
+
+/**
+ * Strip the token from a stored session
+ */
+function toActiveSession(session: AdapterSession, currentToken: string | undefined): ActiveSession {
+  return {
+    id: session.id,
+    userAgent: session.userAgent ?? null,
+    ipAddress: session.ipAddress ?? null,
+    createdAt: session.createdAt,
+    lastSeenAt: session.lastSeenAt ?? null,
+    expires: session.expires,
+    current: session.sessionToken === currentToken
+  };
+}
+
+/**
+ * List a user's unexpired database sessions, most recently used first
+ */
+export async function listSessions(
+  config: ResolvedAuthConfig,
+  cookies: Cookies,
+  userId: string
+): Promise<ActiveSession[]> {
+  const sessions = await getSessionListAdapter(config).listSessionsForUser(userId);
+  const currentToken = cookies.get(config.cookies.name);
+  const lastSeen = (session: AdapterSession) =>
+    (session.lastSeenAt ?? session.createdAt).getTime();
+
+  return sessions
+    .filter((session) => session.expires.getTime() > Date.now())
+    .sort((a, b) => lastSeen(b) - lastSeen(a))
+    .map((session) => toActiveSession(session, currentToken));
+}
+
+/**
+ * Delete one of a user's database sessions
+ *
+ * @returns false if the user has no session with that ID
+ */
+export async function revokeSession(
+  config: ResolvedAuthConfig,
+  userId: string,
+  id: string
+): Promise<boolean> {
+  const adapter = getSessionListAdapter(config);
+  const sessions = await adapter.listSessionsForUser(userId);
+  const session = sessions.find((session) => session.id === id);
+
+  if (!session) {
+    return false;
+  }
+
+  await adapter.deleteSession(session.sessionToken);
+  return true;
+}
+
+/**
+ * Sign a user out of every session
+ *
+ * @throws if JWT sessions are used without `session.revocation`
+ */
+export async function revokeAllSessions(
+  config: ResolvedAuthConfig,
+  userId: string
+): Promise<void> {
+  if (config.session.strategy === 'database') {
+    await getSessionListAdapter(config).deleteSessionsForUser(userId);
+    return;
+  }
+
+  if (!config.session.revocation) {
+    throw new Error('revokeAllSessions requires session.revocation to be enabled');
+  }
+
+  await revokeSessions(getSessionVersionAdapter(config.adapter), userId);
+}
+
+/**
+ * Response for session routes when sessions are not stored in the database
+ */
+function notDatabaseSessions(): Response {
+  return Response.json(
+    { error: "Sessions are only listed with the 'database' strategy" },
+    { status: 400 }
+  );
+}
+
+/**
+ * GET /auth/sessions - List the signed-in user's sessions
+ */
+export async function handleListSessions(
+  event: RequestEvent,
+  config: ResolvedAuthConfig
+): Promise<Response> {
+  const session = event.locals.session as Session | null;
+  if (!session) {
+    return Response.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  if (config.session.strategy !== 'database') {
+    return notDatabaseSessions();
+  }
+
+  try {
+    return Response.json(await listSessions(config, event.cookies, session.user.id));
+  } catch (error) {
+    if (config.debug) {
+      console.error('List sessions error:', error);
+    }
+    return Response.json({ error: 'Failed to list sessions' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /auth/sessions/:id - Sign out one of the signed-in user's sessions
+ */
+export async function handleRevokeSession(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  id: string
+): Promise<Response> {
+  const session = event.locals.session as Session | null;
+  if (!session) {
+    return Response.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  if (config.session.strategy !== 'database') {
+    return notDatabaseSessions();
+  }
+
+  try {
+    if (!(await revokeSession(config, session.user.id, id))) {
+      return Response.json({ error: 'Session not found' }, { status: 404 });
+    }
+    return Response.json({ success: true });
+  } catch (error) {
+    if (config.debug) {
+      console.error('Revoke session error:', error);
+    }
+    return Response.json({ error: 'Failed to revoke session' }, { status: 500 });
+  }
+}
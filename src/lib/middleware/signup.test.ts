@@ -0,0 +1,111 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import { describe, expect, it, vi } from 'vitest';
+import { createMemoryAdapter } from '../adapters/memory.js';
+import { Credentials, type CredentialsConfig } from '../providers/credentials.js';
+import type { ResolvedAuthConfig } from '../types.js';
+import { verifyPassword } from '../utils/password.js';
+import { getSessionFromCookies } from '../utils/session.js';
+import { resolveConfig } from './index.js';
+import { handleSignUp } from './signup.js';
+
+const password = 'Correct-horse-battery-9';
+
+function createConfig(provider: CredentialsConfig = { signUp: true }) {
+  const adapter = createMemoryAdapter();
+  const triggers: (string | undefined)[] = [];
+  const config = resolveConfig({
+    secret: 'test-secret-that-is-at-least-32-characters',
+    providers: [Credentials(provider)],
+    adapter,
+    pages: { newUser: '/welcome' },
+    callbacks: {
+      jwt: ({ token, trigger }) => {
+        triggers.push(trigger);
+        return token;
+      }
+    }
+  });
+
+  return { adapter, config, triggers };
+}
+
+function createEvent(fields: Record<string, string>): RequestEvent {
+  const url = 'http://localhost/auth/signup/credentials';
+  const cookies = new Map<string, string>();
+
+  return {
+    url: new URL(url),
+    request: new Request(url, { method: 'POST', body: new URLSearchParams(fields) }),
+    locals: {},
+    getClientAddress: () => '127.0.0.1',
+    cookies: {
+      get: (name: string) => cookies.get(name),
+      set: (name: string, value: string) => void cookies.set(name, value),
+      delete: (name: string) => void cookies.delete(name)
+    }
+  } as unknown as RequestEvent;
+}
+
+function signUp(config: ResolvedAuthConfig, fields: Record<string, string>) {
+  return handleSignUp(createEvent(fields), config, 'credentials');
+}
+
+describe('handleSignUp', () => {
+  it('creates a user with a credentials account and signs them in', async () => {
+    const { adapter, config, triggers } = createConfig();
+    const event = createEvent({ login: 'new@example.com', password, name: 'New' });
+
+    const response = await handleSignUp(event, config, 'credentials');
+
+    expect(response.status).toBe(302);
+    expect(response.headers.get('location')).toBe('/welcome');
+
+    const account = await adapter.getAccountByLogin!('credentials', 'new@example.com');
+    expect(account).toMatchObject({ type: 'credentials', loginVerified: null });
+    expect(account!.passwordHash).not.toBe(password);
+    expect(await verifyPassword(password, account!.passwordHash!)).toBe(true);
+
+    const session = await getSessionFromCookies(event.cookies, config);
+    expect(session?.user).toMatchObject({ id: account!.userId, name: 'New' });
+    expect(triggers).toEqual(['signUp']);
+  });
+
+  it('sends a verification email when configured', async () => {
+    const sendEmail = vi.fn(async () => {});
+    const { config } = createConfig({ signUp: { verification: { sendEmail } } });
+
+    await signUp(config, { login: 'verify@example.com', password });
+
+    expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'verify@example.com' }));
+  });
+
+  it('rejects invalid logins and weak passwords', async () => {
+    const { adapter, config } = createConfig();
+
+    const invalid = await signUp(config, { login: 'not-an-email', password });
+    const weak = await signUp(config, { login: 'weak@example.com', password: 'short' });
+
+    expect(invalid.status).toBe(400);
+    expect(weak.status).toBe(400);
+    expect(await adapter.getUserByEmail('weak@example.com')).toBeNull();
+  });
+
+  it('refuses a login or email that is already taken', async () => {
+    const { adapter, config } = createConfig();
+    await signUp(config, { login: 'taken@example.com', password });
+    await adapter.createUser({ email: 'oauth@example.com', emailVerified: null });
+
+    for (const login of ['taken@example.com', 'oauth@example.com']) {
+      const response = await signUp(config, { login, password });
+      expect(response.status).toBe(409);
+    }
+  });
+
+  it('is not available unless enabled on the provider', async () => {
+    const { config } = createConfig({});
+
+    const response = await signUp(config, { login: 'new@example.com', password });
+
+    expect(response.status).toBe(404);
+  });
+});
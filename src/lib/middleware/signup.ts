@@ -0,0 +1,191 @@
+/**
+ * Credentials sign up route
+ */
+
+import type { RequestEvent } from '@sveltejs/kit';
+import type {
+  Account,
+  Adapter,
+  CredentialsProviderConfig,
+  ResolvedAuthConfig,
+  User
+} from '../types.js';
+import { createSession, setSessionCookie } from '../utils/session.js';
+import { hashPassword } from '../utils/password.js';
+import { validateLogin } from '../providers/credentials.js';
+import { validatePassword } from '../flows/password-reset.js';
+import { createVerification } from '../flows/verification.js';
+import { resolveRedirect, errorRedirect } from './redirect.js';
+import { rateLimitIdentifier } from './rate-limit.js';
+import { getSessionClient } from './sessions.js';
+
+/**
+ * Adapter methods required to sign up with credentials
+ */
+export type SignUpAdapter = Required<
+  Pick<
+    Adapter,
+    'createUser' | 'linkAccount' | 'getAccountByLogin' | 'getUserByEmail' | 'createVerificationToken'
+  >
+>;
+
+const signUpAdapterMethods: (keyof SignUpAdapter)[] = [
+  'createUser',
+  'linkAccount',
+  'getAccountByLogin',
+  'getUserByEmail',
+  'createVerificationToken'
+];
+
+/**
+ * Get the adapter used to create users and credentials accounts
+ *
+ * @throws if the configured adapter does not implement the required methods
+ */
+export function getSignUpAdapter(config: ResolvedAuthConfig): SignUpAdapter {
+  const adapter = config.adapter;
+  const missing = signUpAdapterMethods.filter(
+    (method) => typeof adapter?.[method] !== 'function'
+  );
+
+  if (missing.length > 0) {
+    throw new Error(`Credentials sign up requires an adapter implementing: ${missing.join(', ')}`);
+  }
+
+  return adapter as SignUpAdapter;
+}
+
+/**
+ * POST /auth/signup/:provider - Create a user with a login and password
+ */
+export async function handleSignUp(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  providerId: string
+): Promise<Response> {
+  const provider = config.providers.find(
+    (p): p is CredentialsProviderConfig => p.id === providerId && p.type === 'credentials'
+  );
+
+  if (!provider?.signUp) {
+    return Response.json({ error: 'Provider not found' }, { status: 404 });
+  }
+
+  const signUp = provider.signUp;
+  const formData = await event.request.formData();
+  const login = formData.get('login')?.toString().trim() ?? '';
+  const password = formData.get('password')?.toString() ?? '';
+  const name = formData.get('name')?.toString().trim() || null;
+
+  const loginResult = validateLogin(login, provider.loginType);
+  if (!loginResult.valid) {
+    return Response.json({ error: loginResult.error }, { status: 400 });
+  }
+
+  const passwordResult = validatePassword(password, signUp.password);
+  if (!passwordResult.valid) {
+    return Response.json(
+      { error: passwordResult.errors[0], errors: passwordResult.errors },
+      { status: 400 }
+    );
+  }
+
+  const limited = await rateLimitIdentifier(config, 'signup', login);
+  if (limited) {
+    return limited;
+  }
+
+  const isEmail = validateLogin(login, 'email').valid;
+
+  try {
+    const adapter = getSignUpAdapter(config);
+
+    // The address may also belong to a user who signed up another way, e.g. with OAuth
+    if (
+      (await adapter.getAccountByLogin(provider.id, login)) ||
+      (isEmail && (await adapter.getUserByEmail(login)))
+    ) {
+      return Response.json({ error: 'An account with this login already exists' }, { status: 409 });
+    }
+
+    // Call signIn callback if provided
+    if (config.callbacks.signIn) {
+      const allowed = await config.callbacks.signIn({
+        user: { id: login, email: isEmail ? login : null, name },
+        account: { provider: provider.id, type: 'credentials' }
+      });
+      if (allowed === false) {
+        return errorRedirect(event, config, 'AccessDenied');
+      }
+      if (typeof allowed === 'string') {
+        return new Response(null, {
+          status: 302,
+          headers: { Location: allowed }
+        });
+      }
+    }
+
+    const adapterUser = await adapter.createUser({
+      email: isEmail ? login : '',
+      emailVerified: null,
+      name,
+      image: null
+    });
+
+    await adapter.linkAccount({
+      userId: adapterUser.id,
+      provider: provider.id,
+      providerAccountId: adapterUser.id,
+      login,
+      loginVerified: null,
+      passwordHash: await hashPassword(password, signUp.hash ?? provider.hash),
+      type: 'credentials'
+    });
+
+    // Verification emails can be resent, so a failure does not undo the sign up
+    if (signUp.verification && isEmail) {
+      try {
+        await createVerification(adapter as Adapter, login, signUp.verification, event.request);
+      } catch (error) {
+        if (config.debug) {
+          console.error('Verification email error:', error);
+        }
+      }
+    }
+
+    const user: User = {
+      id: adapterUser.id,
+      email: adapterUser.email || null,
+      name: adapterUser.name,
+      image: adapterUser.image
+    };
+    const account: Account = {
+      provider: provider.id,
+      providerAccountId: adapterUser.id,
+      type: 'credentials'
+    };
+
+    const maxAge = config.session.maxAge ?? 30 * 24 * 60 * 60;
+    const session = createSession(user, maxAge);
+    await setSessionCookie(event.cookies, session, config, {
+      account,
+      trigger: 'signUp',
+      client: getSessionClient(event)
+    });
+
+    const redirectTo = await resolveRedirect(
+      event,
+      config,
+      formData.get('callbackUrl')?.toString() ?? config.pages.newUser
+    );
+    return new Response(null, {
+      status: 302,
+      headers: { Location: redirectTo }
+    });
+  } catch (error) {
+    if (config.debug) {
+      console.error('Sign up error:', error);
+    }
+    return Response.json({ error: 'Sign up failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,176 @@
+/**
+ * OAuth access token refresh
+ */
+
+import type {
+  Adapter,
+  AdapterAccount,
+  OAuthProviderConfig,
+  ResolvedAuthConfig
+} from '../types.js';
+import { resolveEndpoints } from './oauth.js';
+
+/**
+ * Refresh access tokens this many seconds before they expire
+ */
+const EXPIRY_MARGIN = 60;
+
+/**
+ * Adapter methods required to read and refresh provider tokens
+ */
+type TokenAdapter = Required<Pick<Adapter, 'getAccountsByUserId' | 'updateAccount'>>;
+
+/**
+ * In-flight refreshes by account ID, so concurrent requests share one grant
+ */
+const pendingRefreshes = new Map<string, Promise<AdapterAccount | null>>();
+
+/**
+ * Get the adapter used to persist provider tokens
+ *
+ * @throws if the configured adapter does not implement the account methods
+ */
+function getTokenAdapter(config: ResolvedAuthConfig): TokenAdapter {
+  const adapter = config.adapter;
+  if (typeof adapter?.getAccountsByUserId !== 'function' || typeof adapter.updateAccount !== 'function') {
+    throw new Error('Access token refresh requires an adapter implementing: getAccountsByUserId, updateAccount');
+  }
+
+  return adapter as TokenAdapter;
+}
+
+/**
+ * Check whether an account's access token has expired (or is about to)
+ */
+function isExpired(account: AdapterAccount): boolean {
+  if (!account.expiresAt) {
+    return false;
+  }
+
+  return account.expiresAt - EXPIRY_MARGIN <= Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Exchange an account's refresh token for new tokens and store them
+ */
+async function refreshAccessToken(
+  account: AdapterAccount,
+  provider: OAuthProviderConfig,
+  adapter: TokenAdapter,
+  config: ResolvedAuthConfig
+): Promise<AdapterAccount | null> {
+  const { token: tokenConfig } = await resolveEndpoints(provider);
+
+  const params = new URLSearchParams({
+    grant_type: 'refresh_token',
+    refresh_token: account.refreshToken ?? '',
+    client_id: provider.clientId
+  });
+
+  if (provider.clientSecret) {
+    params.set('client_secret', provider.clientSecret);
+  }
+
+  const response = await fetch(tokenConfig.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json'
+    },
+    body: params
+  });
+
+  if (!response.ok) {
+    if (config.debug) {
+      console.error('Token refresh failed:', await response.text());
+    }
+    return null;
+  }
+
+  const tokens = (await response.json()) as {
+    access_token: string;
+    refresh_token?: string;
+    expires_in?: number;
+  };
+
+  return adapter.updateAccount(account.id, {
+    accessToken: tokens.access_token,
+    // Providers that rotate refresh tokens return a new one with each grant
+    refreshToken: tokens.refresh_token ?? account.refreshToken,
+    // Clear the old expiry when the provider does not give a new one
+    expiresAt: tokens.expires_in
+      ? Math.floor(Date.now() / 1000) + tokens.expires_in
+      : null
+  });
+}
+
+/**
+ * Refresh an account's tokens, joining a refresh already in progress
+ *
+ * Refreshes are only de-duplicated within this process.
+ */
+function refreshOnce(
+  account: AdapterAccount,
+  provider: OAuthProviderConfig,
+  adapter: TokenAdapter,
+  config: ResolvedAuthConfig
+): Promise<AdapterAccount | null> {
+  let pending = pendingRefreshes.get(account.id);
+
+  if (!pending) {
+    pending = refreshAccessToken(account, provider, adapter, config).finally(() => {
+      pendingRefreshes.delete(account.id);
+    });
+    pendingRefreshes.set(account.id, pending);
+  }
+
+  return pending;
+}
+
+/**
+ * Get a valid provider access token for a user
+ *
+ * Expired tokens are refreshed with the stored refresh token and
+ * the new tokens are persisted to the account.
+ *
+ * @returns The access token, or null if the user has no linked account
+ *   for the provider or its token cannot be refreshed
+ */
+export async function getAccessToken(
+  config: ResolvedAuthConfig,
+  userId: string,
+  providerId: string
+): Promise<string | null> {
+  const provider = config.providers.find(
+    (p): p is OAuthProviderConfig => p.id === providerId && p.type === 'oauth'
+  );
+  if (!provider) {
+    throw new Error(`OAuth provider "${providerId}" not found`);
+  }
+
+  const adapter = getTokenAdapter(config);
+  const accounts = await adapter.getAccountsByUserId(userId);
+  const account = accounts.find((a) => a.provider === providerId && a.type === 'oauth');
+
+  if (!account?.accessToken) {
+    return null;
+  }
+
+  if (!isExpired(account)) {
+    return account.accessToken;
+  }
+
+  if (!account.refreshToken) {
+    return null;
+  }
+
+  try {
+    const refreshed = await refreshOnce(account, provider, adapter, config);
+    return refreshed?.accessToken ?? null;
+  } catch (error) {
+    if (config.debug) {
+      console.error('Token refresh error:', error);
+    }
+    return null;
+  }
+}
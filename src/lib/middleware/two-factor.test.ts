@@ -0,0 +1,136 @@
+import type { RequestEvent } from '@sveltejs/kit';
+import { describe, expect, it } from 'vitest';
+import { createMemoryAdapter } from '../adapters/memory.js';
+import { encrypt } from '../utils/crypto.js';
+import {
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  hashRecoveryCode
+} from '../utils/totp.js';
+import { resolveConfig } from './index.js';
+import { handleTwoFactorVerify, requireTwoFactor } from './two-factor.js';
+
+const adapter = createMemoryAdapter();
+const config = resolveConfig({
+  secret: 'test-secret-that-is-at-least-32-characters',
+  adapter,
+  providers: [],
+  twoFactor: { maxAttempts: 5 }
+});
+
+/**
+ * Request event with its own cookie jar
+ */
+function createEvent(
+  cookies: Map<string, string>,
+  form: Record<string, string> = {}
+): RequestEvent {
+  const body = new FormData();
+  for (const [name, value] of Object.entries(form)) {
+    body.set(name, value);
+  }
+
+  return {
+    url: new URL('http://localhost/auth/two-factor/verify'),
+    request: new Request('http://localhost/auth/two-factor/verify', { method: 'POST', body }),
+    locals: {},
+    getClientAddress: () => '127.0.0.1',
+    cookies: {
+      get: (name: string) => cookies.get(name),
+      set: (name: string, value: string) => void cookies.set(name, value),
+      delete: (name: string) => void cookies.delete(name)
+    }
+  } as unknown as RequestEvent;
+}
+
+/**
+ * Enroll a user and start a sign in that waits for the second factor
+ *
+ * @returns The TOTP secret, a recovery code and the pending sign in cookies
+ */
+async function startSignIn(userId: string) {
+  const secret = generateTotpSecret();
+  const recoveryCode = 'abcde-12345';
+
+  await adapter.createTwoFactor!({
+    userId,
+    secret: await encrypt(secret, config.secret),
+    enabledAt: new Date(),
+    lastUsedStep: null,
+    recoveryCodes: [await hashRecoveryCode(recoveryCode)]
+  });
+
+  const cookies = new Map<string, string>();
+  const redirect = await requireTwoFactor(createEvent(cookies), config, {
+    user: { id: userId, email: `${userId}@example.com` },
+    account: { provider: 'credentials', providerAccountId: userId, type: 'credentials' },
+    trigger: 'signIn',
+    callbackUrl: '/done'
+  });
+  expect(redirect?.status).toBe(302);
+
+  return { secret, recoveryCode, cookies };
+}
+
+/**
+ * Submit the same pending sign in several times at once
+ */
+function verifyInParallel(
+  cookies: Map<string, string>,
+  forms: Record<string, string>[]
+): Promise<Response[]> {
+  return Promise.all(
+    forms.map((form) => handleTwoFactorVerify(createEvent(new Map(cookies), form), config))
+  );
+}
+
+function isSignedIn(response: Response): boolean {
+  return response.status === 302 && response.headers.get('location')?.endsWith('/done') === true;
+}
+
+describe('handleTwoFactorVerify', () => {
+  it('signs in with a valid code', async () => {
+    const { secret, cookies } = await startSignIn('user-valid');
+    const code = await generateTotp(secret, getTotpStep());
+
+    const [response] = await verifyInParallel(cookies, [{ code }]);
+
+    expect(isSignedIn(response)).toBe(true);
+  });
+
+  it('limits guesses made in parallel', async () => {
+    const { cookies } = await startSignIn('user-guessing');
+    const guesses = Array.from({ length: 10 }, (_, i) => ({ code: String(i).padStart(6, '0') }));
+
+    const responses = await verifyInParallel(cookies, guesses);
+    const statuses = responses.map((response) => response.status);
+
+    expect(statuses.filter((status) => status === 302)).toHaveLength(5);
+    expect(statuses.filter((status) => status === 429)).toHaveLength(5);
+  });
+
+  it('accepts a code only once when it is replayed in parallel', async () => {
+    const { secret, cookies } = await startSignIn('user-totp-replay');
+    const code = await generateTotp(secret, getTotpStep());
+
+    const responses = await verifyInParallel(cookies, [{ code }, { code }, { code }]);
+
+    expect(responses.filter(isSignedIn)).toHaveLength(1);
+  });
+
+  it('accepts a recovery code only once when it is replayed in parallel', async () => {
+    const { recoveryCode, cookies } = await startSignIn('user-recovery-replay');
+
+    const responses = await verifyInParallel(cookies, [
+      { recoveryCode },
+      { recoveryCode },
+      { recoveryCode }
+    ]);
+
+    expect(responses.filter(isSignedIn)).toHaveLength(1);
+    expect((await adapter.getTwoFactorByUserId!('user-recovery-replay'))?.recoveryCodes).toEqual(
+      []
+    );
+  });
+});
@@ -0,0 +1,544 @@
+/**
+ * TOTP two-factor authentication routes
+ */
+
+import type { RequestEvent } from '@sveltejs/kit';
+import type {
+  Account,
+  Adapter,
+  AdapterTwoFactor,
+  Profile,
+  ResolvedAuthConfig,
+  Session,
+  User
+} from '../types.js';
+import { createSession, setSessionCookie } from '../utils/session.js';
+import { encrypt, decrypt, timingSafeEqual } from '../utils/crypto.js';
+import {
+  generateTotpSecret,
+  verifyTotp,
+  createTotpUri,
+  generateRecoveryCodes,
+  hashRecoveryCode
+} from '../utils/totp.js';
+import { resolveRedirect } from './redirect.js';
+import { setEncryptedCookie, getEncryptedCookie, deleteAuthCookie } from './cookies.js';
+import { getSessionClient } from './sessions.js';
+
+/**
+ * Adapter methods required for two-factor authentication
+ */
+export type TwoFactorAdapter = Required<
+  Pick<Adapter, 'createTwoFactor' | 'getTwoFactorByUserId' | 'updateTwoFactor' | 'deleteTwoFactor'>
+>;
+
+/**
+ * A sign in waiting for its second factor
+ */
+export interface PendingSignIn {
+  user: User;
+  account: Account;
+  profile?: Profile;
+  trigger: 'signIn' | 'signUp';
+  callbackUrl?: string | null;
+}
+
+/**
+ * Pending sign in stored (encrypted) in the 'two-factor' cookie
+ */
+interface PendingSignInCookie extends PendingSignIn {
+  expires: number;
+}
+
+type ResolvedTwoFactorConfig = NonNullable<ResolvedAuthConfig['twoFactor']>;
+
+/**
+ * Failed codes by user ID
+ *
+ * Counts are kept per process and reset once the pending sign in
+ * lifetime has passed since the first failure.
+ */
+const twoFactorAttempts = new Map<string, { count: number; resetAt: number }>();
+
+/**
+ * Attempt counts kept before expired ones are swept
+ */
+const TWO_FACTOR_ATTEMPTS_SWEEP_SIZE = 10_000;
+
+/**
+ * Record one more attempt for a user
+ */
+function recordTwoFactorAttempt(userId: string, count: number, resetAt: number): void {
+  if (twoFactorAttempts.size >= TWO_FACTOR_ATTEMPTS_SWEEP_SIZE) {
+    const now = Date.now();
+    for (const [key, attempts] of twoFactorAttempts) {
+      if (attempts.resetAt <= now) {
+        twoFactorAttempts.delete(key);
+      }
+    }
+  }
+
+  twoFactorAttempts.set(userId, { count, resetAt });
+}
+
+const twoFactorAdapterMethods: (keyof TwoFactorAdapter)[] = [
+  'createTwoFactor',
+  'getTwoFactorByUserId',
+  'updateTwoFactor',
+  'deleteTwoFactor'
+];
+
+/**
+ * Get the adapter used to store second factors
+ *
+ * @throws if the configured adapter does not implement the required methods
+ */
+export function getTwoFactorAdapter(config: ResolvedAuthConfig): TwoFactorAdapter {
+  const adapter = config.adapter;
+  const missing = twoFactorAdapterMethods.filter(
+    (method) => typeof adapter?.[method] !== 'function'
+  );
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Two-factor authentication requires an adapter implementing: ${missing.join(', ')}`
+    );
+  }
+
+  return adapter as TwoFactorAdapter;
+}
+
+/**
+ * Get the two-factor settings, or throw if two-factor authentication is off
+ */
+function getTwoFactorConfig(config: ResolvedAuthConfig): ResolvedTwoFactorConfig {
+  if (!config.twoFactor) {
+    throw new Error('Two-factor authentication is not enabled');
+  }
+  return config.twoFactor;
+}
+
+/**
+ * Decrypt a stored TOTP secret, trying each configured secret
+ */
+async function decryptTotpSecret(
+  factor: AdapterTwoFactor,
+  config: ResolvedAuthConfig
+): Promise<string> {
+  for (const { secret } of config.secrets) {
+    try {
+      return await decrypt(factor.secret, secret);
+    } catch {
+      // Try the next secret
+    }
+  }
+
+  throw new Error('Unable to decrypt two-factor secret');
+}
+
+/**
+ * Check a TOTP code and record its time step so it cannot be replayed
+ */
+async function useTotpCode(
+  factor: AdapterTwoFactor,
+  code: string,
+  config: ResolvedAuthConfig
+): Promise<boolean> {
+  const twoFactor = getTwoFactorConfig(config);
+  const step = await verifyTotp(await decryptTotpSecret(factor, config), code, {
+    digits: twoFactor.digits,
+    period: twoFactor.period,
+    window: twoFactor.window,
+    lastUsedStep: factor.lastUsedStep
+  });
+
+  if (step === null) {
+    return false;
+  }
+
+  // Only one request can move the step on from the value it read
+  const updated = await getTwoFactorAdapter(config).updateTwoFactor(
+    factor.id,
+    { lastUsedStep: step },
+    { lastUsedStep: factor.lastUsedStep }
+  );
+  return updated !== null;
+}
+
+/**
+ * Check a recovery code and remove it so it cannot be used again
+ */
+async function useRecoveryCode(
+  factor: AdapterTwoFactor,
+  code: string,
+  config: ResolvedAuthConfig
+): Promise<boolean> {
+  const hash = await hashRecoveryCode(code);
+  let matched: string | undefined;
+
+  for (const stored of factor.recoveryCodes) {
+    if (timingSafeEqual(stored, hash)) {
+      matched = stored;
+    }
+  }
+
+  if (!matched) {
+    return false;
+  }
+
+  // Only one request can remove the code from the list it read
+  const updated = await getTwoFactorAdapter(config).updateTwoFactor(
+    factor.id,
+    { recoveryCodes: factor.recoveryCodes.filter((stored) => stored !== matched) },
+    { recoveryCodes: factor.recoveryCodes }
+  );
+  return updated !== null;
+}
+
+/**
+ * Check a submitted TOTP code or, failing that, a recovery code
+ */
+async function useSecondFactor(
+  factor: AdapterTwoFactor,
+  formData: FormData,
+  config: ResolvedAuthConfig
+): Promise<boolean> {
+  const code = formData.get('code')?.toString().trim();
+  if (code) {
+    return useTotpCode(factor, code, config);
+  }
+
+  const recoveryCode = formData.get('recoveryCode')?.toString().trim();
+  if (recoveryCode) {
+    return useRecoveryCode(factor, recoveryCode, config);
+  }
+
+  return false;
+}
+
+/**
+ * Issue new recovery codes, storing only their hashes
+ */
+async function issueRecoveryCodes(
+  factor: AdapterTwoFactor,
+  config: ResolvedAuthConfig,
+  data: Partial<Pick<AdapterTwoFactor, 'enabledAt'>> = {}
+): Promise<string[]> {
+  const recoveryCodes = generateRecoveryCodes(getTwoFactorConfig(config).recoveryCodes);
+
+  await getTwoFactorAdapter(config).updateTwoFactor(factor.id, {
+    ...data,
+    recoveryCodes: await Promise.all(recoveryCodes.map(hashRecoveryCode))
+  });
+
+  return recoveryCodes;
+}
+
+/**
+ * URL of the page that asks for the second factor
+ */
+function getTwoFactorPageUrl(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  error?: string
+): string {
+  const url = new URL(config.pages.twoFactor ?? `${config.basePath}/signin`, event.url.origin);
+  url.searchParams.set('twoFactor', '1');
+  if (error) {
+    url.searchParams.set('error', error);
+  }
+  return url.toString();
+}
+
+/**
+ * Hold a sign in until the second factor is verified
+ *
+ * If the user has enabled two-factor authentication, the sign in is
+ * stored in the 'two-factor' cookie and the user is sent to the
+ * two-factor page instead of receiving a session.
+ *
+ * @returns The redirect to the two-factor page, or null if no second
+ *   factor is required
+ */
+export async function requireTwoFactor(
+  event: RequestEvent,
+  config: ResolvedAuthConfig,
+  pending: PendingSignIn
+): Promise<Response | null> {
+  if (!config.twoFactor) {
+    return null;
+  }
+
+  const factor = await getTwoFactorAdapter(config).getTwoFactorByUserId(pending.user.id);
+  if (!factor?.enabledAt) {
+    return null;
+  }
+
+  const cookie: PendingSignInCookie = {
+    ...pending,
+    expires: Date.now() + config.twoFactor.maxAge * 1000
+  };
+  await setEncryptedCookie(event, config, 'two-factor', JSON.stringify(cookie), {
+    maxAge: config.twoFactor.maxAge,
+    sameSite: 'strict'
+  });
+
+  return new Response(null, {
+    status: 302,
+    headers: { Location: getTwoFactorPageUrl(event, config) }
+  });
+}
+
+/**
+ * Read the pending sign in from the 'two-factor' cookie
+ */
+async function readPendingSignIn(
+  event: RequestEvent,
+  config: ResolvedAuthConfig
+): Promise<PendingSignInCookie | null> {
+  const value = await getEncryptedCookie(event, config, 'two-factor');
+  if (!value) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(value) as PendingSignInCookie;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * POST /auth/two-factor/verify - Complete a pending sign in
+ */
+export async function handleTwoFactorVerify(
+  event: RequestEvent,
+  config: ResolvedAuthConfig
+): Promise<Response> {
+  const formData = await event.request.formData();
+
+  try {
+    const twoFactor = getTwoFactorConfig(config);
+    const pending = await readPendingSignIn(event, config);
+    if (!pending || pending.expires < Date.now()) {
+      deleteAuthCookie(event, config, 'two-factor');
+      return Response.json({ error: 'No pending sign in' }, { status: 400 });
+    }
+
+    const userId = pending.user.id;
+    const previous = twoFactorAttempts.get(userId);
+    const attempts =
+      previous && previous.resetAt > Date.now()
+        ? previous
+        : { count: 0, resetAt: Date.now() + twoFactor.maxAge * 1000 };
+
+    if (attempts.count >= twoFactor.maxAttempts) {
+      // Too many guesses: the user has to sign in again
+      deleteAuthCookie(event, config, 'two-factor');
+      return Response.json({ error: 'Too many attempts' }, { status: 429 });
+    }
+
+    // Count the attempt before checking it, so parallel requests cannot
+    // all guess against the same count
+    recordTwoFactorAttempt(userId, attempts.count + 1, attempts.resetAt);
+
+    const factor = await getTwoFactorAdapter(config).getTwoFactorByUserId(userId);
+    if (!factor?.enabledAt || !(await useSecondFactor(factor, formData, config))) {
+      return new Response(null, {
+        status: 302,
+        headers: { Location: getTwoFactorPageUrl(event, config, 'TwoFactorInvalid') }
+      });
+    }
+
+    twoFactorAttempts.delete(userId);
+    deleteAuthCookie(event, config, 'two-factor');
+
+    const maxAge = config.session.maxAge ?? 30 * 24 * 60 * 60;
+    const session = createSession(pending.user, maxAge);
+    if (pending.account.type === 'oauth') {
+      session.accessToken = pending.account.accessToken;
+      session.refreshToken = pending.account.refreshToken;
+    }
+
+    await setSessionCookie(event.cookies, session, config, {
+      account: pending.account,
+      profile: pending.profile,
+      trigger: pending.trigger,
+      client: getSessionClient(event)
+    });
+
+    const redirectTo = await resolveRedirect(event, config, pending.callbackUrl);
+    return new Response(null, {
+      status: 302,
+      headers: { Location: redirectTo }
+    });
+  } catch (error) {
+    if (config.debug) {
+      console.error('Two-factor verification error:', error);
+    }
+    return Response.json({ error: 'Authentication failed' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /auth/two-factor/setup - Start enrolling an authenticator app
+ *
+ * Replaces any enrollment that was started but not confirmed.
+ */
+export async function handleTwoFactorSetup(
+  event: RequestEvent,
+  config: ResolvedAuthConfig
+): Promise<Response> {
+  const session = event.locals.session as Session | null;
+  if (!session) {
+    return Response.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const twoFactor = getTwoFactorConfig(config);
+    const adapter = getTwoFactorAdapter(config);
+
+    const existing = await adapter.getTwoFactorByUserId(session.user.id);
+    if (existing?.enabledAt) {
+      return Response.json({ error: 'Two-factor authentication is already enabled' }, { status: 409 });
+    }
+    if (existing) {
+      await adapter.deleteTwoFactor(session.user.id);
+    }
+
+    const secret = generateTotpSecret();
+    await adapter.createTwoFactor({
+      userId: session.user.id,
+      secret: await encrypt(secret, config.secret),
+      enabledAt: null,
+      lastUsedStep: null,
+      recoveryCodes: []
+    });
+
+    const uri = createTotpUri({
+      secret,
+      issuer: twoFactor.issuer ?? event.url.host,
+      account: session.user.email ?? session.user.id,
+      digits: twoFactor.digits,
+      period: twoFactor.period
+    });
+
+    return Response.json({ secret, uri });
+  } catch (error) {
+    if (config.debug) {
+      console.error('Two-factor setup error:', error);
+    }
+    return Response.json({ error: 'Two-factor setup failed' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /auth/two-factor/enable - Confirm enrollment with a code
+ *
+ * Returns the recovery codes; they are only shown this once.
+ */
+export async function handleTwoFactorEnable(
+  event: RequestEvent,
+  config: ResolvedAuthConfig
+): Promise<Response> {
+  const session = event.locals.session as Session | null;
+  if (!session) {
+    return Response.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const formData = await event.request.formData();
+  const code = formData.get('code')?.toString().trim() ?? '';
+
+  try {
+    const factor = await getTwoFactorAdapter(config).getTwoFactorByUserId(session.user.id);
+    if (!factor || factor.enabledAt) {
+      return Response.json({ error: 'No two-factor setup in progress' }, { status: 400 });
+    }
+
+    if (!(await useTotpCode(factor, code, config))) {
+      return Response.json({ error: 'Invalid code' }, { status: 400 });
+    }
+
+    const recoveryCodes = await issueRecoveryCodes(factor, config, { enabledAt: new Date() });
+    return Response.json({ recoveryCodes });
+  } catch (error) {
+    if (config.debug) {
+      console.error('Two-factor enable error:', error);
+    }
+    return Response.json({ error: 'Failed to enable two-factor authentication' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /auth/two-factor/disable - Remove the second factor
+ *
+ * Requires a current code or a recovery code.
+ */
+export async function handleTwoFactorDisable(
+  event: RequestEvent,
+  config: ResolvedAuthConfig
+): Promise<Response> {
+  const session = event.locals.session as Session | null;
+  if (!session) {
+    return Response.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const formData = await event.request.formData();
+
+  try {
+    const adapter = getTwoFactorAdapter(config);
+    const factor = await adapter.getTwoFactorByUserId(session.user.id);
+    if (!factor?.enabledAt) {
+      return Response.json({ error: 'Two-factor authentication is not enabled' }, { status: 400 });
+    }
+
+    if (!(await useSecondFactor(factor, formData, config))) {
+      return Response.json({ error: 'Invalid code' }, { status: 400 });
+    }
+
+    await adapter.deleteTwoFactor(session.user.id);
+    return Response.json({ success: true });
+  } catch (error) {
+    if (config.debug) {
+      console.error('Two-factor disable error:', error);
+    }
+    return Response.json({ error: 'Failed to disable two-factor authentication' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /auth/two-factor/recovery-codes - Replace the recovery codes
+ *
+ * Requires a current code. Previously issued recovery codes stop working.
+ */
+export async function handleTwoFactorRecoveryCodes(
+  event: RequestEvent,
+  config: ResolvedAuthConfig
+): Promise<Response> {
+  const session = event.locals.session as Session | null;
+  if (!session) {
+    return Response.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  const formData = await event.request.formData();
+  const code = formData.get('code')?.toString().trim() ?? '';
+
+  try {
+    const factor = await getTwoFactorAdapter(config).getTwoFactorByUserId(session.user.id);
+    if (!factor?.enabledAt) {
+      return Response.json({ error: 'Two-factor authentication is not enabled' }, { status: 400 });
+    }
+
+    if (!(await useTotpCode(factor, code, config))) {
+      return Response.json({ error: 'Invalid code' }, { status: 400 });
+    }
+
+    const recoveryCodes = await issueRecoveryCodes(factor, config);
+    return Response.json({ recoveryCodes });
+  } catch (error) {
+    if (config.debug) {
+      console.error('Recovery code error:', error);
+    }
+    return Response.json({ error: 'Failed to issue recovery codes' }, { status: 500 });
+  }
+}
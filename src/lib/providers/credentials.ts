@@ -4,11 +4,13 @@
 
 import type {
   CredentialsProviderConfig,
+  CredentialsSignUpConfig,
   CredentialInput,
   Credentials as CredentialsType,
   LoginType,
   User
 } from '../types.js';
+import type { HashOptions } from '../utils/password.js';
 
 export type { LoginType };
 
@@ -40,14 +42,37 @@ export interface CredentialsConfig {
 
   /**
    * Authorization function to validate credentials
+   *
+   * When omitted, the login and password are checked against the
+   * credentials accounts stored by the configured adapter.
+   *
    * @param credentials - The login and password from the form
    * @param request - The original request
    * @returns User object if valid, null if invalid
    */
-  authorize: (
+  authorize?: (
     credentials: CredentialsType,
     request: Request
   ) => User | null | Promise<User | null>;
+
+  /**
+   * Reject logins that have not been verified (adapter-backed authorization only)
+   * @default false
+   */
+  requireVerifiedLogin?: boolean;
+
+  /**
+   * Options for hashing passwords. With adapter-backed authorization,
+   * stored hashes made with weaker options are replaced on sign in.
+   */
+  hash?: HashOptions;
+
+  /**
+   * Enable `POST /auth/signup/:provider`, which creates a user and a
+   * credentials account from the login and password fields
+   * @default false
+   */
+  signUp?: boolean | CredentialsSignUpConfig;
 }
 
 // Validation patterns
@@ -113,7 +138,10 @@ function getDefaultCredentials(loginType: LoginType): Record<string, CredentialI
  *
  * @example
  * ```ts
- * // Email-based login (default)
+ * // Check logins against the adapter's credentials accounts
+ * Credentials({ requireVerifiedLogin: true })
+ *
+ * // Email-based login with custom authorization
  * Credentials({
  *   async authorize({ login, password }) {
  *     const account = await db.account.findFirst({
@@ -144,9 +172,20 @@ function getDefaultCredentials(loginType: LoginType): Record<string, CredentialI
  *     const isEmail = login.includes('@');
  *   }
  * })
+ *
+ * // Allow new users to sign up
+ * Credentials({
+ *   signUp: {
+ *     password: { minLength: 12 },
+ *     verification: { sendEmail: async ({ to, url }) => mailer.send(to, url) }
+ *   },
+ *   async authorize({ login, password }) {
+ *     // ...
+ *   }
+ * })
  * ```
  */
-export function Credentials(config: CredentialsConfig): CredentialsProviderConfig {
+export function Credentials(config: CredentialsConfig = {}): CredentialsProviderConfig {
   const loginType = config.loginType ?? 'email';
 
   return {
@@ -155,6 +194,9 @@ export function Credentials(config: CredentialsConfig): CredentialsProviderConfi
     type: 'credentials',
     loginType,
     credentials: config.credentials ?? getDefaultCredentials(loginType),
-    authorize: config.authorize
+    authorize: config.authorize,
+    requireVerifiedLogin: config.requireVerifiedLogin ?? false,
+    hash: config.hash,
+    signUp: config.signUp ? (config.signUp === true ? {} : config.signUp) : undefined
   };
 }
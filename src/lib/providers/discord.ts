@@ -101,6 +101,7 @@ export function Discord(config: DiscordConfig): OAuthProviderConfig<Profile> {
     userinfo: 'https://discord.com/api/users/@me',
     profile: config.profile
       ? (profile, tokens) => config.profile!(profile as DiscordProfile, tokens)
-      : defaultProfile
+      : defaultProfile,
+    emailVerified: (profile) => (profile as DiscordProfile).verified === true
   };
 }
@@ -0,0 +1,92 @@
+/**
+ * Email (magic link) authentication provider
+ */
+
+import type { EmailProviderConfig } from '../types.js';
+
+export interface EmailConfig {
+  /**
+   * Unique identifier for the provider
+   */
+  id?: string;
+
+  /**
+   * Display name for the provider
+   */
+  name?: string;
+
+  /**
+   * How long sign in links are valid in seconds
+   * (default: 24 hours, or 10 minutes for passcodes)
+   */
+  maxAge?: number;
+
+  /**
+   * Send a one-time passcode the user types in instead of a link
+   *
+   * Codes are 6 digits and invalidated after 5 failed attempts
+   * unless configured otherwise.
+   */
+  otp?: boolean | { length?: number; maxAttempts?: number };
+
+  /**
+   * Send the sign in link or passcode to the user
+   */
+  sendVerificationRequest: EmailProviderConfig['sendVerificationRequest'];
+
+  /**
+   * Normalize the email address (default: trim and lowercase)
+   */
+  normalizeIdentifier?: (identifier: string) => string;
+}
+
+/**
+ * Create an email authentication provider
+ *
+ * Users sign in by following a single-use link sent to their email
+ * address. Requires an adapter that stores verification tokens.
+ *
+ * @example
+ * ```ts
+ * Email({
+ *   async sendVerificationRequest({ identifier, url }) {
+ *     await mailer.send({
+ *       to: identifier,
+ *       subject: 'Sign in',
+ *       html: `<a href="${url}">Sign in</a>`
+ *     });
+ *   }
+ * })
+ *
+ * // Passcodes, verified with POST /auth/callback/email-otp
+ * Email({
+ *   otp: { length: 8 },
+ *   async sendVerificationRequest({ identifier, token }) {
+ *     await mailer.send({ to: identifier, subject: 'Your code', text: token });
+ *   }
+ * })
+ * ```
+ */
+export function Email(config: EmailConfig): EmailProviderConfig {
+  const otp = config.otp
+    ? {
+        length: (typeof config.otp === 'object' && config.otp.length) || 6,
+        maxAttempts: (typeof config.otp === 'object' && config.otp.maxAttempts) || 5
+      }
+    : undefined;
+
+  if (otp && (otp.length < 6 || otp.length > 8)) {
+    throw new Error('Email passcodes must be 6 to 8 digits long');
+  }
+
+  return {
+    id: config.id ?? 'email',
+    name: config.name ?? 'Email',
+    type: 'email',
+    maxAge: config.maxAge ?? (otp ? 10 * 60 : 24 * 60 * 60), // 10 minutes or 24 hours
+    otp,
+    sendVerificationRequest: config.sendVerificationRequest,
+    normalizeIdentifier:
+      config.normalizeIdentifier ?? ((identifier) => identifier.trim().toLowerCase())
+  };
+}
@@ -17,6 +17,8 @@ export interface GoogleConfig {
 
   /**
    * OAuth scopes to request (default: 'openid email profile')
+   *
+   * Must include 'openid': sign ins are checked against the ID token.
    */
   scope?: string;
 
@@ -78,6 +80,8 @@ export function Google(config: GoogleConfig): OAuthProviderConfig<Profile> {
     token: 'https://oauth2.googleapis.com/token',
     userinfo: 'https://openidconnect.googleapis.com/v1/userinfo',
     issuer: 'https://accounts.google.com',
+    wellKnown: 'https://accounts.google.com/.well-known/openid-configuration',
+    checks: ['pkce', 'state', 'nonce'],
     profile: config.profile
       ? (profile, tokens) => config.profile!(profile as GoogleProfile, tokens)
       : defaultProfile
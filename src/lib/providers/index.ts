@@ -3,7 +3,10 @@
  */
 
 export { Credentials, validateLogin, type CredentialsConfig, type LoginType } from './credentials.js';
+export { Email, type EmailConfig } from './email.js';
+export { Passkey, type PasskeyConfig } from './passkey.js';
 export { OAuth, type OAuthConfig } from './oauth.js';
+export { OIDC, type OIDCConfig, type OIDCProfile } from './oidc.js';
 export { GitHub, type GitHubConfig } from './github.js';
 export { Google, type GoogleConfig } from './google.js';
 export { Discord, type DiscordConfig } from './discord.js';
@@ -21,19 +21,21 @@ export interface OAuthConfig {
   clientId: string;
 
   /**
-   * OAuth client secret
+   * OAuth client secret (omit for public clients using PKCE)
    */
-  clientSecret: string;
+  clientSecret?: string;
 
   /**
    * Authorization endpoint URL or configuration
+   * (optional when discovered through wellKnown)
    */
-  authorization: string | { url: string; params?: Record<string, string> };
+  authorization?: string | { url: string; params?: Record<string, string> };
 
   /**
    * Token endpoint URL or configuration
+   * (optional when discovered through wellKnown)
    */
-  token: string | { url: string; params?: Record<string, string> };
+  token?: string | { url: string; params?: Record<string, string> };
 
   /**
    * User info endpoint URL or configuration
@@ -51,7 +53,8 @@ export interface OAuthConfig {
   wellKnown?: string;
 
   /**
-   * Security checks to perform
+   * Security checks to perform (default: ['state'])
+   * Add 'pkce' to send an S256 code challenge
    */
   checks?: ('state' | 'pkce' | 'nonce')[];
 
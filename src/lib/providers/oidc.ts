@@ -0,0 +1,114 @@
+/**
+ * Generic OpenID Connect provider
+ */
+
+import type { OAuthProviderConfig, Profile, TokenSet, User } from '../types.js';
+import { getWellKnownUrl } from '../utils/oidc.js';
+
+export interface OIDCConfig {
+  /**
+   * Unique identifier for the provider
+   */
+  id: string;
+
+  /**
+   * Display name for the provider
+   */
+  name: string;
+
+  /**
+   * Issuer URL (e.g. 'https://auth.example.com/realms/main')
+   */
+  issuer: string;
+
+  /**
+   * Well-known configuration URL
+   * (default: `${issuer}/.well-known/openid-configuration`)
+   */
+  wellKnown?: string;
+
+  /**
+   * OAuth client ID
+   */
+  clientId: string;
+
+  /**
+   * OAuth client secret (omit for public clients)
+   */
+  clientSecret?: string;
+
+  /**
+   * OAuth scopes to request (default: 'openid email profile')
+   */
+  scope?: string;
+
+  /**
+   * Security checks to perform (default: ['pkce', 'state', 'nonce'])
+   */
+  checks?: ('state' | 'pkce' | 'nonce')[];
+
+  /**
+   * Custom profile transformer
+   * Receives the validated ID token claims merged with the userinfo response
+   */
+  profile?: (profile: OIDCProfile, tokens: TokenSet) => User | Promise<User>;
+}
+
+export interface OIDCProfile extends Profile {
+  sub: string;
+  name?: string;
+  preferred_username?: string;
+  email?: string;
+  email_verified?: boolean;
+  picture?: string;
+}
+
+/**
+ * Create an OpenID Connect provider
+ *
+ * Endpoints are discovered from the issuer, and the ID token signature,
+ * issuer, audience, expiry and nonce are validated on sign in.
+ *
+ * @example
+ * ```ts
+ * OIDC({
+ *   id: 'keycloak',
+ *   name: 'Keycloak',
+ *   issuer: 'https://keycloak.example.com/realms/main',
+ *   clientId: process.env.KEYCLOAK_CLIENT_ID,
+ *   clientSecret: process.env.KEYCLOAK_CLIENT_SECRET
+ * })
+ * ```
+ */
+export function OIDC(config: OIDCConfig): OAuthProviderConfig<Profile> {
+  const scope = config.scope ?? 'openid email profile';
+
+  const defaultProfile = (profile: Profile) => {
+    const oidcProfile = profile as OIDCProfile;
+    return {
+      id: oidcProfile.sub,
+      name: oidcProfile.name ?? oidcProfile.preferred_username ?? null,
+      email: oidcProfile.email ?? null,
+      image: oidcProfile.picture ?? null
+    };
+  };
+
+  return {
+    id: config.id,
+    name: config.name,
+    type: 'oauth',
+    clientId: config.clientId,
+    clientSecret: config.clientSecret,
+    authorization: {
+      // Discovered through wellKnown
+      url: '',
+      params: { scope }
+    },
+    issuer: config.issuer,
+    wellKnown: config.wellKnown ?? getWellKnownUrl(config.issuer),
+    checks: config.checks ?? ['pkce', 'state', 'nonce'],
+    profile: config.profile
+      ? (profile, tokens) => config.profile!(profile as OIDCProfile, tokens)
+      : defaultProfile
+  };
+}
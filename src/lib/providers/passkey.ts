@@ -0,0 +1,70 @@
+/**
+ * Passkey (WebAuthn) authentication provider
+ */
+
+import type { PasskeyProviderConfig } from '../types.js';
+
+export interface PasskeyConfig {
+  /**
+   * Unique identifier for the provider
+   */
+  id?: string;
+
+  /**
+   * Display name for the provider
+   */
+  name?: string;
+
+  /**
+   * Relying party name shown by the browser (default: the request host)
+   */
+  rpName?: string;
+
+  /**
+   * Relying party ID, usually your domain (default: the request hostname)
+   */
+  rpId?: string;
+
+  /**
+   * Origins passkeys may be used from (default: the request origin)
+   */
+  origin?: string | string[];
+
+  /**
+   * How long the browser waits for the user in milliseconds (default: 5 minutes)
+   */
+  timeout?: number;
+
+  /**
+   * Whether the authenticator must verify the user (default: 'preferred')
+   *
+   * Sign ins where the user was not verified are held for the second
+   * factor when two-factor authentication is enabled.
+   */
+  userVerification?: 'required' | 'preferred' | 'discouraged';
+}
+
+/**
+ * Create a passkey authentication provider
+ *
+ * Signed in users register passkeys, then sign in with them using
+ * `registerPasskey()` and `signInWithPasskey()` from the client.
+ * Requires an adapter that stores authenticators.
+ *
+ * @example
+ * ```ts
+ * Passkey({ rpName: 'My App', rpId: 'example.com' })
+ * ```
+ */
+export function Passkey(config: PasskeyConfig = {}): PasskeyProviderConfig {
+  return {
+    id: config.id ?? 'passkey',
+    name: config.name ?? 'Passkey',
+    type: 'passkey',
+    rpName: config.rpName,
+    rpId: config.rpId,
+    origin: config.origin,
+    timeout: config.timeout ?? 5 * 60 * 1000, // 5 minutes
+    userVerification: config.userVerification ?? 'preferred'
+  };
+}
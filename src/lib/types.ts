@@ -1,4 +1,7 @@
 import type { Cookies, RequestEvent } from '@sveltejs/kit';
+import type { VerificationConfig } from './flows/verification.js';
+import type { PasswordPolicy } from './flows/password-reset.js';
+import type { HashOptions } from './utils/password.js';
 
 /**
  * Represents a user in the authentication system
@@ -38,7 +41,7 @@ export interface SessionData {
 export interface Account {
   provider: string;
   providerAccountId?: string;
-  type: 'oauth' | 'credentials' | 'email';
+  type: 'oauth' | 'credentials' | 'email' | 'passkey';
   accessToken?: string;
   refreshToken?: string;
   expiresAt?: number;
@@ -84,7 +87,7 @@ export interface CookieConfig {
 export interface ProviderConfig {
   id: string;
   name: string;
-  type: 'oauth' | 'credentials' | 'email';
+  type: 'oauth' | 'credentials' | 'email' | 'passkey';
 }
 
 /**
@@ -93,14 +96,27 @@ export interface ProviderConfig {
 export interface OAuthProviderConfig<P extends Profile = Profile> extends ProviderConfig {
   type: 'oauth';
   clientId: string;
-  clientSecret: string;
-  authorization: string | { url: string; params?: Record<string, string> };
-  token: string | { url: string; params?: Record<string, string> };
+  clientSecret?: string;
+  /**
+   * Authorization, token and userinfo endpoints may be omitted
+   * when they can be discovered through `wellKnown`
+   */
+  authorization?: string | { url: string; params?: Record<string, string> };
+  token?: string | { url: string; params?: Record<string, string> };
   userinfo?: string | { url: string };
   issuer?: string;
+  /**
+   * OpenID Connect discovery URL; enables ID token validation
+   */
   wellKnown?: string;
   checks?: ('state' | 'pkce' | 'nonce')[];
   profile?: (profile: P, tokens: TokenSet) => User | Promise<User>;
+  /**
+   * Whether the provider vouches for the profile's email, allowing the
+   * account to be linked to an existing user with that email
+   * (default: the OpenID Connect `email_verified` claim)
+   */
+  emailVerified?: (profile: P) => boolean;
 }
 
 /**
@@ -115,10 +131,116 @@ export interface CredentialsProviderConfig extends ProviderConfig {
   type: 'credentials';
   loginType: LoginType;
   credentials: Record<string, CredentialInput>;
-  authorize: (
+  /**
+   * Custom authorization; when omitted, logins are checked against
+   * credentials accounts stored by the adapter
+   */
+  authorize?: (
     credentials: Credentials,
     request: Request
   ) => User | null | Promise<User | null>;
+  /**
+   * Reject adapter-backed logins that have not been verified
+   */
+  requireVerifiedLogin: boolean;
+  /**
+   * Options for hashing passwords; stored hashes that do not match
+   * are rehashed on sign in
+   */
+  hash?: HashOptions;
+  /**
+   * Sign up settings, or undefined when sign up is disabled
+   */
+  signUp?: CredentialsSignUpConfig;
+}
+
+/**
+ * Sign up settings for the credentials provider
+ */
+export interface CredentialsSignUpConfig {
+  /**
+   * Password strength requirements (default: `validatePassword` defaults)
+   */
+  password?: PasswordPolicy;
+
+  /**
+   * Options for hashing new passwords (default: the provider's `hash` options)
+   */
+  hash?: HashOptions;
+
+  /**
+   * Send a verification email to new users who sign up with an email address
+   */
+  verification?: VerificationConfig;
+}
+
+/**
+ * Email (magic link) provider configuration
+ */
+export interface EmailProviderConfig extends ProviderConfig {
+  type: 'email';
+  /**
+   * How long sign in links are valid (in seconds)
+   */
+  maxAge: number;
+  /**
+   * Send one-time passcodes instead of links
+   */
+  otp?: {
+    /**
+     * Number of digits in the code
+     */
+    length: number;
+    /**
+     * Failed attempts allowed per email address before the code is invalidated
+     */
+    maxAttempts: number;
+  };
+  /**
+   * Send the sign in link (or passcode, in OTP mode) to the user
+   *
+   * In OTP mode `token` is the passcode and `url` is the page
+   * where it is entered.
+   */
+  sendVerificationRequest: (params: {
+    identifier: string;
+    url: string;
+    token: string;
+    expires: Date;
+    provider: EmailProviderConfig;
+    request: Request;
+  }) => Promise<void>;
+  /**
+   * Normalize the email address before it is used as an identifier
+   */
+  normalizeIdentifier?: (identifier: string) => string;
+}
+
+/**
+ * Passkey (WebAuthn) provider configuration
+ */
+export interface PasskeyProviderConfig extends ProviderConfig {
+  type: 'passkey';
+  /**
+   * Relying party name shown by the browser (default: the request host)
+   */
+  rpName?: string;
+  /**
+   * Relying party ID (default: the request hostname)
+   */
+  rpId?: string;
+  /**
+   * Origins passkeys may be used from (default: the request origin)
+   */
+  origin?: string | string[];
+  /**
+   * How long the browser waits for the user (in milliseconds)
+   */
+  timeout: number;
+  /**
+   * Whether the authenticator must verify the user (PIN, biometrics)
+   */
+  userVerification: 'required' | 'preferred' | 'discouraged';
 }
 
 /**
@@ -150,7 +272,7 @@ export interface TokenSet {
 export interface AuthProvider {
   id: string;
   name: string;
-  type: 'oauth' | 'credentials' | 'email';
+  type: 'oauth' | 'credentials' | 'email' | 'passkey';
 }
 
 /**
@@ -176,12 +298,34 @@ export interface CredentialsProvider extends AuthProvider {
   ) => User | null | Promise<User | null>;
 }
 
+/**
+ * Error codes passed to the error page in the `error` query parameter
+ */
+export type AuthErrorCode =
+  | 'CredentialsSignin'
+  | 'AccessDenied'
+  | 'OAuthAccountNotLinked'
+  | 'MissingCSRF'
+  | 'Verification'
+  | 'TwoFactorInvalid'
+  | 'PasskeyVerification'
+  | 'AccountLocked'
+  | 'AccountAlreadyLinked';
+
 /**
  * Callback functions for authentication events
  */
 export interface AuthCallbacks {
   /**
    * Called when a JWT is created or updated
+   *
+   * `user`, `account` and `profile` are only passed when the token is
+   * first issued. The returned token is signed into the session cookie
+   * and must keep the `user` claim.
+   *
+   * With `trigger: 'update'`, `session` is the patch sent by the client to
+   * `POST /auth/session`. It is not trusted; copy only the fields the user
+   * may change, or reload them from your database.
    */
   jwt?: (params: {
     token: Record<string, unknown>;
@@ -189,10 +333,13 @@ export interface AuthCallbacks {
     account?: Account;
     profile?: Profile;
     trigger?: 'signIn' | 'signUp' | 'update';
+    session?: Record<string, unknown>;
   }) => Record<string, unknown> | Promise<Record<string, unknown>>;
 
   /**
-   * Called when a session is created
+   * Called whenever a session is read
+   *
+   * `token` is the decoded JWT payload (empty for database sessions).
    */
   session?: (params: {
     session: Session;
@@ -211,6 +358,9 @@ export interface AuthCallbacks {
 
   /**
    * Called when a redirect is needed
+   *
+   * The result is still restricted to the current origin and
+   * `allowedRedirectOrigins`.
    */
   redirect?: (params: {
     url: string;
@@ -218,6 +368,46 @@ export interface AuthCallbacks {
   }) => string | Promise<string>;
 }
 
+/**
+ * A signing secret with an optional key ID
+ */
+export interface SecretKey {
+  /**
+   * Key ID written to token headers, used to pick the key when verifying
+   */
+  kid?: string;
+
+  /**
+   * The secret value
+   */
+  secret: string;
+}
+
+/**
+ * Asymmetric JWT signing algorithms
+ */
+export type SigningAlgorithm = 'RS256' | 'ES256' | 'EdDSA';
+
+/**
+ * A private key used to sign session JWTs
+ */
+export interface SigningKey {
+  /**
+   * Signing algorithm (EdDSA uses Ed25519 keys)
+   */
+  alg: SigningAlgorithm;
+
+  /**
+   * Private key as a JWK or a PKCS#8 PEM string
+   */
+  privateKey: JsonWebKey | string;
+
+  /**
+   * Key ID (default: the JWK thumbprint of the public key)
+   */
+  kid?: string;
+}
+
 /**
  * Main authentication configuration
  */
@@ -225,12 +415,30 @@ export interface AuthConfig {
   /**
    * Authentication providers
    */
-  providers: (OAuthProviderConfig<Profile> | CredentialsProviderConfig)[];
+  providers: (
+    | OAuthProviderConfig<Profile>
+    | CredentialsProviderConfig
+    | EmailProviderConfig
+    | PasskeyProviderConfig
+  )[];
 
   /**
    * Secret used to sign tokens and encrypt data
+   *
+   * Pass a list to rotate secrets: the first one signs new tokens
+   * and all of them are accepted when verifying. Tokens signed with
+   * an older secret are re-issued with the first one.
    */
-  secret: string;
+  secret: string | (string | SecretKey)[];
+
+  /**
+   * Private keys to sign session JWTs with instead of the secret
+   *
+   * The first key signs new tokens; the public keys of all of them
+   * are published at `${basePath}/jwks` so other services can verify
+   * sessions without the secret. Ignored when `session.encrypt` is set.
+   */
+  signingKeys?: SigningKey[];
 
   /**
    * Database adapter for persisting users, accounts, and sessions
@@ -243,6 +451,9 @@ export interface AuthConfig {
   session?: {
     /**
      * Session strategy: 'jwt' or 'database'
+     *
+     * The 'database' strategy stores an opaque token in the cookie and
+     * requires an adapter implementing the session methods.
      */
     strategy?: 'jwt' | 'database';
 
@@ -255,6 +466,20 @@ export interface AuthConfig {
      * Update session age on activity (default: 24 hours)
      */
     updateAge?: number;
+
+    /**
+     * Encrypt JWT session tokens (compact JWE, 'dir' + A256GCM) so their
+     * contents cannot be read from the cookie (default: false).
+     * Signed tokens issued before enabling this are still accepted.
+     */
+    encrypt?: boolean;
+
+    /**
+     * Check JWT sessions against the user's session version, so
+     * `revokeAllSessions` signs the user out everywhere (default: false).
+     * Requires an adapter implementing the session version methods.
+     */
+    revocation?: boolean;
   };
 
   /**
@@ -271,6 +496,7 @@ export interface AuthConfig {
     error?: string;
     verifyRequest?: string;
     newUser?: string;
+    twoFactor?: string;
   };
 
   /**
@@ -292,16 +518,289 @@ export interface AuthConfig {
    * Base path for auth routes (default: '/auth')
    */
   basePath?: string;
+
+  /**
+   * Origins other than the current one that post-auth redirects may
+   * target (e.g. ['https://app.example.com']). Default: same origin only
+   */
+  allowedRedirectOrigins?: string[];
+
+  /**
+   * Link OAuth accounts to an existing user with the same email even
+   * when the provider does not vouch for the email (default: false).
+   * Otherwise such sign ins fail with 'OAuthAccountNotLinked' and the
+   * user must link the account from `GET /auth/link/:provider`.
+   */
+  autoLinkAccount?: boolean;
+
+  /**
+   * Enable TOTP two-factor authentication
+   *
+   * Users who have enrolled a factor must enter a code (or a recovery
+   * code) after signing in before a session is issued.
+   */
+  twoFactor?: TwoFactorConfig;
+
+  /**
+   * Lock out credentials sign in after repeated failures, per login and
+   * optionally per client IP. Off by default; pass `true` for the defaults.
+   */
+  lockout?: LockoutConfig | boolean;
+
+  /**
+   * Throttle requests to the auth routes per client IP, and email sending
+   * per address. Off by default; pass `true` for the defaults.
+   *
+   * Per-IP rules need `event.getClientAddress()` to report the real client
+   * address, or every user behind a proxy shares one limit.
+   */
+  rateLimit?: RateLimitConfig | boolean;
+}
+
+/**
+ * A number of requests allowed within a sliding window
+ */
+export interface RateLimitRule {
+  limit: number;
+  /**
+   * Window length in seconds
+   */
+  window: number;
+}
+
+/**
+ * Rate limiting for the auth routes
+ */
+export interface RateLimitConfig {
+  /**
+   * Where requests are counted (default: in memory, per server process)
+   */
+  store?: RateLimitStore;
+
+  /**
+   * Rule for routes without their own, per client IP (default: 120 per minute)
+   */
+  default?: RateLimitRule | false;
+
+  /**
+   * Rules per client IP by method and path below `basePath`, e.g.
+   * `'POST /signin'`. A path also covers the paths below it, and the most
+   * specific match wins. Merged over the defaults for 'POST /signin',
+   * 'POST /signup', 'POST /callback' and 'POST /two-factor'.
+   */
+  routes?: Record<string, RateLimitRule | false>;
+
+  /**
+   * Rule per email address for routes that send email, such as email
+   * sign in and sign up (default: 5 per 15 minutes)
+   */
+  perIdentifier?: RateLimitRule | false;
+}
+
+/**
+ * Recent requests counted under one key
+ */
+export interface RateLimitBucket {
+  /**
+   * What is being counted, e.g. 'ip:POST /signin:203.0.113.7'
+   */
+  key: string;
+  /**
+   * Times of the requests within the window, in milliseconds, oldest first
+   */
+  hits: number[];
+  /**
+   * When the bucket can be forgotten
+   */
+  expiresAt: Date;
+}
+
+/**
+ * Storage for rate limit buckets
+ *
+ * Use `createMemoryRateLimitStore()` for a single server process, or
+ * `createAdapterRateLimitStore(adapter)` to share counts through the database.
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitBucket | null>;
+  set(bucket: RateLimitBucket): Promise<void>;
+}
+
+/**
+ * Failed sign in tracking for credentials providers
+ */
+export interface LockoutConfig {
+  /**
+   * Where failures are counted (default: in memory, per server process)
+   */
+  store?: AttemptStore;
+
+  /**
+   * Failures allowed per login before it is locked (default: 5)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Failures allowed per client IP before it is locked, or 0 to count by
+   * login only (default: 0)
+   *
+   * Only set this when `event.getClientAddress()` reports the real client
+   * address. Behind a proxy every user shares one address and would be
+   * locked out together.
+   */
+  maxAttemptsPerIp?: number;
+
+  /**
+   * Seconds of the first lockout, doubled for each further failure (default: 60)
+   */
+  lockoutDuration?: number;
+
+  /**
+   * Longest lockout in seconds (default: 1 hour)
+   */
+  maxLockoutDuration?: number;
+
+  /**
+   * Seconds after the last failure before the count starts over (default: 15 minutes)
+   */
+  attemptWindow?: number;
+}
+
+/**
+ * Failed sign in attempts recorded for a login or client IP
+ */
+export interface LoginAttempt {
+  /**
+   * What is being counted, e.g. 'login:credentials:user@example.com' or 'ip:203.0.113.7'
+   */
+  key: string;
+  count: number;
+  /**
+   * Sign in is refused until this time
+   */
+  lockedUntil: Date | null;
+  /**
+   * When the record can be forgotten
+   */
+  expiresAt: Date;
+}
+
+/**
+ * Storage for failed sign in attempts
+ *
+ * Use `createMemoryAttemptStore()` for a single server process, or
+ * `createAdapterAttemptStore(adapter)` to share counts through the database.
+ */
+export interface AttemptStore {
+  get(key: string): Promise<LoginAttempt | null>;
+  set(attempt: LoginAttempt): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Two-factor authentication configuration
+ */
+export interface TwoFactorConfig {
+  /**
+   * Issuer name shown in authenticator apps (default: the request host)
+   */
+  issuer?: string;
+
+  /**
+   * Number of digits in a code (default: 6)
+   */
+  digits?: number;
+
+  /**
+   * Time step in seconds (default: 30)
+   */
+  period?: number;
+
+  /**
+   * Time steps of clock skew accepted either side of now (default: 1)
+   */
+  window?: number;
+
+  /**
+   * Number of recovery codes issued on enrollment (default: 10)
+   */
+  recoveryCodes?: number;
+
+  /**
+   * How long a sign in waits for the second factor in seconds (default: 5 minutes)
+   */
+  maxAge?: number;
+
+  /**
+   * Failed codes allowed per user before the pending sign in is dropped (default: 5)
+   */
+  maxAttempts?: number;
 }
 
 /**
  * Resolved authentication configuration with defaults applied
  */
-export interface ResolvedAuthConfig extends Required<Omit<AuthConfig, 'callbacks' | 'pages' | 'cookies' | 'adapter'>> {
+export interface ResolvedAuthConfig extends Required<Omit<AuthConfig, 'secret' | 'session' | 'callbacks' | 'pages' | 'cookies' | 'adapter' | 'twoFactor' | 'lockout' | 'rateLimit'>> {
+  /**
+   * The primary secret, used to sign and encrypt
+   */
+  secret: string;
+  /**
+   * All active secrets, primary first
+   */
+  secrets: SecretKey[];
+  session: Required<NonNullable<AuthConfig['session']>>;
   callbacks: AuthCallbacks;
   pages: NonNullable<AuthConfig['pages']>;
   cookies: CookieConfig;
   adapter?: Adapter | PartialAdapter;
+  /**
+   * Two-factor settings, or undefined when two-factor authentication is off
+   */
+  twoFactor?: Required<Omit<TwoFactorConfig, 'issuer'>> & Pick<TwoFactorConfig, 'issuer'>;
+  /**
+   * Lockout settings, or undefined when lockout is off
+   */
+  lockout?: Required<LockoutConfig>;
+  /**
+   * Rate limit settings, or undefined when rate limiting is off
+   */
+  rateLimit?: Required<RateLimitConfig>;
+}
+
+/**
+ * Account linked to a user, without its tokens or password hash
+ */
+export interface LinkedAccount {
+  provider: string;
+  providerAccountId?: string;
+  type: AdapterAccount['type'];
+  login: string;
+  createdAt: Date;
+}
+
+/**
+ * Database session of a user, without its token
+ */
+export interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date | null;
+  expires: Date;
+  /**
+   * Whether this is the session of the current request
+   */
+  current: boolean;
+}
+
+/**
+ * Result of unlinking a provider from a user
+ */
+export interface UnlinkAccountResult {
+  success: boolean;
+  error?: string;
 }
 
 /**
@@ -330,6 +829,45 @@ export interface AuthContext {
    * Sign out the current user
    */
   signOut: (options?: { redirectTo?: string; redirect?: boolean }) => Promise<Response | void>;
+
+  /**
+   * Get a valid access token for an OAuth provider linked to the
+   * current user, refreshing it if it has expired
+   */
+  getAccessToken: (provider: string) => Promise<string | null>;
+
+  /**
+   * Sign a user out of every session
+   *
+   * Database sessions are deleted. JWT sessions require
+   * `session.revocation` and are checked against the stored version, so
+   * other servers may accept them for a few seconds.
+   */
+  revokeAllSessions: (userId: string) => Promise<void>;
+
+  /**
+   * List the accounts linked to the current user
+   */
+  listAccounts: () => Promise<LinkedAccount[]>;
+
+  /**
+   * Unlink a provider's accounts from the current user
+   *
+   * Refused if it would leave the user without a way to sign in.
+   */
+  unlinkAccount: (provider: string) => Promise<UnlinkAccountResult>;
+
+  /**
+   * List the current user's database sessions
+   */
+  listSessions: () => Promise<ActiveSession[]>;
+
+  /**
+   * Sign out one of the current user's database sessions
+   *
+   * @returns false if the user has no session with that ID
+   */
+  revokeSession: (id: string) => Promise<boolean>;
 }
 
 /**
@@ -407,7 +945,11 @@ export interface AdapterAccount {
   type: 'oauth' | 'credentials' | 'email';
   accessToken?: string;
   refreshToken?: string;
-  expiresAt?: number;
+  /**
+   * Access token expiry in seconds since the epoch, or null if the
+   * provider did not say
+   */
+  expiresAt?: number | null;
   tokenType?: string;
   scope?: string;
   idToken?: string;
@@ -424,10 +966,74 @@ export interface AdapterSession {
   userId: string;
   sessionToken: string;
   expires: Date;
+  /**
+   * User-Agent header of the request that signed in
+   */
+  userAgent?: string | null;
+  /**
+   * Client IP of the request that signed in
+   */
+  ipAddress?: string | null;
+  /**
+   * When the session was last used, updated at most every few minutes
+   */
+  lastSeenAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Two-factor (TOTP) factor model for database adapters
+ */
+export interface AdapterTwoFactor {
+  id: string;
+  userId: string;
+  /**
+   * TOTP secret, encrypted with the auth secret
+   */
+  secret: string;
+  /**
+   * When enrollment was confirmed (null while enrolling)
+   */
+  enabledAt: Date | null;
+  /**
+   * Time step of the last accepted code, to prevent replays
+   */
+  lastUsedStep: number | null;
+  /**
+   * SHA-256 hashes of the unused recovery codes
+   */
+  recoveryCodes: string[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Passkey (WebAuthn credential) model for database adapters
+ */
+export interface AdapterAuthenticator {
+  id: string;
+  userId: string;
+  /**
+   * Credential ID (base64url)
+   */
+  credentialId: string;
+  /**
+   * COSE-encoded public key (base64url)
+   */
+  publicKey: string;
+  /**
+   * Signature counter from the last successful authentication
+   */
+  counter: number;
+  /**
+   * Transports the authenticator reported (e.g. 'internal', 'usb')
+   */
+  transports: string[];
+  createdAt: Date;
+  lastUsedAt: Date | null;
+}
+
 /**
  * Verification token model for database adapters
  * Used for email verification, password reset, etc.
@@ -519,6 +1125,11 @@ export interface Adapter {
     login: string
   ): Promise<AdapterAccount | null>;
 
+  /**
+   * Get all accounts linked to a user
+   */
+  getAccountsByUserId?(userId: string): Promise<AdapterAccount[]>;
+
   /**
    * Update an account
    */
@@ -556,17 +1167,141 @@ export interface Adapter {
    */
   deleteSession(sessionToken: string): Promise<void>;
 
+  /**
+   * Get all sessions of a user
+   */
+  listSessionsForUser?(userId: string): Promise<AdapterSession[]>;
+
+  /**
+   * Delete all sessions of a user
+   */
+  deleteSessionsForUser?(userId: string): Promise<void>;
+
+  /**
+   * Get a user's session version (0 if it was never incremented)
+   */
+  getSessionVersion?(userId: string): Promise<number>;
+
+  /**
+   * Increment a user's session version, revoking the JWT sessions issued
+   * before it
+   *
+   * @returns The new version
+   */
+  incrementSessionVersion?(userId: string): Promise<number>;
+
+  // -------------------------------------------------------------------------
+  // Two-Factor Methods
+  // -------------------------------------------------------------------------
+
+  /**
+   * Create a two-factor factor for a user
+   */
+  createTwoFactor?(
+    factor: Omit<AdapterTwoFactor, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<AdapterTwoFactor>;
+
+  /**
+   * Get a user's two-factor factor
+   */
+  getTwoFactorByUserId?(userId: string): Promise<AdapterTwoFactor | null>;
+
+  /**
+   * Update a two-factor factor
+   *
+   * When `expected` is given, the update is only made if the stored
+   * fields still equal it, so a code cannot be used by two requests at
+   * once. Returns null if the factor was not updated.
+   */
+  updateTwoFactor?(
+    id: string,
+    data: Partial<Pick<AdapterTwoFactor, 'enabledAt' | 'lastUsedStep' | 'recoveryCodes'>>,
+    expected?: Partial<Pick<AdapterTwoFactor, 'lastUsedStep' | 'recoveryCodes'>>
+  ): Promise<AdapterTwoFactor | null>;
+
+  /**
+   * Delete a user's two-factor factor
+   */
+  deleteTwoFactor?(userId: string): Promise<void>;
+
+  // -------------------------------------------------------------------------
+  // Authenticator (Passkey) Methods
+  // -------------------------------------------------------------------------
+
+  /**
+   * Store a registered passkey
+   */
+  createAuthenticator?(
+    authenticator: Omit<AdapterAuthenticator, 'id' | 'createdAt' | 'lastUsedAt'>
+  ): Promise<AdapterAuthenticator>;
+
+  /**
+   * Get a passkey by credential ID
+   */
+  getAuthenticator?(credentialId: string): Promise<AdapterAuthenticator | null>;
+
+  /**
+   * Get all passkeys registered by a user
+   */
+  getAuthenticatorsByUserId?(userId: string): Promise<AdapterAuthenticator[]>;
+
+  /**
+   * Store a passkey's new signature counter after it was used
+   */
+  updateAuthenticatorCounter?(
+    credentialId: string,
+    counter: number
+  ): Promise<AdapterAuthenticator | null>;
+
+  // -------------------------------------------------------------------------
+  // Login Attempt Methods
+  // -------------------------------------------------------------------------
+
+  /**
+   * Get the failed sign in attempts recorded for a key
+   */
+  getLoginAttempt?(key: string): Promise<LoginAttempt | null>;
+
+  /**
+   * Create or replace the failed sign in attempts for a key
+   */
+  setLoginAttempt?(attempt: LoginAttempt): Promise<LoginAttempt>;
+
+  /**
+   * Forget the failed sign in attempts for a key
+   */
+  deleteLoginAttempt?(key: string): Promise<void>;
+
+  // -------------------------------------------------------------------------
+  // Rate Limit Methods
+  // -------------------------------------------------------------------------
+
+  /**
+   * Get the rate limit bucket for a key
+   */
+  getRateLimit?(key: string): Promise<RateLimitBucket | null>;
+
+  /**
+   * Create or replace the rate limit bucket for a key
+   */
+  setRateLimit?(bucket: RateLimitBucket): Promise<RateLimitBucket>;
+
   // -------------------------------------------------------------------------
   // Verification Token Methods
   // -------------------------------------------------------------------------
 
   /**
    * Create a verification token
+   *
+   * Built-in adapters store a SHA-256 hash of the token, so a database
+   * read does not reveal live links.
    */
   createVerificationToken(token: VerificationToken): Promise<VerificationToken>;
 
   /**
    * Use (get and delete) a verification token
+   *
+   * Built-in adapters look the token up by its hash.
    */
   useVerificationToken(params: {
     identifier: string;
@@ -598,6 +1333,19 @@ export interface AdapterConfig {
   /**
    * Whether to automatically link accounts with the same email
    * Default: false (for security - user must verify)
+   *
+   * @deprecated Not read; set `autoLinkAccount` on the auth config instead
    */
   autoLinkAccount?: boolean;
 }
+
+/**
+ * Options for the built-in adapters
+ */
+export interface AdapterOptions {
+  /**
+   * Also accept verification tokens stored in plaintext by earlier
+   * versions, until they have all expired (default: false)
+   */
+  allowPlaintextTokens?: boolean;
+}
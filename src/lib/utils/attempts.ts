@@ -0,0 +1,125 @@
+/**
+ * Stores for failed sign in attempts
+ */
+
+import type { Adapter, AttemptStore, LoginAttempt } from '../types.js';
+
+/**
+ * Records kept by a memory store before expired ones are swept
+ */
+const MEMORY_SWEEP_SIZE = 10_000;
+
+/**
+ * Adapter methods required to store attempts in the database
+ */
+export type AttemptAdapter = Required<
+  Pick<Adapter, 'getLoginAttempt' | 'setLoginAttempt' | 'deleteLoginAttempt'>
+>;
+
+const attemptAdapterMethods: (keyof AttemptAdapter)[] = [
+  'getLoginAttempt',
+  'setLoginAttempt',
+  'deleteLoginAttempt'
+];
+
+/**
+ * Key attempts for a login are counted under
+ *
+ * Logins are compared case-insensitively so that changing case does not
+ * start a fresh count.
+ */
+export function getLoginAttemptKey(provider: string, login: string): string {
+  return `login:${provider}:${login.trim().toLowerCase()}`;
+}
+
+/**
+ * Key attempts from a client IP are counted under
+ */
+export function getIpAttemptKey(ip: string): string {
+  return `ip:${ip}`;
+}
+
+/**
+ * Create a store that keeps attempts in memory
+ *
+ * Counts are per server process and lost on restart; use
+ * `createAdapterAttemptStore` when running several instances.
+ */
+export function createMemoryAttemptStore(): AttemptStore {
+  const attempts = new Map<string, LoginAttempt>();
+
+  function sweep(): void {
+    const now = Date.now();
+    for (const [key, attempt] of attempts) {
+      if (attempt.expiresAt.getTime() <= now) {
+        attempts.delete(key);
+      }
+    }
+  }
+
+  return {
+    async get(key) {
+      const attempt = attempts.get(key);
+      if (attempt && attempt.expiresAt.getTime() <= Date.now()) {
+        attempts.delete(key);
+        return null;
+      }
+      return attempt ?? null;
+    },
+
+    async set(attempt) {
+      if (attempts.size >= MEMORY_SWEEP_SIZE) {
+        sweep();
+      }
+      attempts.set(attempt.key, attempt);
+    },
+
+    async delete(key) {
+      attempts.delete(key);
+    }
+  };
+}
+
+/**
+ * Create a store that keeps attempts through the adapter
+ *
+ * @throws if the adapter does not implement the login attempt methods
+ */
+export function createAdapterAttemptStore(adapter: Adapter): AttemptStore {
+  const missing = attemptAdapterMethods.filter(
+    (method) => typeof adapter[method] !== 'function'
+  );
+
+  if (missing.length > 0) {
+    throw new Error(`Adapter attempt stores require an adapter implementing: ${missing.join(', ')}`);
+  }
+
+  const attemptAdapter = adapter as AttemptAdapter;
+
+  return {
+    async get(key) {
+      const attempt = await attemptAdapter.getLoginAttempt(key);
+      if (attempt && attempt.expiresAt.getTime() <= Date.now()) {
+        await attemptAdapter.deleteLoginAttempt(key);
+        return null;
+      }
+      return attempt;
+    },
+
+    async set(attempt) {
+      await attemptAdapter.setLoginAttempt(attempt);
+    },
+
+    async delete(key) {
+      await attemptAdapter.deleteLoginAttempt(key);
+    }
+  };
+}
+
+/**
+ * Store used when lockout is configured without one
+ *
+ * Shared by every auth instance in the process, so password resets can
+ * clear lockouts without a reference to the config.
+ */
+export const defaultAttemptStore: AttemptStore = createMemoryAttemptStore();
@@ -0,0 +1,155 @@
+/**
+ * Minimal CBOR decoder (RFC 8949) for WebAuthn attestation objects and COSE keys
+ */
+
+const decoder = new TextDecoder();
+
+/**
+ * A decoded CBOR item and the number of bytes it occupied
+ */
+export interface CborItem {
+  value: unknown;
+  length: number;
+}
+
+/**
+ * Read an unsigned integer argument of the given additional info
+ */
+function readArgument(data: DataView, offset: number, info: number): { value: number; size: number } {
+  if (info < 24) {
+    return { value: info, size: 0 };
+  }
+
+  switch (info) {
+    case 24:
+      return { value: data.getUint8(offset), size: 1 };
+    case 25:
+      return { value: data.getUint16(offset), size: 2 };
+    case 26:
+      return { value: data.getUint32(offset), size: 4 };
+    case 27: {
+      const value = data.getBigUint64(offset);
+      if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+        throw new Error('CBOR integer too large');
+      }
+      return { value: Number(value), size: 8 };
+    }
+    default:
+      // Indefinite lengths are not used by WebAuthn's canonical encoding
+      throw new Error('Unsupported CBOR length encoding');
+  }
+}
+
+/**
+ * Decode a half-precision float
+ */
+function decodeFloat16(bits: number): number {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+
+  if (exponent === 0) {
+    return sign * 2 ** -14 * (fraction / 1024);
+  }
+  if (exponent === 0x1f) {
+    return fraction ? NaN : sign * Infinity;
+  }
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+/**
+ * Decode the CBOR item starting at `offset`
+ *
+ * Maps are returned as `Map` instances because COSE keys use integer
+ * labels. Tags are dropped and their content returned.
+ */
+export function decodeCborItem(bytes: Uint8Array, offset: number = 0): CborItem {
+  const data = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let position = offset;
+
+  function read(): unknown {
+    const initial = data.getUint8(position++);
+    const major = initial >> 5;
+    const info = initial & 31;
+
+    if (major === 7) {
+      switch (info) {
+        case 20:
+          return false;
+        case 21:
+          return true;
+        case 22:
+          return null;
+        case 23:
+          return undefined;
+        case 25:
+          position += 2;
+          return decodeFloat16(data.getUint16(position - 2));
+        case 26:
+          position += 4;
+          return data.getFloat32(position - 4);
+        case 27:
+          position += 8;
+          return data.getFloat64(position - 8);
+        default:
+          throw new Error(`Unsupported CBOR simple value: ${info}`);
+      }
+    }
+
+    const argument = readArgument(data, position, info);
+    position += argument.size;
+
+    switch (major) {
+      case 0:
+        return argument.value;
+      case 1:
+        return -1 - argument.value;
+      case 2: {
+        if (position + argument.value > bytes.length) {
+          throw new Error('Unexpected end of CBOR data');
+        }
+        const value = bytes.slice(position, position + argument.value);
+        position += argument.value;
+        return value;
+      }
+      case 3: {
+        if (position + argument.value > bytes.length) {
+          throw new Error('Unexpected end of CBOR data');
+        }
+        const value = decoder.decode(bytes.subarray(position, position + argument.value));
+        position += argument.value;
+        return value;
+      }
+      case 4:
+        return Array.from({ length: argument.value }, () => read());
+      case 5: {
+        const map = new Map<unknown, unknown>();
+        for (let i = 0; i < argument.value; i++) {
+          const key = read();
+          map.set(key, read());
+        }
+        return map;
+      }
+      case 6:
+        return read();
+      default:
+        throw new Error(`Unsupported CBOR major type: ${major}`);
+    }
+  }
+
+  const value = read();
+  return { value, length: position - offset };
+}
+
+/**
+ * Decode a buffer holding a single CBOR item
+ *
+ * @throws if the data is malformed or has trailing bytes
+ */
+export function decodeCbor(bytes: Uint8Array): unknown {
+  const { value, length } = decodeCborItem(bytes);
+  if (length !== bytes.length) {
+    throw new Error('Unexpected trailing CBOR data');
+  }
+  return value;
+}
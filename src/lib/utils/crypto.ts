@@ -35,6 +35,35 @@ export async function deriveKey(
   );
 }
 
+/**
+ * Derive an AES-GCM key from a secret string using HKDF-SHA256
+ *
+ * @param secret - The secret to derive the key from
+ * @param info - Context string binding the key to its purpose
+ */
+export async function deriveEncryptionKey(secret: string, info: string): Promise<CryptoKey> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    'HKDF',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(0),
+      info: encoder.encode(info)
+    },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
 /**
  * Encrypt data using AES-GCM
  */
@@ -123,6 +152,21 @@ export async function verify(
   return crypto.subtle.verify('HMAC', key, signatureBytes, encoder.encode(data));
 }
 
+/**
+ * Compare two strings in constant time
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+  let result = aBytes.length ^ bBytes.length;
+
+  for (let i = 0; i < aBytes.length; i++) {
+    result |= aBytes[i] ^ (bBytes[i % (bBytes.length || 1)] ?? 0);
+  }
+
+  return result === 0;
+}
+
 /**
  * Generate a random string for CSRF tokens, state parameters, etc.
  */
@@ -133,6 +177,24 @@ export function generateRandomString(length: number = 32): string {
     .join('');
 }
 
+/**
+ * Generate a random numeric code (e.g. a one-time passcode)
+ */
+export function generateNumericCode(length: number = 6): string {
+  let code = '';
+
+  while (code.length < length) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(length))) {
+      // Skip bytes that would bias the digits towards 0-5
+      if (byte < 250 && code.length < length) {
+        code += String(byte % 10);
+      }
+    }
+  }
+
+  return code;
+}
+
 /**
  * Generate a code verifier for PKCE
  */
@@ -5,16 +5,46 @@
 export {
   encrypt,
   decrypt,
+  deriveEncryptionKey,
   sign,
   verify,
+  timingSafeEqual,
   generateRandomString,
+  generateNumericCode,
   generateCodeVerifier,
   generateCodeChallenge,
   base64UrlEncode,
   base64UrlDecode
 } from './crypto.js';
 
-export { createJWT, verifyJWT, decodeJWT, type JWTPayload, type JWTHeader } from './jwt.js';
+export {
+  createJWT,
+  verifyJWT,
+  encryptJWT,
+  decryptJWT,
+  decodeJWT,
+  type JWTPayload,
+  type JWTHeader,
+  type JWTAlgorithm,
+  type JWTSigningKey
+} from './jwt.js';
+
+export {
+  importSigningKey,
+  importPublicKey,
+  getJwkThumbprint,
+  type ImportedSigningKey,
+  type VerificationKey,
+  type PublicJWK
+} from './keys.js';
+
+export {
+  discoverIssuer,
+  verifyIdToken,
+  getWellKnownUrl,
+  type OIDCMetadata,
+  type IdTokenClaims
+} from './oidc.js';
 
 export {
   createSession,
@@ -23,9 +53,14 @@ export {
   getSessionFromCookies,
   setSessionCookie,
   deleteSessionCookie,
+  destroySession,
+  getSessionAdapter,
   shouldUpdateSession,
   refreshSession,
-  defaultCookieConfig
+  renewSession,
+  defaultCookieConfig,
+  type EncodeSessionOptions,
+  type SessionAdapter
 } from './session.js';
 
 export {
@@ -35,3 +70,56 @@ export {
   generateToken,
   type HashOptions
 } from './password.js';
+
+export {
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  getTotpStep,
+  generateTotp,
+  verifyTotp,
+  createTotpUri,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  type TotpOptions,
+  type VerifyTotpOptions
+} from './totp.js';
+
+export { decodeCbor, decodeCborItem, type CborItem } from './cbor.js';
+
+export {
+  COSE_ALGORITHMS,
+  parseAuthenticatorData,
+  coseToJwk,
+  verifyRegistrationResponse,
+  verifyAuthenticationResponse,
+  type RegistrationResponseJSON,
+  type AuthenticationResponseJSON,
+  type AuthenticatorData,
+  type WebAuthnExpectations,
+  type VerifiedRegistration,
+  type VerifiedAuthentication
+} from './webauthn.js';
+
+export {
+  createMemoryAttemptStore,
+  createAdapterAttemptStore,
+  getLoginAttemptKey,
+  getIpAttemptKey,
+  type AttemptAdapter
+} from './attempts.js';
+
+export {
+  createMemoryRateLimitStore,
+  createAdapterRateLimitStore,
+  consumeRateLimit,
+  type RateLimitAdapter,
+  type RateLimitResult
+} from './rate-limit.js';
+
+export {
+  getSessionVersionAdapter,
+  getSessionVersion,
+  revokeSessions,
+  type SessionVersionAdapter
+} from './session-version.js';
@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { base64UrlDecode, base64UrlEncode } from './crypto.js';
+import { createJWT, decryptJWT, encryptJWT, verifyJWT } from './jwt.js';
+
+const secret = 'test-secret-that-is-at-least-32-characters';
+const otherSecret = 'other-secret-that-is-at-least-32-characters';
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function encodeSegment(value: unknown): string {
+  return base64UrlEncode(encoder.encode(JSON.stringify(value)));
+}
+
+/**
+ * Replace the header of a token, keeping its payload and signature
+ */
+function withHeader(token: string, header: Record<string, unknown>): string {
+  const [, ...rest] = token.split('.');
+  return [encodeSegment(header), ...rest].join('.');
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('verifyJWT', () => {
+  it('returns the payload of a token signed with the secret', async () => {
+    const token = await createJWT({ sub: 'user' }, secret, { expiresIn: 60 });
+
+    expect(await verifyJWT(token, secret)).toMatchObject({ sub: 'user' });
+    expect(await verifyJWT(token, otherSecret)).toBeNull();
+  });
+
+  it('rejects unsigned tokens', async () => {
+    const payload = encodeSegment({ sub: 'admin' });
+
+    for (const alg of ['none', 'None', 'NONE']) {
+      const token = `${encodeSegment({ alg, typ: 'JWT' })}.${payload}.`;
+      expect(await verifyJWT(token, secret)).toBeNull();
+    }
+  });
+
+  it('rejects algorithms outside the allow-list', async () => {
+    const token = await createJWT({ sub: 'user' }, secret);
+
+    expect(await verifyJWT(withHeader(token, { alg: 'HS512', typ: 'JWT' }), secret)).toBeNull();
+    expect(await verifyJWT(withHeader(token, { alg: 'RS256', typ: 'JWT' }), secret)).toBeNull();
+    expect(await verifyJWT(token, secret, { algorithms: ['ES256'] })).toBeNull();
+  });
+
+  it('rejects a tampered payload', async () => {
+    const [header, , signature] = (await createJWT({ sub: 'user' }, secret)).split('.');
+
+    const token = `${header}.${encodeSegment({ sub: 'admin' })}.${signature}`;
+
+    expect(await verifyJWT(token, secret)).toBeNull();
+  });
+
+  it('rejects expired tokens', async () => {
+    vi.useFakeTimers();
+    const token = await createJWT({ sub: 'user' }, secret, { expiresIn: 60 });
+
+    vi.advanceTimersByTime(61 * 1000);
+
+    expect(await verifyJWT(token, secret)).toBeNull();
+  });
+});
+
+describe('encrypted JWTs', () => {
+  it('hide the payload and decrypt with the same secret', async () => {
+    const token = await encryptJWT({ sub: 'user', email: 'user@example.com' }, secret, {
+      expiresIn: 60,
+      kid: 'key-1'
+    });
+
+    const segments = token.split('.');
+    expect(segments).toHaveLength(5);
+    for (const segment of segments) {
+      expect(decoder.decode(base64UrlDecode(segment))).not.toContain('user@example.com');
+    }
+    expect(await decryptJWT(token, secret)).toMatchObject({
+      sub: 'user',
+      email: 'user@example.com'
+    });
+    expect(await decryptJWT(token, otherSecret)).toBeNull();
+  });
+
+  it('are not accepted as signed tokens', async () => {
+    const token = await encryptJWT({ sub: 'user' }, secret);
+
+    expect(await verifyJWT(token, secret)).toBeNull();
+  });
+
+  it('reject a tampered ciphertext or header', async () => {
+    const token = await encryptJWT({ sub: 'user' }, secret);
+    const parts = token.split('.');
+
+    const ciphertext = [...parts];
+    ciphertext[3] = `${ciphertext[3].slice(0, -2)}${ciphertext[3].endsWith('AA') ? 'BB' : 'AA'}`;
+    expect(await decryptJWT(ciphertext.join('.'), secret)).toBeNull();
+
+    const header = [...parts];
+    header[0] = encodeSegment({ alg: 'dir', enc: 'A256GCM', typ: 'JWT', kid: 'other' });
+    expect(await decryptJWT(header.join('.'), secret)).toBeNull();
+
+    const algorithm = [...parts];
+    algorithm[0] = encodeSegment({ alg: 'dir', enc: 'A128GCM', typ: 'JWT' });
+    expect(await decryptJWT(algorithm.join('.'), secret)).toBeNull();
+  });
+
+  it('reject expired tokens', async () => {
+    vi.useFakeTimers();
+    const token = await encryptJWT({ sub: 'user' }, secret, { expiresIn: 60 });
+
+    vi.advanceTimersByTime(61 * 1000);
+
+    expect(await decryptJWT(token, secret)).toBeNull();
+  });
+});
@@ -2,7 +2,15 @@
  * JWT utilities for session tokens
  */
 
-import { sign, verify, base64UrlEncode, base64UrlDecode } from './crypto.js';
+import {
+  sign,
+  verify,
+  deriveEncryptionKey,
+  base64UrlEncode,
+  base64UrlDecode
+} from './crypto.js';
+import { signingAlgorithms, isSigningAlgorithm, type VerificationKey } from './keys.js';
+import type { SigningAlgorithm } from '../types.js';
 
 const encoder = new TextEncoder();
 const decoder = new TextDecoder();
@@ -14,22 +22,53 @@ export interface JWTPayload {
   [key: string]: unknown;
 }
 
+/**
+ * Algorithms supported for signed JWTs
+ */
+export type JWTAlgorithm = 'HS256' | SigningAlgorithm;
+
+/**
+ * A private key to sign JWTs with
+ */
+export interface JWTSigningKey {
+  alg: SigningAlgorithm;
+  kid?: string;
+  privateKey: CryptoKey;
+}
+
 export interface JWTHeader {
   alg: string;
   typ: string;
+  enc?: string;
+  kid?: string;
 }
 
+/**
+ * HKDF context for the session encryption key
+ */
+const ENCRYPTION_KEY_INFO = 'sveltekit-auth session encryption key';
+
+/**
+ * AES-GCM authentication tag length in bytes
+ */
+const TAG_LENGTH = 16;
+
 /**
  * Create a JWT token
+ *
+ * Signs with HS256 when given a secret, or with the key's
+ * algorithm when given a private key.
  */
 export async function createJWT(
   payload: JWTPayload,
-  secret: string,
-  options: { expiresIn?: number } = {}
+  key: string | JWTSigningKey,
+  options: { expiresIn?: number; kid?: string } = {}
 ): Promise<string> {
+  const kid = typeof key === 'string' ? options.kid : key.kid;
   const header: JWTHeader = {
-    alg: 'HS256',
-    typ: 'JWT'
+    alg: typeof key === 'string' ? 'HS256' : key.alg,
+    typ: 'JWT',
+    ...(kid && { kid })
   };
 
   const now = Math.floor(Date.now() / 1000);
@@ -42,18 +81,32 @@ export async function createJWT(
   const headerBase64 = base64UrlEncode(encoder.encode(JSON.stringify(header)));
   const payloadBase64 = base64UrlEncode(encoder.encode(JSON.stringify(tokenPayload)));
   const signatureInput = `${headerBase64}.${payloadBase64}`;
-  const signature = await sign(signatureInput, secret);
-  const signatureBase64 = signature.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+  const signatureBase64 =
+    typeof key === 'string'
+      ? (await sign(signatureInput, key)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+      : base64UrlEncode(
+          new Uint8Array(
+            await crypto.subtle.sign(
+              signingAlgorithms[key.alg].signParams,
+              key.privateKey,
+              encoder.encode(signatureInput)
+            )
+          )
+        );
 
   return `${headerBase64}.${payloadBase64}.${signatureBase64}`;
 }
 
 /**
  * Verify and decode a JWT token
+ *
+ * The header `alg` must be in the allow-list, which defaults to HS256
+ * for a secret or to the algorithms of the given public keys.
  */
 export async function verifyJWT(
   token: string,
-  secret: string
+  key: string | VerificationKey[],
+  options: { algorithms?: JWTAlgorithm[] } = {}
 ): Promise<JWTPayload | null> {
   try {
     const parts = token.split('.');
@@ -63,12 +116,18 @@ export async function verifyJWT(
 
     const [headerBase64, payloadBase64, signatureBase64] = parts;
     const signatureInput = `${headerBase64}.${payloadBase64}`;
+    const header = JSON.parse(decoder.decode(base64UrlDecode(headerBase64))) as JWTHeader;
 
-    // Convert base64url signature back to base64 for verification
-    const signature = signatureBase64.replace(/-/g, '+').replace(/_/g, '/');
-    const paddedSignature = signature + '='.repeat((4 - (signature.length % 4)) % 4);
+    const algorithms =
+      options.algorithms ?? (typeof key === 'string' ? ['HS256'] : key.map((k) => k.alg));
+    if (!algorithms.includes(header.alg as JWTAlgorithm)) {
+      return null;
+    }
 
-    const isValid = await verify(signatureInput, paddedSignature, secret);
+    const isValid =
+      typeof key === 'string'
+        ? header.alg === 'HS256' && (await verifyHmac(signatureInput, signatureBase64, key))
+        : await verifyWithKeys(signatureInput, signatureBase64, header, key);
     if (!isValid) {
       return null;
     }
@@ -86,6 +145,143 @@ export async function verifyJWT(
   }
 }
 
+/**
+ * Verify an HS256 signature with a secret
+ */
+async function verifyHmac(
+  signatureInput: string,
+  signatureBase64: string,
+  secret: string
+): Promise<boolean> {
+  // Convert base64url signature back to base64 for verification
+  const signature = signatureBase64.replace(/-/g, '+').replace(/_/g, '/');
+  const paddedSignature = signature + '='.repeat((4 - (signature.length % 4)) % 4);
+
+  return verify(signatureInput, paddedSignature, secret);
+}
+
+/**
+ * Verify an asymmetric signature with the public keys matching the header
+ */
+async function verifyWithKeys(
+  signatureInput: string,
+  signatureBase64: string,
+  header: JWTHeader,
+  keys: VerificationKey[]
+): Promise<boolean> {
+  if (!isSigningAlgorithm(header.alg)) {
+    return false;
+  }
+
+  const { signParams } = signingAlgorithms[header.alg];
+  const signature = base64UrlDecode(signatureBase64) as unknown as BufferSource;
+  const candidates = keys.filter(
+    (key) => key.alg === header.alg && (!header.kid || !key.kid || key.kid === header.kid)
+  );
+
+  for (const key of candidates) {
+    if (await crypto.subtle.verify(signParams, key.publicKey, signature, encoder.encode(signatureInput))) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Create an encrypted JWT (compact JWE using 'dir' and A256GCM)
+ *
+ * The content encryption key is derived from the secret with HKDF.
+ */
+export async function encryptJWT(
+  payload: JWTPayload,
+  secret: string,
+  options: { expiresIn?: number; kid?: string } = {}
+): Promise<string> {
+  const header: JWTHeader = {
+    alg: 'dir',
+    enc: 'A256GCM',
+    typ: 'JWT',
+    ...(options.kid && { kid: options.kid })
+  };
+
+  const now = Math.floor(Date.now() / 1000);
+  const tokenPayload: JWTPayload = {
+    ...payload,
+    iat: payload.iat ?? now,
+    exp: payload.exp ?? (options.expiresIn ? now + options.expiresIn : undefined)
+  };
+
+  const headerBase64 = base64UrlEncode(encoder.encode(JSON.stringify(header)));
+  const key = await deriveEncryptionKey(secret, ENCRYPTION_KEY_INFO);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+
+  // The protected header is authenticated as additional data
+  const encrypted = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: encoder.encode(headerBase64) },
+      key,
+      encoder.encode(JSON.stringify(tokenPayload))
+    )
+  );
+
+  const ciphertext = encrypted.slice(0, encrypted.length - TAG_LENGTH);
+  const tag = encrypted.slice(encrypted.length - TAG_LENGTH);
+
+  // No encrypted key segment with direct encryption
+  return `${headerBase64}..${base64UrlEncode(iv)}.${base64UrlEncode(ciphertext)}.${base64UrlEncode(tag)}`;
+}
+
+/**
+ * Decrypt and decode an encrypted JWT created by encryptJWT
+ */
+export async function decryptJWT(
+  token: string,
+  secret: string
+): Promise<JWTPayload | null> {
+  try {
+    const parts = token.split('.');
+    if (parts.length !== 5) {
+      return null;
+    }
+
+    const [headerBase64, encryptedKey, ivBase64, ciphertextBase64, tagBase64] = parts;
+    const header = JSON.parse(decoder.decode(base64UrlDecode(headerBase64))) as JWTHeader;
+
+    if (header.alg !== 'dir' || header.enc !== 'A256GCM' || encryptedKey !== '') {
+      return null;
+    }
+
+    const ciphertext = base64UrlDecode(ciphertextBase64);
+    const tag = base64UrlDecode(tagBase64);
+    const data = new Uint8Array(ciphertext.length + tag.length);
+    data.set(ciphertext, 0);
+    data.set(tag, ciphertext.length);
+
+    const key = await deriveEncryptionKey(secret, ENCRYPTION_KEY_INFO);
+    const decrypted = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: base64UrlDecode(ivBase64) as unknown as BufferSource,
+        additionalData: encoder.encode(headerBase64)
+      },
+      key,
+      data
+    );
+
+    const payload = JSON.parse(decoder.decode(decrypted)) as JWTPayload;
+
+    // Check expiration
+    if (payload.exp && payload.exp < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Decode a JWT token without verification (for debugging)
  */
@@ -0,0 +1,151 @@
+import type { Cookies, RequestEvent } from '@sveltejs/kit';
+import { describe, expect, it } from 'vitest';
+import { resolveConfig } from '../middleware/index.js';
+import { handleAuthRoutes } from '../middleware/routes.js';
+import type { SigningAlgorithm } from '../types.js';
+import { base64UrlEncode } from './crypto.js';
+import { createJWT, decodeJWT, verifyJWT } from './jwt.js';
+import { getJwkThumbprint, importPublicKey, importSigningKey, type PublicJWK } from './keys.js';
+import { createSession, setSessionCookie } from './session.js';
+
+const secret = 'test-secret-that-is-at-least-32-characters';
+const encoder = new TextEncoder();
+
+type KeyGenParams = RsaHashedKeyGenParams | EcKeyGenParams | Algorithm;
+
+const generateParams: Record<SigningAlgorithm, KeyGenParams> = {
+  RS256: {
+    name: 'RSASSA-PKCS1-v1_5',
+    modulusLength: 2048,
+    publicExponent: new Uint8Array([1, 0, 1]),
+    hash: 'SHA-256'
+  },
+  ES256: { name: 'ECDSA', namedCurve: 'P-256' },
+  EdDSA: { name: 'Ed25519' }
+};
+
+/**
+ * Generate a private JWK for an algorithm
+ */
+async function generatePrivateJwk(alg: SigningAlgorithm): Promise<JsonWebKey> {
+  const pair = (await crypto.subtle.generateKey(generateParams[alg], true, [
+    'sign',
+    'verify'
+  ])) as CryptoKeyPair;
+  return crypto.subtle.exportKey('jwk', pair.privateKey);
+}
+
+async function generateSigningKey(alg: SigningAlgorithm) {
+  return importSigningKey({ alg, privateKey: await generatePrivateJwk(alg) });
+}
+
+function createCookies(): Cookies {
+  const values = new Map<string, string>();
+
+  return {
+    get: (name: string) => values.get(name),
+    set: (name: string, value: string) => void values.set(name, value),
+    delete: (name: string) => void values.delete(name)
+  } as unknown as Cookies;
+}
+
+describe('importSigningKey', () => {
+  for (const alg of ['RS256', 'ES256', 'EdDSA'] as const) {
+    it(`signs ${alg} tokens that verify with the public key only`, async () => {
+      const key = await generateSigningKey(alg);
+      const token = await createJWT({ sub: 'user' }, key, { expiresIn: 60 });
+
+      const publicKey = await importPublicKey(key.publicJwk);
+
+      expect(await verifyJWT(token, [publicKey])).toMatchObject({ sub: 'user' });
+      expect(decodeJWT(token)?.header).toMatchObject({ alg, kid: key.kid });
+    });
+  }
+
+  it('publishes only the public members, with a thumbprint key ID', async () => {
+    const key = await generateSigningKey('ES256');
+
+    expect(key.publicJwk).not.toHaveProperty('d');
+    expect(key.publicJwk).toMatchObject({ kty: 'EC', alg: 'ES256', use: 'sig' });
+    expect(key.kid).toBe(await getJwkThumbprint(key.publicJwk));
+  });
+
+  it('refuses public keys', async () => {
+    const { d: _, ...publicJwk } = await generatePrivateJwk('ES256');
+
+    await expect(importSigningKey({ alg: 'ES256', privateKey: publicJwk })).rejects.toThrow();
+  });
+});
+
+describe('verifyJWT with public keys', () => {
+  it('rejects HS256 tokens signed with the public key', async () => {
+    const key = await generateSigningKey('RS256');
+    const publicKey = await importPublicKey(key.publicJwk);
+
+    const token = await createJWT({ sub: 'admin' }, JSON.stringify(key.publicJwk), {
+      kid: key.kid
+    });
+
+    expect(await verifyJWT(token, [publicKey])).toBeNull();
+    expect(await verifyJWT(token, [publicKey], { algorithms: ['HS256', 'RS256'] })).toBeNull();
+  });
+
+  it('rejects a token whose header names another algorithm than the key', async () => {
+    const rsa = await generateSigningKey('RS256');
+    const ec = await generateSigningKey('ES256');
+    const [, payload, signature] = (await createJWT({ sub: 'user' }, ec)).split('.');
+
+    const header = base64UrlEncode(
+      encoder.encode(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid: ec.kid }))
+    );
+
+    expect(
+      await verifyJWT(`${header}.${payload}.${signature}`, [
+        await importPublicKey(rsa.publicJwk),
+        await importPublicKey(ec.publicJwk)
+      ])
+    ).toBeNull();
+  });
+
+  it('rejects tokens signed by a key that is not trusted', async () => {
+    const signer = await generateSigningKey('ES256');
+    const trusted = await generateSigningKey('ES256');
+
+    const token = await createJWT({ sub: 'user' }, { ...signer, kid: trusted.kid });
+
+    expect(await verifyJWT(token, [await importPublicKey(trusted.publicJwk)])).toBeNull();
+  });
+});
+
+describe('JWKS endpoint', () => {
+  it('publishes the keys that verify session tokens', async () => {
+    const config = resolveConfig({
+      secret,
+      providers: [],
+      signingKeys: [{ alg: 'ES256', privateKey: await generatePrivateJwk('ES256'), kid: 'key-1' }]
+    });
+    const url = 'http://localhost/auth/jwks';
+    const event = {
+      url: new URL(url),
+      request: new Request(url),
+      locals: {},
+      cookies: createCookies()
+    } as unknown as RequestEvent;
+
+    const response = await handleAuthRoutes(event, config);
+    const { keys } = (await response!.json()) as { keys: PublicJWK[] };
+
+    expect(keys).toHaveLength(1);
+    expect(keys[0]).toMatchObject({ kid: 'key-1', alg: 'ES256' });
+    expect(keys[0]).not.toHaveProperty('d');
+
+    const cookies = createCookies();
+    await setSessionCookie(cookies, createSession({ id: 'user' }, 60), config);
+    const token = cookies.get(config.cookies.name)!;
+
+    expect(await verifyJWT(token, await Promise.all(keys.map(importPublicKey)))).toMatchObject({
+      user: { id: 'user' }
+    });
+    expect(await verifyJWT(token, secret)).toBeNull();
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Asymmetric signing keys for JWTs
+ */
+
+import type { SigningKey, SigningAlgorithm } from '../types.js';
+import { base64UrlEncode } from './crypto.js';
+
+const encoder = new TextEncoder();
+
+/**
+ * A public JWK with its key ID and algorithm
+ */
+export interface PublicJWK extends JsonWebKey {
+  kid?: string;
+  alg?: string;
+}
+
+/**
+ * A key that can verify JWT signatures
+ */
+export interface VerificationKey {
+  alg: SigningAlgorithm;
+  kid?: string;
+  publicKey: CryptoKey;
+}
+
+/**
+ * A key that can sign JWTs, along with its public half
+ */
+export interface ImportedSigningKey extends VerificationKey {
+  kid: string;
+  privateKey: CryptoKey;
+  publicJwk: PublicJWK;
+}
+
+interface AlgorithmParams {
+  kty: string;
+  importParams: RsaHashedImportParams | EcKeyImportParams | Algorithm;
+  signParams: AlgorithmIdentifier | EcdsaParams;
+}
+
+/**
+ * WebCrypto parameters for the supported asymmetric algorithms
+ */
+export const signingAlgorithms: Record<SigningAlgorithm, AlgorithmParams> = {
+  RS256: {
+    kty: 'RSA',
+    importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    signParams: 'RSASSA-PKCS1-v1_5'
+  },
+  ES256: {
+    kty: 'EC',
+    importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+    signParams: { name: 'ECDSA', hash: 'SHA-256' }
+  },
+  EdDSA: {
+    kty: 'OKP',
+    importParams: { name: 'Ed25519' },
+    signParams: 'Ed25519'
+  }
+};
+
+/**
+ * JWK members that only belong to private keys
+ */
+const PRIVATE_MEMBERS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth'] as const;
+
+/**
+ * Members used for the JWK thumbprint, per key type (RFC 7638)
+ */
+const THUMBPRINT_MEMBERS: Record<string, string[]> = {
+  RSA: ['e', 'kty', 'n'],
+  EC: ['crv', 'kty', 'x', 'y'],
+  OKP: ['crv', 'kty', 'x']
+};
+
+const importedKeys = new WeakMap<SigningKey[], Promise<ImportedSigningKey[]>>();
+
+/**
+ * Check whether an algorithm name is a supported asymmetric algorithm
+ */
+export function isSigningAlgorithm(alg: unknown): alg is SigningAlgorithm {
+  return typeof alg === 'string' && Object.hasOwn(signingAlgorithms, alg);
+}
+
+/**
+ * Decode a PEM-encoded key to its DER bytes
+ */
+function pemToDer(pem: string): Uint8Array {
+  const base64 = pem.replace(/-----(BEGIN|END) [A-Z ]+-----/g, '').replace(/\s+/g, '');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+/**
+ * Compute the RFC 7638 thumbprint of a public JWK
+ */
+export async function getJwkThumbprint(jwk: JsonWebKey): Promise<string> {
+  const members = THUMBPRINT_MEMBERS[jwk.kty ?? ''];
+  if (!members) {
+    throw new Error(`Unsupported key type: ${jwk.kty}`);
+  }
+
+  const record = jwk as Record<string, unknown>;
+  const canonical = JSON.stringify(Object.fromEntries(members.map((name) => [name, record[name]])));
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(canonical));
+
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+/**
+ * Import a configured private key and derive its public key
+ *
+ * The key ID defaults to the JWK thumbprint of the public key.
+ */
+export async function importSigningKey(config: SigningKey): Promise<ImportedSigningKey> {
+  const algorithm = signingAlgorithms[config.alg];
+  if (!algorithm) {
+    throw new Error(`Unsupported signing algorithm: ${config.alg}`);
+  }
+
+  const extractable =
+    typeof config.privateKey === 'string'
+      ? await crypto.subtle.importKey(
+          'pkcs8',
+          pemToDer(config.privateKey) as unknown as BufferSource,
+          algorithm.importParams,
+          true,
+          ['sign']
+        )
+      : await crypto.subtle.importKey('jwk', config.privateKey, algorithm.importParams, true, [
+          'sign'
+        ]);
+
+  const jwk = await crypto.subtle.exportKey('jwk', extractable);
+  if (!jwk.d) {
+    throw new Error('Signing key must be a private key');
+  }
+
+  const publicJwk: PublicJWK = { kty: jwk.kty };
+  for (const [name, value] of Object.entries(jwk)) {
+    if (!(PRIVATE_MEMBERS as readonly string[]).includes(name) && name !== 'key_ops' && name !== 'ext') {
+      (publicJwk as Record<string, unknown>)[name] = value;
+    }
+  }
+
+  const kid = config.kid ?? (await getJwkThumbprint(publicJwk));
+  const privateKey = await crypto.subtle.importKey('jwk', jwk, algorithm.importParams, false, [
+    'sign'
+  ]);
+  const publicKey = await crypto.subtle.importKey(
+    'jwk',
+    publicJwk,
+    algorithm.importParams,
+    true,
+    ['verify']
+  );
+
+  return {
+    alg: config.alg,
+    kid,
+    privateKey,
+    publicKey,
+    publicJwk: { ...publicJwk, kid, alg: config.alg, use: 'sig' }
+  };
+}
+
+/**
+ * Import a public JWK, e.g. one published by a JWKS endpoint
+ */
+export async function importPublicKey(jwk: PublicJWK): Promise<VerificationKey> {
+  if (!isSigningAlgorithm(jwk.alg)) {
+    throw new Error(`Unsupported signing algorithm: ${jwk.alg}`);
+  }
+
+  const publicKey = await crypto.subtle.importKey(
+    'jwk',
+    jwk,
+    signingAlgorithms[jwk.alg].importParams,
+    false,
+    ['verify']
+  );
+
+  return { alg: jwk.alg, kid: jwk.kid, publicKey };
+}
+
+/**
+ * Import the configured signing keys, once per configuration
+ */
+export function getSigningKeys(keys: SigningKey[]): Promise<ImportedSigningKey[]> {
+  let imported = importedKeys.get(keys);
+  if (!imported) {
+    imported = Promise.all(keys.map(importSigningKey));
+    importedKeys.set(keys, imported);
+  }
+  return imported;
+}
@@ -0,0 +1,142 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createJWT, type JWTSigningKey } from './jwt.js';
+import { verifyIdToken, type OIDCMetadata } from './oidc.js';
+
+const metadata: OIDCMetadata = {
+  issuer: 'https://issuer.example.com',
+  authorization_endpoint: 'https://issuer.example.com/authorize',
+  token_endpoint: 'https://issuer.example.com/token',
+  jwks_uri: 'https://issuer.example.com/jwks'
+};
+
+const clientId = 'client-id';
+
+let signingKey: JWTSigningKey;
+let otherKey: JWTSigningKey;
+
+async function generateKey(kid: string): Promise<{ key: JWTSigningKey; jwk: JsonWebKey }> {
+  const pair = (await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+    'sign',
+    'verify'
+  ])) as CryptoKeyPair;
+  const jwk = await crypto.subtle.exportKey('jwk', pair.publicKey);
+
+  return {
+    key: { alg: 'ES256', kid, privateKey: pair.privateKey },
+    jwk: { ...jwk, kid } as JsonWebKey
+  };
+}
+
+function createIdToken(claims: Record<string, unknown> = {}, key = signingKey): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+
+  return createJWT(
+    {
+      iss: metadata.issuer,
+      sub: 'user-1',
+      aud: clientId,
+      iat: now,
+      exp: now + 300,
+      nonce: 'nonce-1',
+      ...claims
+    },
+    key
+  );
+}
+
+beforeAll(async () => {
+  const signing = await generateKey('key-1');
+  const other = await generateKey('key-2');
+  signingKey = signing.key;
+  otherKey = other.key;
+
+  // Only the first key is published by the issuer
+  vi.stubGlobal('fetch', vi.fn(async () => Response.json({ keys: [signing.jwk] })));
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('verifyIdToken', () => {
+  it('returns the claims of a valid token', async () => {
+    const claims = await verifyIdToken(await createIdToken(), {
+      metadata,
+      clientId,
+      nonce: 'nonce-1'
+    });
+
+    expect(claims?.sub).toBe('user-1');
+  });
+
+  it('rejects a token signed with an unpublished key', async () => {
+    const token = await createIdToken({}, otherKey);
+
+    expect(await verifyIdToken(token, { metadata, clientId })).toBeNull();
+  });
+
+  it('rejects a tampered payload', async () => {
+    const [header, , signature] = (await createIdToken()).split('.');
+    const [, payload] = (await createIdToken({ sub: 'user-2' })).split('.');
+
+    const token = `${header}.${payload}.${signature}`;
+
+    expect(await verifyIdToken(token, { metadata, clientId })).toBeNull();
+  });
+
+  it('rejects another issuer or audience', async () => {
+    const otherIssuer = await createIdToken({ iss: 'https://evil.example.com' });
+    const otherAudience = await createIdToken({ aud: 'other-client' });
+
+    expect(await verifyIdToken(otherIssuer, { metadata, clientId })).toBeNull();
+    expect(await verifyIdToken(otherAudience, { metadata, clientId })).toBeNull();
+  });
+
+  it('requires azp when there are several audiences', async () => {
+    const withoutAzp = await createIdToken({ aud: [clientId, 'other-client'] });
+    const withAzp = await createIdToken({ aud: [clientId, 'other-client'], azp: clientId });
+
+    expect(await verifyIdToken(withoutAzp, { metadata, clientId })).toBeNull();
+    expect(await verifyIdToken(withAzp, { metadata, clientId })).not.toBeNull();
+  });
+
+  it('rejects an expired token', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const token = await createIdToken({ iat: now - 3600, exp: now - 600 });
+
+    expect(await verifyIdToken(token, { metadata, clientId })).toBeNull();
+  });
+
+  it('rejects an unsigned token', async () => {
+    const [, payload] = (await createIdToken()).split('.');
+    const header = btoa(JSON.stringify({ alg: 'none', typ: 'JWT' })).replace(/=+$/, '');
+
+    expect(await verifyIdToken(`${header}.${payload}.`, { metadata, clientId })).toBeNull();
+  });
+
+  describe('nonce', () => {
+    it('is not checked when no nonce is expected', async () => {
+      const token = await createIdToken({ nonce: undefined });
+
+      expect(await verifyIdToken(token, { metadata, clientId })).not.toBeNull();
+    });
+
+    it('must match the stored nonce', async () => {
+      const token = await createIdToken({ nonce: 'nonce-2' });
+
+      expect(await verifyIdToken(token, { metadata, clientId, nonce: 'nonce-1' })).toBeNull();
+    });
+
+    it('must be present in the token', async () => {
+      const token = await createIdToken({ nonce: undefined });
+
+      expect(await verifyIdToken(token, { metadata, clientId, nonce: 'nonce-1' })).toBeNull();
+    });
+
+    it('rejects the token when the stored nonce is missing', async () => {
+      const token = await createIdToken();
+
+      expect(await verifyIdToken(token, { metadata, clientId, nonce: null })).toBeNull();
+    });
+  });
+});
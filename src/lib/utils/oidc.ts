@@ -0,0 +1,227 @@
+/**
+ * OpenID Connect discovery and ID token validation
+ */
+
+import type { SigningAlgorithm } from '../types.js';
+import { base64UrlDecode } from './crypto.js';
+import { signingAlgorithms, isSigningAlgorithm } from './keys.js';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * How long discovery documents and key sets are cached (in milliseconds)
+ */
+const CACHE_TTL = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Allowed clock skew when checking ID token timestamps (in seconds)
+ */
+const CLOCK_TOLERANCE = 60;
+
+/**
+ * Provider metadata from `/.well-known/openid-configuration`
+ */
+export interface OIDCMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Standard ID token claims
+ */
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  azp?: string;
+  nonce?: string;
+  name?: string;
+  email?: string;
+  email_verified?: boolean;
+  picture?: string;
+  [key: string]: unknown;
+}
+
+interface JsonWebKeyWithId extends JsonWebKey {
+  kid?: string;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+const metadataCache = new Map<string, CacheEntry<OIDCMetadata>>();
+const jwksCache = new Map<string, CacheEntry<JsonWebKeyWithId[]>>();
+
+/**
+ * Get the well-known configuration URL for an issuer
+ */
+export function getWellKnownUrl(issuer: string): string {
+  return `${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+}
+
+/**
+ * Fetch and cache an issuer's discovery document
+ *
+ * @param wellKnown - The `/.well-known/openid-configuration` URL
+ */
+export async function discoverIssuer(wellKnown: string): Promise<OIDCMetadata> {
+  const cached = metadataCache.get(wellKnown);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL) {
+    return cached.value;
+  }
+
+  const response = await fetch(wellKnown, {
+    headers: { Accept: 'application/json' }
+  });
+
+  if (!response.ok) {
+    throw new Error(`OIDC discovery failed for ${wellKnown}: ${response.status}`);
+  }
+
+  const metadata = (await response.json()) as OIDCMetadata;
+  if (!metadata.issuer || !metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+    throw new Error(`OIDC discovery document at ${wellKnown} is incomplete`);
+  }
+
+  metadataCache.set(wellKnown, { value: metadata, fetchedAt: Date.now() });
+  return metadata;
+}
+
+/**
+ * Fetch and cache an issuer's signing keys
+ */
+async function getSigningKeys(jwksUri: string, forceRefresh = false): Promise<JsonWebKeyWithId[]> {
+  const cached = jwksCache.get(jwksUri);
+  if (!forceRefresh && cached && Date.now() - cached.fetchedAt < CACHE_TTL) {
+    return cached.value;
+  }
+
+  const response = await fetch(jwksUri, {
+    headers: { Accept: 'application/json' }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch JWKS from ${jwksUri}: ${response.status}`);
+  }
+
+  const { keys } = (await response.json()) as { keys?: JsonWebKeyWithId[] };
+  const value = keys ?? [];
+
+  jwksCache.set(jwksUri, { value, fetchedAt: Date.now() });
+  return value;
+}
+
+/**
+ * Find the key matching a token header, refetching once for unknown key IDs
+ */
+async function findSigningKey(
+  jwksUri: string,
+  alg: SigningAlgorithm,
+  kid?: string
+): Promise<JsonWebKeyWithId | null> {
+  const { kty } = signingAlgorithms[alg];
+  const match = (keys: JsonWebKeyWithId[]) =>
+    keys.find(
+      (key) =>
+        key.kty === kty &&
+        (!kid || key.kid === kid) &&
+        (!key.alg || key.alg === alg) &&
+        (!key.use || key.use === 'sig')
+    ) ?? null;
+
+  const key = match(await getSigningKeys(jwksUri));
+  if (key || !kid) {
+    return key;
+  }
+
+  // The issuer may have rotated its keys since they were cached
+  return match(await getSigningKeys(jwksUri, true));
+}
+
+/**
+ * Verify an ID token signature and its standard claims
+ *
+ * @param idToken - The compact JWS ID token
+ * @param options - The issuer metadata, expected audience and, when the
+ *   'nonce' check is enabled, the stored nonce (null if it is missing)
+ * @returns The token claims, or null if the token is invalid
+ */
+export async function verifyIdToken(
+  idToken: string,
+  options: {
+    metadata: OIDCMetadata;
+    clientId: string;
+    nonce?: string | null;
+  }
+): Promise<IdTokenClaims | null> {
+  try {
+    const parts = idToken.split('.');
+    if (parts.length !== 3) {
+      return null;
+    }
+
+    const [headerBase64, payloadBase64, signatureBase64] = parts;
+    const header = JSON.parse(decoder.decode(base64UrlDecode(headerBase64))) as {
+      alg?: string;
+      kid?: string;
+    };
+
+    if (!isSigningAlgorithm(header.alg)) {
+      return null;
+    }
+
+    const algorithm = signingAlgorithms[header.alg];
+
+    const jwk = await findSigningKey(options.metadata.jwks_uri, header.alg, header.kid);
+    if (!jwk) {
+      return null;
+    }
+
+    const key = await crypto.subtle.importKey('jwk', jwk, algorithm.importParams, false, ['verify']);
+    const isValid = await crypto.subtle.verify(
+      algorithm.signParams,
+      key,
+      base64UrlDecode(signatureBase64) as unknown as BufferSource,
+      encoder.encode(`${headerBase64}.${payloadBase64}`)
+    );
+    if (!isValid) {
+      return null;
+    }
+
+    const claims = JSON.parse(decoder.decode(base64UrlDecode(payloadBase64))) as IdTokenClaims;
+    const now = Math.floor(Date.now() / 1000);
+
+    if (claims.iss !== options.metadata.issuer) {
+      return null;
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.clientId)) {
+      return null;
+    }
+    if (audiences.length > 1 && claims.azp !== options.clientId) {
+      return null;
+    }
+
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_TOLERANCE < now) {
+      return null;
+    }
+
+    if (options.nonce !== undefined && (!options.nonce || claims.nonce !== options.nonce)) {
+      return null;
+    }
+
+    return claims;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Per-key queues for read-modify-write updates
+ */
+
+/**
+ * Run a task after the tasks already queued for its key
+ */
+export type KeyedQueue = <T>(key: string, task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create a queue that runs tasks for the same key one at a time
+ *
+ * Tasks are only serialized within this process; stores shared by
+ * several instances can still miss a concurrent update.
+ */
+export function createKeyedQueue(): KeyedQueue {
+  const pending = new Map<string, Promise<unknown>>();
+
+  return (key, task) => {
+    const result = (pending.get(key) ?? Promise.resolve()).then(task);
+    const done = result
+      .catch(() => undefined)
+      .finally(() => {
+        if (pending.get(key) === done) {
+          pending.delete(key);
+        }
+      });
+    pending.set(key, done);
+
+    return result;
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Sliding window rate limiting
+ */
+
+import type { Adapter, RateLimitBucket, RateLimitRule, RateLimitStore } from '../types.js';
+import { createKeyedQueue } from './queue.js';
+
+/**
+ * Buckets kept by a memory store before expired ones are swept
+ */
+const MEMORY_SWEEP_SIZE = 10_000;
+
+/**
+ * Adapter methods required to store rate limit buckets in the database
+ */
+export type RateLimitAdapter = Required<Pick<Adapter, 'getRateLimit' | 'setRateLimit'>>;
+
+const rateLimitAdapterMethods: (keyof RateLimitAdapter)[] = ['getRateLimit', 'setRateLimit'];
+
+/**
+ * Updates by bucket key, so concurrent requests in this process are
+ * counted one at a time
+ */
+const updateBucket = createKeyedQueue();
+
+/**
+ * Result of counting a request against a rule
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  /**
+   * Seconds until another request would be allowed (0 when allowed)
+   */
+  retryAfter: number;
+}
+
+/**
+ * Create a store that keeps buckets in memory
+ *
+ * Counts are per server process and lost on restart; use
+ * `createAdapterRateLimitStore` when running several instances.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, RateLimitBucket>();
+
+  function sweep(): void {
+    const now = Date.now();
+    for (const [key, bucket] of buckets) {
+      if (bucket.expiresAt.getTime() <= now) {
+        buckets.delete(key);
+      }
+    }
+  }
+
+  return {
+    async get(key) {
+      return buckets.get(key) ?? null;
+    },
+
+    async set(bucket) {
+      if (buckets.size >= MEMORY_SWEEP_SIZE) {
+        sweep();
+      }
+      buckets.set(bucket.key, bucket);
+    }
+  };
+}
+
+/**
+ * Create a store that keeps buckets through the adapter
+ *
+ * @throws if the adapter does not implement the rate limit methods
+ */
+export function createAdapterRateLimitStore(adapter: Adapter): RateLimitStore {
+  const missing = rateLimitAdapterMethods.filter(
+    (method) => typeof adapter[method] !== 'function'
+  );
+
+  if (missing.length > 0) {
+    throw new Error(`Adapter rate limit stores require an adapter implementing: ${missing.join(', ')}`);
+  }
+
+  const rateLimitAdapter = adapter as RateLimitAdapter;
+
+  return {
+    get: (key) => rateLimitAdapter.getRateLimit(key),
+
+    async set(bucket) {
+      await rateLimitAdapter.setRateLimit(bucket);
+    }
+  };
+}
+
+/**
+ * Count a request against a rule
+ *
+ * Requests within the last `window` seconds are counted; refused
+ * requests are not, so a client that keeps retrying is let through
+ * again as soon as its oldest request leaves the window.
+ */
+export async function consumeRateLimit(
+  store: RateLimitStore,
+  key: string,
+  rule: RateLimitRule
+): Promise<RateLimitResult> {
+  return updateBucket(key, async () => {
+    const now = Date.now();
+    const windowStart = now - rule.window * 1000;
+    const bucket = await store.get(key);
+    const hits = (bucket?.hits ?? []).filter((hit) => hit > windowStart);
+
+    if (hits.length >= rule.limit) {
+      const retryAt = hits[hits.length - rule.limit] + rule.window * 1000;
+      return { allowed: false, retryAfter: Math.max(1, Math.ceil((retryAt - now) / 1000)) };
+    }
+
+    hits.push(now);
+    await store.set({ key, hits, expiresAt: new Date(now + rule.window * 1000) });
+
+    return { allowed: true, retryAfter: 0 };
+  });
+}
+
+/**
+ * Store used when rate limiting is configured without one
+ *
+ * Shared by every auth instance in the process, and by the password
+ * reset and verification flows.
+ */
+export const defaultRateLimitStore: RateLimitStore = createMemoryRateLimitStore();
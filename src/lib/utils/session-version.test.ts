@@ -0,0 +1,75 @@
+import type { Cookies } from '@sveltejs/kit';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryAdapter } from '../adapters/memory.js';
+import { resolveConfig } from '../middleware/index.js';
+import { getSessionVersionAdapter, revokeSessions } from './session-version.js';
+import { createSession, getSessionFromCookies, setSessionCookie } from './session.js';
+
+function createCookies(): Cookies {
+  const values = new Map<string, string>();
+
+  return {
+    get: (name: string) => values.get(name),
+    set: (name: string, value: string) => void values.set(name, value),
+    delete: (name: string) => void values.delete(name)
+  } as unknown as Cookies;
+}
+
+function createConfig() {
+  const adapter = createMemoryAdapter();
+  const config = resolveConfig({
+    secret: 'test-secret-that-is-at-least-32-characters',
+    providers: [],
+    adapter,
+    session: { revocation: true }
+  });
+
+  /**
+   * Sign a user in and return their cookies
+   */
+  async function signIn(userId: string) {
+    const cookies = createCookies();
+    await setSessionCookie(cookies, createSession({ id: userId }, 60 * 60), config);
+    return cookies;
+  }
+
+  return { adapter, config, signIn, versions: getSessionVersionAdapter(adapter) };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('session revocation', () => {
+  it('ends the JWT sessions issued before it', async () => {
+    const { config, signIn, versions } = createConfig();
+    const revoked = await signIn('user');
+    const other = await signIn('other');
+
+    await revokeSessions(versions, 'user');
+
+    expect(await getSessionFromCookies(revoked, config)).toBeNull();
+    expect((await getSessionFromCookies(other, config))?.user.id).toBe('other');
+    expect((await getSessionFromCookies(await signIn('user'), config))?.user.id).toBe('user');
+  });
+
+  it('applies revocations from other processes once the cached version expires', async () => {
+    vi.useFakeTimers();
+    const { adapter, config, signIn } = createConfig();
+    const cookies = await signIn('user');
+    expect(await getSessionFromCookies(cookies, config)).not.toBeNull();
+
+    // Another server bumps the version without touching this process's cache
+    await adapter.incrementSessionVersion!('user');
+
+    expect(await getSessionFromCookies(cookies, config)).not.toBeNull();
+    vi.advanceTimersByTime(6000);
+    expect(await getSessionFromCookies(cookies, config)).toBeNull();
+  });
+
+  it('requires an adapter that stores session versions', () => {
+    const { getSessionVersion: _, ...adapter } = createMemoryAdapter();
+
+    expect(() => getSessionVersionAdapter(adapter)).toThrow('getSessionVersion');
+  });
+});
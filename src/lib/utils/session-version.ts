@@ -0,0 +1,117 @@
+/**
+ * Per-user session versions for revoking JWT sessions
+ */
+
+import type { Adapter, PartialAdapter } from '../types.js';
+
+/**
+ * Seconds a version read from the adapter is reused for
+ */
+const VERSION_CACHE_AGE = 5;
+
+/**
+ * Versions cached by a process before expired ones are swept
+ */
+const VERSION_CACHE_SWEEP_SIZE = 10_000;
+
+/**
+ * Adapter methods required to revoke sessions
+ */
+export type SessionVersionAdapter = Required<
+  Pick<Adapter, 'getSessionVersion' | 'incrementSessionVersion'>
+>;
+
+const sessionVersionAdapterMethods: (keyof SessionVersionAdapter)[] = [
+  'getSessionVersion',
+  'incrementSessionVersion'
+];
+
+/**
+ * Cached versions by adapter, then user ID
+ */
+const versionCaches = new WeakMap<
+  SessionVersionAdapter,
+  Map<string, { version: number; expires: number }>
+>();
+
+/**
+ * Get the adapter used to store session versions
+ *
+ * @throws if the adapter does not implement the session version methods
+ */
+export function getSessionVersionAdapter(
+  adapter: Adapter | PartialAdapter | undefined
+): SessionVersionAdapter {
+  const missing = sessionVersionAdapterMethods.filter(
+    (method) => typeof adapter?.[method] !== 'function'
+  );
+
+  if (missing.length > 0) {
+    throw new Error(`Session revocation requires an adapter implementing: ${missing.join(', ')}`);
+  }
+
+  return adapter as SessionVersionAdapter;
+}
+
+/**
+ * Get the version cache for an adapter
+ */
+function getVersionCache(
+  adapter: SessionVersionAdapter
+): Map<string, { version: number; expires: number }> {
+  let cache = versionCaches.get(adapter);
+  if (!cache) {
+    cache = new Map();
+    versionCaches.set(adapter, cache);
+  }
+  return cache;
+}
+
+/**
+ * Cache a user's version
+ */
+function cacheVersion(adapter: SessionVersionAdapter, userId: string, version: number): void {
+  const cache = getVersionCache(adapter);
+  const now = Date.now();
+
+  if (cache.size >= VERSION_CACHE_SWEEP_SIZE) {
+    for (const [key, entry] of cache) {
+      if (entry.expires <= now) {
+        cache.delete(key);
+      }
+    }
+  }
+
+  cache.set(userId, { version, expires: now + VERSION_CACHE_AGE * 1000 });
+}
+
+/**
+ * Get a user's session version
+ *
+ * Versions are cached for a few seconds, so a revocation made through
+ * another server process may take that long to apply here.
+ */
+export async function getSessionVersion(
+  adapter: SessionVersionAdapter,
+  userId: string
+): Promise<number> {
+  const cached = getVersionCache(adapter).get(userId);
+  if (cached && cached.expires > Date.now()) {
+    return cached.version;
+  }
+
+  const version = await adapter.getSessionVersion(userId);
+  cacheVersion(adapter, userId, version);
+  return version;
+}
+
+/**
+ * Revoke every JWT session issued to a user so far
+ */
+export async function revokeSessions(
+  adapter: SessionVersionAdapter,
+  userId: string
+): Promise<void> {
+  const version = await adapter.incrementSessionVersion(userId);
+  cacheVersion(adapter, userId, version);
+}
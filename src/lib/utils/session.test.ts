@@ -0,0 +1,249 @@
+import type { Cookies } from '@sveltejs/kit';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryAdapter } from '../adapters/memory.js';
+import { base64UrlDecode } from './crypto.js';
+import { resolveConfig } from '../middleware/index.js';
+import type { AuthConfig } from '../types.js';
+import {
+  createSession,
+  destroySession,
+  getSessionFromCookies,
+  renewSession,
+  setSessionCookie,
+  shouldUpdateSession
+} from './session.js';
+
+const secret = 'test-secret-that-is-at-least-32-characters';
+const newSecret = 'new-secret-that-is-at-least-32-characters';
+
+function createCookies(): Cookies {
+  const values = new Map<string, string>();
+
+  return {
+    get: (name: string) => values.get(name),
+    set: (name: string, value: string) => void values.set(name, value),
+    delete: (name: string) => void values.delete(name)
+  } as unknown as Cookies;
+}
+
+function createConfig(options: Partial<AuthConfig> = {}) {
+  return resolveConfig({ secret, providers: [], ...options });
+}
+
+describe('database sessions', () => {
+  const adapter = createMemoryAdapter();
+  const config = createConfig({ adapter, session: { strategy: 'database' } });
+
+  async function signIn(email: string) {
+    const user = await adapter.createUser({ email, emailVerified: null });
+    const cookies = createCookies();
+    await setSessionCookie(cookies, createSession(user, 60 * 60), config, {
+      client: { userAgent: 'Test', ipAddress: '127.0.0.1' }
+    });
+
+    return { user, cookies, token: cookies.get(config.cookies.name)! };
+  }
+
+  it('keep only an opaque token in the cookie', async () => {
+    const { user, token } = await signIn('opaque@example.com');
+
+    expect(token.split('.')).toHaveLength(1);
+    const stored = await adapter.getSessionAndUser(token);
+    expect(stored?.user.id).toBe(user.id);
+    expect(stored?.session).toMatchObject({ userAgent: 'Test', ipAddress: '127.0.0.1' });
+  });
+
+  it('are read back through the adapter', async () => {
+    const { user, cookies } = await signIn('read@example.com');
+
+    const session = await getSessionFromCookies(cookies, config);
+
+    expect(session?.user).toMatchObject({ id: user.id, email: 'read@example.com' });
+  });
+
+  it('end when the stored session is deleted', async () => {
+    const { cookies, token } = await signIn('deleted@example.com');
+
+    await adapter.deleteSession(token);
+
+    expect(await getSessionFromCookies(cookies, config)).toBeNull();
+  });
+
+  it('end when the stored session has expired', async () => {
+    const { cookies, token } = await signIn('expired@example.com');
+
+    await adapter.updateSession({ sessionToken: token, expires: new Date(Date.now() - 1000) });
+
+    expect(await getSessionFromCookies(cookies, config)).toBeNull();
+  });
+
+  it('are deleted on sign out', async () => {
+    const { cookies, token } = await signIn('signout@example.com');
+
+    await destroySession(cookies, config);
+
+    expect(cookies.get(config.cookies.name)).toBeUndefined();
+    expect(await adapter.getSessionAndUser(token)).toBeNull();
+  });
+
+  it('are not trusted from a forged token', async () => {
+    const cookies = createCookies();
+    cookies.set(config.cookies.name, 'forged-session-token', { path: '/' });
+
+    expect(await getSessionFromCookies(cookies, config)).toBeNull();
+  });
+});
+
+describe('session renewal', () => {
+  const hour = 60 * 60;
+  const day = 24 * hour;
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('is due once updateAge has passed since the session was issued', () => {
+    const session = createSession({ id: 'user' }, day);
+
+    expect(shouldUpdateSession(session, day, hour)).toBe(false);
+
+    session.expires = new Date(Date.now() + (day - hour - 1) * 1000);
+    expect(shouldUpdateSession(session, day, hour)).toBe(true);
+  });
+
+  it('re-issues a JWT with a new expiry and the same claims', async () => {
+    vi.useFakeTimers();
+    const config = createConfig({
+      session: { maxAge: day, updateAge: hour },
+      callbacks: {
+        jwt: ({ token, trigger }) => (trigger === 'signIn' ? { ...token, role: 'admin' } : token),
+        session: ({ session, token }) => ({ ...session, role: token.role })
+      }
+    });
+    const cookies = createCookies();
+    await setSessionCookie(cookies, createSession({ id: 'user' }, day), config, {
+      trigger: 'signIn'
+    });
+
+    vi.advanceTimersByTime(2 * hour * 1000);
+    const session = await getSessionFromCookies(cookies, config);
+    expect(shouldUpdateSession(session!, day, hour)).toBe(true);
+
+    const renewed = await renewSession(cookies, session!, config);
+
+    expect(renewed.expires.getTime()).toBe(Math.floor(Date.now() / 1000 + day) * 1000);
+    expect(renewed.role).toBe('admin');
+    expect(await getSessionFromCookies(cookies, config)).toEqual(renewed);
+  });
+
+  it('extends a stored database session', async () => {
+    vi.useFakeTimers();
+    const adapter = createMemoryAdapter();
+    const config = createConfig({
+      adapter,
+      session: { strategy: 'database', maxAge: day, updateAge: hour }
+    });
+    const user = await adapter.createUser({ email: 'renew@example.com', emailVerified: null });
+    const cookies = createCookies();
+    await setSessionCookie(cookies, createSession(user, day), config);
+
+    vi.advanceTimersByTime(2 * hour * 1000);
+    const renewed = await renewSession(
+      cookies,
+      (await getSessionFromCookies(cookies, config))!,
+      config
+    );
+
+    const stored = await adapter.getSessionAndUser(cookies.get(config.cookies.name)!);
+    expect(renewed.expires.getTime()).toBe(Date.now() + day * 1000);
+    expect(stored?.session.expires).toEqual(renewed.expires);
+  });
+});
+
+describe('encrypted sessions', () => {
+  it('are issued as JWE and read back', async () => {
+    const config = createConfig({ session: { encrypt: true } });
+    const cookies = createCookies();
+
+    await setSessionCookie(
+      cookies,
+      createSession({ id: 'user', email: 'user@example.com' }, 60),
+      config
+    );
+
+    expect(cookies.get(config.cookies.name)!.split('.')).toHaveLength(5);
+    expect((await getSessionFromCookies(cookies, config))?.user.id).toBe('user');
+  });
+
+  it('accept signed cookies issued before encryption was turned on', async () => {
+    const cookies = createCookies();
+    await setSessionCookie(cookies, createSession({ id: 'user' }, 60), createConfig());
+
+    const config = createConfig({ session: { encrypt: true } });
+
+    expect((await getSessionFromCookies(cookies, config))?.user.id).toBe('user');
+  });
+});
+
+describe('secret rotation', () => {
+  const name = createConfig().cookies.name;
+
+  function getKeyId(token: string): unknown {
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(token.split('.')[0]))).kid;
+  }
+
+  for (const encrypt of [false, true]) {
+    describe(encrypt ? 'encrypted tokens' : 'signed tokens', () => {
+      it('keeps sessions issued with an older secret and re-issues them', async () => {
+        const cookies = createCookies();
+        await setSessionCookie(
+          cookies,
+          createSession({ id: 'user' }, 60),
+          createConfig({ session: { encrypt } })
+        );
+        const oldToken = cookies.get(name);
+
+        const rotated = createConfig({ secret: [newSecret, secret], session: { encrypt } });
+
+        expect((await getSessionFromCookies(cookies, rotated))?.user.id).toBe('user');
+        expect(cookies.get(name)).not.toBe(oldToken);
+
+        const newOnly = createConfig({ secret: newSecret, session: { encrypt } });
+        expect((await getSessionFromCookies(cookies, newOnly))?.user.id).toBe('user');
+      });
+
+      it('ends sessions once their secret is removed', async () => {
+        const cookies = createCookies();
+        await setSessionCookie(
+          cookies,
+          createSession({ id: 'user' }, 60),
+          createConfig({ session: { encrypt } })
+        );
+
+        const newOnly = createConfig({ secret: newSecret, session: { encrypt } });
+
+        expect(await getSessionFromCookies(cookies, newOnly)).toBeNull();
+      });
+    });
+  }
+
+  it('issues tokens with the key ID of the primary secret', async () => {
+    const cookies = createCookies();
+    await setSessionCookie(
+      cookies,
+      createSession({ id: 'user' }, 60),
+      createConfig({ secret: [{ secret, kid: 'old' }] })
+    );
+    expect(getKeyId(cookies.get(name)!)).toBe('old');
+
+    const rotated = createConfig({
+      secret: [
+        { secret: newSecret, kid: 'new' },
+        { secret, kid: 'old' }
+      ]
+    });
+
+    expect((await getSessionFromCookies(cookies, rotated))?.user.id).toBe('user');
+    expect(getKeyId(cookies.get(name)!)).toBe('new');
+  });
+});
@@ -3,9 +3,29 @@
  */
 
 import type { Cookies } from '@sveltejs/kit';
-import type { Session, SessionData, User, CookieConfig, ResolvedAuthConfig } from '../types.js';
-import { createJWT, verifyJWT } from './jwt.js';
-import { encrypt, decrypt } from './crypto.js';
+import type {
+  Adapter,
+  Account,
+  AuthCallbacks,
+  Profile,
+  Session,
+  SessionData,
+  SecretKey,
+  User,
+  CookieConfig,
+  ResolvedAuthConfig
+} from '../types.js';
+import { createJWT, verifyJWT, encryptJWT, decryptJWT, type JWTPayload } from './jwt.js';
+import { encrypt, decrypt, generateRandomString, base64UrlDecode } from './crypto.js';
+import {
+  getSigningKeys,
+  isSigningAlgorithm,
+  type ImportedSigningKey,
+  type VerificationKey
+} from './keys.js';
+import { getSessionVersion, getSessionVersionAdapter } from './session-version.js';
+
+const decoder = new TextDecoder();
 
 /**
  * Default cookie configuration
@@ -19,6 +39,41 @@ export const defaultCookieConfig: CookieConfig = {
   sameSite: 'lax'
 };
 
+/**
+ * Adapter methods required by the 'database' session strategy
+ */
+export type SessionAdapter = Pick<
+  Adapter,
+  'createSession' | 'getSessionAndUser' | 'updateSession' | 'deleteSession'
+>;
+
+const sessionAdapterMethods: (keyof SessionAdapter)[] = [
+  'createSession',
+  'getSessionAndUser',
+  'updateSession',
+  'deleteSession'
+];
+
+/**
+ * Get the adapter used to persist database sessions
+ *
+ * @throws if the configured adapter does not implement the session methods
+ */
+export function getSessionAdapter(config: ResolvedAuthConfig): SessionAdapter {
+  const adapter = config.adapter;
+  const missing = sessionAdapterMethods.filter(
+    (method) => typeof adapter?.[method] !== 'function'
+  );
+
+  if (missing.length > 0) {
+    throw new Error(
+      `The 'database' session strategy requires an adapter implementing: ${missing.join(', ')}`
+    );
+  }
+
+  return adapter as SessionAdapter;
+}
+
 /**
  * Create a session from user data
  */
@@ -30,42 +85,290 @@ export function createSession(user: User, maxAge: number): Session {
   };
 }
 
+/**
+ * Seconds between updates of a database session's last seen time
+ */
+const LAST_SEEN_UPDATE_AGE = 5 * 60;
+
+/**
+ * Client a database session is issued to
+ */
+export interface SessionClient {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+/**
+ * Options for encoding a session token
+ */
+export interface EncodeSessionOptions {
+  /**
+   * Callbacks to run (the `jwt` callback is applied to the token)
+   */
+  callbacks?: AuthCallbacks;
+
+  /**
+   * Existing token payload to re-encode instead of building one from the session
+   */
+  token?: Record<string, unknown>;
+
+  /**
+   * Account used to sign in, passed to the `jwt` callback
+   */
+  account?: Account;
+
+  /**
+   * Provider profile, passed to the `jwt` callback
+   */
+  profile?: Profile;
+
+  /**
+   * What caused the token to be issued, passed to the `jwt` callback
+   */
+  trigger?: 'signIn' | 'signUp' | 'update';
+
+  /**
+   * Patch sent by the client, passed to the `jwt` callback as `session`
+   * when `trigger` is 'update'
+   */
+  update?: Record<string, unknown>;
+
+  /**
+   * User's session version, added to the token as `sv`
+   */
+  sessionVersion?: number;
+
+  /**
+   * Issue an encrypted token (JWE) instead of a signed JWT
+   */
+  encrypt?: boolean;
+
+  /**
+   * Key ID of the secret, added to the token header
+   */
+  kid?: string;
+
+  /**
+   * Private key to sign with instead of the secret
+   * (ignored when `encrypt` is set)
+   */
+  signingKey?: ImportedSigningKey;
+}
+
 /**
  * Encode session data to a JWT token
  */
 export async function encodeSession(
   session: Session,
   secret: string,
-  maxAge: number
+  maxAge: number,
+  options: EncodeSessionOptions = {}
 ): Promise<string> {
-  const payload = {
-    sub: session.user.id,
-    user: session.user,
-    accessToken: session.accessToken,
-    refreshToken: session.refreshToken
-  };
+  let payload: Record<string, unknown>;
+
+  if (options.token) {
+    // Drop the previous timestamps so the token is re-issued with new ones
+    payload = { ...options.token };
+    delete payload.iat;
+    delete payload.exp;
+  } else {
+    payload = {
+      sub: session.user.id,
+      user: session.user,
+      accessToken: session.accessToken,
+      refreshToken: session.refreshToken
+    };
 
-  return createJWT(payload, secret, { expiresIn: maxAge });
+    if (options.sessionVersion !== undefined) {
+      payload.sv = options.sessionVersion;
+    }
+  }
+
+  if (options.callbacks?.jwt) {
+    payload = await options.callbacks.jwt({
+      token: payload,
+      user: options.token ? undefined : session.user,
+      account: options.account,
+      profile: options.profile,
+      trigger: options.trigger,
+      session: options.update
+    });
+  }
+
+  if (options.encrypt) {
+    return encryptJWT(payload, secret, { expiresIn: maxAge, kid: options.kid });
+  }
+
+  return createJWT(payload, options.signingKey ?? secret, { expiresIn: maxAge, kid: options.kid });
 }
 
 /**
- * Decode a session token back to session data
+ * Read the algorithm and key ID from a token header without verifying it
  */
-export async function decodeSession(
+function getTokenHeader(token: string): { alg?: string; kid?: string } {
+  try {
+    const header = JSON.parse(decoder.decode(base64UrlDecode(token.split('.')[0]))) as {
+      alg?: unknown;
+      kid?: unknown;
+    };
+    return {
+      alg: typeof header.alg === 'string' ? header.alg : undefined,
+      kid: typeof header.kid === 'string' ? header.kid : undefined
+    };
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Verify or decrypt a session token against each active key
+ *
+ * Accepts encrypted tokens, HS256 tokens signed with a secret and
+ * tokens signed with one of the configured private keys, so existing
+ * cookies keep working when the session format changes. The key
+ * matching the token's `kid` is tried first.
+ *
+ * @returns The payload and the key that verified it
+ */
+async function readSessionToken(
+  token: string,
+  secrets: SecretKey[],
+  signingKeys: VerificationKey[] = []
+): Promise<{ payload: JWTPayload; key: SecretKey | VerificationKey } | null> {
+  const { alg, kid } = getTokenHeader(token);
+
+  if (isSigningAlgorithm(alg)) {
+    const key = signingKeys.find((key) => key.alg === alg && key.kid === kid);
+    const payload = key ? await verifyJWT(token, [key]) : null;
+    return payload && key ? { payload, key } : null;
+  }
+
+  const encrypted = token.split('.').length === 5;
+  const matched = kid ? secrets.findIndex((key) => key.kid === kid) : -1;
+  const order = secrets.map((_, index) => index);
+  if (matched > 0) {
+    order.splice(matched, 1);
+    order.unshift(matched);
+  }
+
+  for (const keyIndex of order) {
+    const key = secrets[keyIndex];
+    const payload = encrypted
+      ? await decryptJWT(token, key.secret)
+      : await verifyJWT(token, key.secret);
+
+    if (payload) {
+      return { payload, key };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read a session token with the configured secrets and signing keys
+ */
+async function readConfiguredToken(
   token: string,
-  secret: string
+  config: ResolvedAuthConfig
+): Promise<{ payload: JWTPayload; key: SecretKey | VerificationKey } | null> {
+  return readSessionToken(token, config.secrets, await getSigningKeys(config.signingKeys));
+}
+
+/**
+ * Get the options used to issue session tokens for a configuration
+ */
+async function getIssueOptions(
+  config: ResolvedAuthConfig
+): Promise<Pick<EncodeSessionOptions, 'callbacks' | 'encrypt' | 'kid' | 'signingKey'>> {
+  const [signingKey] = await getSigningKeys(config.signingKeys);
+
+  return {
+    callbacks: config.callbacks,
+    encrypt: config.session.encrypt,
+    kid: config.secrets[0].kid,
+    signingKey
+  };
+}
+
+/**
+ * Check whether a token was issued with the key new tokens are issued with
+ */
+async function isIssuedWithPrimaryKey(
+  key: SecretKey | VerificationKey,
+  config: ResolvedAuthConfig
+): Promise<boolean> {
+  const [signingKey] = await getSigningKeys(config.signingKeys);
+  const primary = signingKey && !config.session.encrypt ? signingKey : config.secrets[0];
+  return key === primary;
+}
+
+/**
+ * Normalize a secret or list of secrets to secret keys
+ */
+function toSecretKeys(secret: string | SecretKey[]): SecretKey[] {
+  return typeof secret === 'string' ? [{ secret }] : secret;
+}
+
+/**
+ * Build a session from a decoded token payload
+ */
+async function toSession(
+  payload: JWTPayload,
+  callbacks: AuthCallbacks
 ): Promise<Session | null> {
-  const payload = await verifyJWT(token, secret);
-  if (!payload || !payload.user) {
+  if (!payload.user) {
     return null;
   }
 
-  return {
+  const session: Session = {
     user: payload.user as User,
     expires: new Date((payload.exp ?? 0) * 1000),
     accessToken: payload.accessToken as string | undefined,
     refreshToken: payload.refreshToken as string | undefined
   };
+
+  return applySessionCallback(session, payload, callbacks);
+}
+
+/**
+ * Decode a session token back to session data
+ *
+ * When callbacks are given, the `session` callback receives the
+ * decoded token payload and its result is returned.
+ */
+export async function decodeSession(
+  token: string,
+  secret: string | SecretKey[],
+  callbacks: AuthCallbacks = {},
+  signingKeys: VerificationKey[] = []
+): Promise<Session | null> {
+  const result = await readSessionToken(token, toSecretKeys(secret), signingKeys);
+  if (!result) {
+    return null;
+  }
+
+  return toSession(result.payload, callbacks);
+}
+
+/**
+ * Run the `session` callback, if configured
+ */
+async function applySessionCallback(
+  session: Session,
+  token: JWTPayload,
+  callbacks: AuthCallbacks,
+  user?: User
+): Promise<Session> {
+  if (!callbacks.session) {
+    return session;
+  }
+
+  return callbacks.session({
+    session,
+    token,
+    user: user ?? session.user
+  });
 }
 
 /**
@@ -81,23 +384,147 @@ export async function getSessionFromCookies(
   }
 
   try {
-    return await decodeSession(token, config.secret);
+    if (config.session.strategy === 'database') {
+      return await getDatabaseSession(token, config);
+    }
+
+    const result = await readConfiguredToken(token, config);
+    if (!result) {
+      return null;
+    }
+
+    if (!(await isCurrentSessionVersion(result.payload, config))) {
+      return null;
+    }
+
+    const session = await toSession(result.payload, config.callbacks);
+
+    // Re-issue cookies signed with a rotated-out secret or key
+    if (session && !(await isIssuedWithPrimaryKey(result.key, config))) {
+      return await renewSession(cookies, session, config);
+    }
+
+    return session;
   } catch {
     return null;
   }
 }
 
+/**
+ * Check a token against its user's session version, when revocation is on
+ *
+ * Tokens issued before revocation was turned on count as version 0.
+ */
+async function isCurrentSessionVersion(
+  payload: JWTPayload,
+  config: ResolvedAuthConfig
+): Promise<boolean> {
+  const userId = payload.sub ?? (payload.user as User | undefined)?.id;
+  if (!config.session.revocation || !userId) {
+    return true;
+  }
+
+  const adapter = getSessionVersionAdapter(config.adapter);
+  const version = typeof payload.sv === 'number' ? payload.sv : 0;
+  return version === (await getSessionVersion(adapter, userId));
+}
+
+/**
+ * Resolve an opaque session token through the adapter
+ */
+async function getDatabaseSession(
+  sessionToken: string,
+  config: ResolvedAuthConfig
+): Promise<Session | null> {
+  const adapter = getSessionAdapter(config);
+  const result = await adapter.getSessionAndUser(sessionToken);
+  if (!result) {
+    return null;
+  }
+
+  const { session, user } = result;
+
+  if (session.expires.getTime() < Date.now()) {
+    await adapter.deleteSession(sessionToken);
+    return null;
+  }
+
+  if (!session.lastSeenAt || session.lastSeenAt.getTime() < Date.now() - LAST_SEEN_UPDATE_AGE * 1000) {
+    try {
+      await adapter.updateSession({ sessionToken, lastSeenAt: new Date() });
+    } catch (error) {
+      // Only the sessions list shows it; try again on the next request
+      if (config.debug) {
+        console.error('Failed to update session last seen time:', error);
+      }
+    }
+  }
+
+  // There is no token payload for database sessions
+  return applySessionCallback(
+    {
+      user: {
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        image: user.image
+      },
+      expires: session.expires
+    },
+    {},
+    config.callbacks,
+    user
+  );
+}
+
 /**
  * Set session in cookies
  */
 export async function setSessionCookie(
   cookies: Cookies,
   session: Session,
-  config: ResolvedAuthConfig
+  config: ResolvedAuthConfig,
+  options: Omit<EncodeSessionOptions, 'callbacks'> & { client?: SessionClient } = {}
 ): Promise<void> {
+  const { client, ...encodeOptions } = options;
   const maxAge = config.session.maxAge ?? 30 * 24 * 60 * 60; // 30 days default
-  const token = await encodeSession(session, config.secret, maxAge);
+  let token: string;
+
+  if (config.session.strategy === 'database') {
+    // Store an opaque token in the cookie and keep the session server-side
+    token = generateRandomString(32);
+    await getSessionAdapter(config).createSession({
+      userId: session.user.id,
+      sessionToken: token,
+      expires: session.expires,
+      userAgent: client?.userAgent ?? null,
+      ipAddress: client?.ipAddress ?? null,
+      lastSeenAt: new Date()
+    });
+  } else {
+    const sessionVersion = config.session.revocation
+      ? await getSessionVersion(getSessionVersionAdapter(config.adapter), session.user.id)
+      : undefined;
 
+    token = await encodeSession(session, config.secret, maxAge, {
+      sessionVersion,
+      ...encodeOptions,
+      ...(await getIssueOptions(config))
+    });
+  }
+
+  writeSessionCookie(cookies, token, config, maxAge);
+}
+
+/**
+ * Write a session token to the session cookie
+ */
+function writeSessionCookie(
+  cookies: Cookies,
+  token: string,
+  config: ResolvedAuthConfig,
+  maxAge: number
+): void {
   cookies.set(config.cookies.name, token, {
     path: config.cookies.path,
     httpOnly: config.cookies.httpOnly,
@@ -119,17 +546,46 @@ export function deleteSessionCookie(
   });
 }
 
+/**
+ * Destroy the current session
+ *
+ * Deletes the stored session when using the 'database' strategy
+ * and removes the session cookie.
+ */
+export async function destroySession(
+  cookies: Cookies,
+  config: ResolvedAuthConfig
+): Promise<void> {
+  const token = cookies.get(config.cookies.name);
+
+  if (token && config.session.strategy === 'database') {
+    try {
+      await getSessionAdapter(config).deleteSession(token);
+    } catch (error) {
+      if (config.debug) {
+        console.error('Failed to delete session:', error);
+      }
+    }
+  }
+
+  deleteSessionCookie(cookies, config);
+}
+
 /**
  * Check if a session needs to be updated (based on updateAge)
+ *
+ * Sessions are always issued or renewed with an expiry of `maxAge`
+ * seconds, so the time of the last update is `expires - maxAge`.
  */
-export function shouldUpdateSession(session: Session, updateAge: number): boolean {
-  const now = Date.now();
-  const expires = session.expires.getTime();
-  const timeLeft = expires - now;
-  const maxAge = expires - (session as { iat?: number }).iat! * 1000;
+export function shouldUpdateSession(
+  session: Session,
+  maxAge: number,
+  updateAge: number
+): boolean {
+  const timeLeft = session.expires.getTime() - Date.now();
 
   // Update if more than updateAge has passed since last update
-  return timeLeft < maxAge - updateAge * 1000;
+  return timeLeft < (maxAge - updateAge) * 1000;
 }
 
 /**
@@ -141,3 +597,89 @@ export function refreshSession(session: Session, maxAge: number): Session {
     expires: new Date(Date.now() + maxAge * 1000)
   };
 }
+
+/**
+ * Renew a session and re-issue the session cookie
+ *
+ * Re-signs the JWT for the 'jwt' strategy, or extends the stored
+ * session expiry for the 'database' strategy.
+ */
+export async function renewSession(
+  cookies: Cookies,
+  session: Session,
+  config: ResolvedAuthConfig
+): Promise<Session> {
+  const maxAge = config.session.maxAge ?? 30 * 24 * 60 * 60;
+  const renewed = refreshSession(session, maxAge);
+
+  if (config.session.strategy === 'database') {
+    const sessionToken = cookies.get(config.cookies.name);
+    if (!sessionToken) {
+      return session;
+    }
+
+    const updated = await getSessionAdapter(config).updateSession({
+      sessionToken,
+      expires: renewed.expires
+    });
+    if (!updated) {
+      return session;
+    }
+
+    writeSessionCookie(cookies, sessionToken, config, maxAge);
+    return renewed;
+  }
+
+  // Re-encode the existing token so custom claims survive renewal
+  const current = cookies.get(config.cookies.name);
+  const result = current ? await readConfiguredToken(current, config) : null;
+  if (!result) {
+    return session;
+  }
+
+  const jwt = await encodeSession(renewed, config.secret, maxAge, {
+    ...(await getIssueOptions(config)),
+    token: result.payload
+  });
+  writeSessionCookie(cookies, jwt, config, maxAge);
+
+  const reissued = await readConfiguredToken(jwt, config);
+  return (reissued && (await toSession(reissued.payload, config.callbacks))) ?? renewed;
+}
+
+/**
+ * Re-issue the session cookie with a patch from the client
+ *
+ * The `jwt` callback decides what the patch changes. Database sessions
+ * have no token, so they are re-read with the `session` callback.
+ *
+ * @returns The updated session, or null if there is no valid session
+ */
+export async function updateSessionToken(
+  cookies: Cookies,
+  session: Session,
+  config: ResolvedAuthConfig,
+  update: Record<string, unknown>
+): Promise<Session | null> {
+  if (config.session.strategy === 'database') {
+    return getSessionFromCookies(cookies, config);
+  }
+
+  const current = cookies.get(config.cookies.name);
+  const result = current ? await readConfiguredToken(current, config) : null;
+  if (!result || !(await isCurrentSessionVersion(result.payload, config))) {
+    return null;
+  }
+
+  const maxAge = config.session.maxAge ?? 30 * 24 * 60 * 60;
+  const jwt = await encodeSession(session, config.secret, maxAge, {
+    ...(await getIssueOptions(config)),
+    token: result.payload,
+    trigger: 'update',
+    update
+  });
+  writeSessionCookie(cookies, jwt, config, maxAge);
+
+  const reissued = await readConfiguredToken(jwt, config);
+  return reissued ? toSession(reissued.payload, config.callbacks) : null;
+}
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  base32Decode,
+  base32Encode,
+  generateTotp,
+  getTotpStep,
+  hashRecoveryCode,
+  verifyTotp
+} from './totp.js';
+
+// RFC 6238 appendix B test secret ("12345678901234567890")
+const secret = base32Encode(new TextEncoder().encode('12345678901234567890'));
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('base32', () => {
+  it('round-trips bytes', () => {
+    const bytes = crypto.getRandomValues(new Uint8Array(20));
+
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+  });
+});
+
+describe('generateTotp', () => {
+  it('matches the RFC 6238 test vectors', async () => {
+    expect(await generateTotp(secret, getTotpStep(30, 59_000), { digits: 8 })).toBe('94287082');
+    expect(await generateTotp(secret, getTotpStep(30, 1_111_111_109_000), { digits: 8 })).toBe(
+      '07081804'
+    );
+  });
+});
+
+describe('verifyTotp', () => {
+  const now = 1_700_000_000_000;
+  const step = getTotpStep(30, now);
+
+  it('returns the step of a current code', async () => {
+    vi.useFakeTimers({ now });
+
+    expect(await verifyTotp(secret, await generateTotp(secret, step))).toBe(step);
+  });
+
+  it('accepts codes within the window only', async () => {
+    vi.useFakeTimers({ now });
+
+    expect(await verifyTotp(secret, await generateTotp(secret, step - 1))).toBe(step - 1);
+    expect(await verifyTotp(secret, await generateTotp(secret, step + 1))).toBe(step + 1);
+    expect(await verifyTotp(secret, await generateTotp(secret, step - 2))).toBeNull();
+    expect(await verifyTotp(secret, await generateTotp(secret, step - 2), { window: 2 })).toBe(
+      step - 2
+    );
+  });
+
+  it('rejects the last used step and earlier ones', async () => {
+    vi.useFakeTimers({ now });
+    const code = await generateTotp(secret, step);
+
+    expect(await verifyTotp(secret, code, { lastUsedStep: step })).toBeNull();
+    expect(await verifyTotp(secret, code, { lastUsedStep: step + 1 })).toBeNull();
+    expect(await verifyTotp(secret, code, { lastUsedStep: step - 1 })).toBe(step);
+  });
+
+  it('ignores whitespace and rejects malformed codes', async () => {
+    vi.useFakeTimers({ now });
+    const code = await generateTotp(secret, step);
+
+    expect(await verifyTotp(secret, `${code.slice(0, 3)} ${code.slice(3)}`)).toBe(step);
+    expect(await verifyTotp(secret, code.slice(1))).toBeNull();
+    expect(await verifyTotp(secret, 'abcdef')).toBeNull();
+  });
+});
+
+describe('hashRecoveryCode', () => {
+  it('ignores case and surrounding whitespace', async () => {
+    expect(await hashRecoveryCode(' ABCDE-12345 ')).toBe(await hashRecoveryCode('abcde-12345'));
+  });
+});
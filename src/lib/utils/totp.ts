@@ -0,0 +1,212 @@
+/**
+ * Time-based one-time passwords (RFC 6238) and recovery codes
+ */
+
+import { generateRandomString, timingSafeEqual } from './crypto.js';
+
+const encoder = new TextEncoder();
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpOptions {
+  /**
+   * Number of digits in a code (default: 6)
+   */
+  digits?: number;
+
+  /**
+   * Time step in seconds (default: 30)
+   */
+  period?: number;
+}
+
+export interface VerifyTotpOptions extends TotpOptions {
+  /**
+   * Time steps of clock skew accepted either side of now (default: 1)
+   */
+  window?: number;
+
+  /**
+   * Last time step a code was accepted for; it and earlier steps are rejected
+   */
+  lastUsedStep?: number | null;
+}
+
+/**
+ * Encode bytes as unpadded base32
+ */
+export function base32Encode(data: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode base32, ignoring case, spaces and padding
+ */
+export function base32Decode(data: string): Uint8Array {
+  const clean = data.toUpperCase().replace(/[\s=]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Generate a random base32 TOTP secret (160 bits)
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+/**
+ * Get the time step for a timestamp
+ */
+export function getTotpStep(period: number = 30, timestamp: number = Date.now()): number {
+  return Math.floor(timestamp / 1000 / period);
+}
+
+/**
+ * Generate the code for a time step (HMAC-SHA1, RFC 4226 truncation)
+ */
+export async function generateTotp(
+  secret: string,
+  step: number,
+  options: TotpOptions = {}
+): Promise<string> {
+  const digits = options.digits ?? 6;
+
+  const counter = new Uint8Array(8);
+  new DataView(counter.buffer).setBigUint64(0, BigInt(step));
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret) as unknown as BufferSource,
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign']
+  );
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter));
+
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary =
+    ((hmac[offset] & 127) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+/**
+ * Verify a code against the current time step and the skew window
+ *
+ * @returns The matched time step, or null if the code is invalid or
+ *   was already used
+ */
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  options: VerifyTotpOptions = {}
+): Promise<number | null> {
+  const digits = options.digits ?? 6;
+  const window = options.window ?? 1;
+  const normalized = code.replace(/\s/g, '');
+
+  if (!/^\d+$/.test(normalized) || normalized.length !== digits) {
+    return null;
+  }
+
+  const current = getTotpStep(options.period);
+  let matched: number | null = null;
+
+  // Check every step in the window so timing does not reveal which matched
+  for (let step = current - window; step <= current + window; step++) {
+    if (timingSafeEqual(await generateTotp(secret, step, options), normalized)) {
+      matched = step;
+    }
+  }
+
+  if (matched === null || (options.lastUsedStep != null && matched <= options.lastUsedStep)) {
+    return null;
+  }
+
+  return matched;
+}
+
+/**
+ * Build an `otpauth://` URI for authenticator apps (usually shown as a QR code)
+ */
+export function createTotpUri(params: {
+  secret: string;
+  issuer: string;
+  account: string;
+  digits?: number;
+  period?: number;
+}): string {
+  const label = `${encodeURIComponent(params.issuer)}:${encodeURIComponent(params.account)}`;
+  const query = new URLSearchParams({
+    secret: params.secret,
+    issuer: params.issuer,
+    algorithm: 'SHA1',
+    digits: String(params.digits ?? 6),
+    period: String(params.period ?? 30)
+  });
+
+  return `otpauth://totp/${label}?${query}`;
+}
+
+/**
+ * Generate recovery codes (e.g. 'a1b2c-3d4e5')
+ */
+export function generateRecoveryCodes(count: number = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const code = generateRandomString(5);
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+/**
+ * Hash a recovery code for storage
+ *
+ * Recovery codes are random, so a fast hash is sufficient.
+ */
+export async function hashRecoveryCode(code: string): Promise<string> {
+  const normalized = code.trim().toLowerCase();
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(normalized));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,222 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { base64UrlDecode, base64UrlEncode } from './crypto.js';
+import {
+  verifyAuthenticationResponse,
+  type AuthenticationResponseJSON,
+  type VerifiedAuthentication,
+  type WebAuthnExpectations
+} from './webauthn.js';
+
+const encoder = new TextEncoder();
+
+const expected: WebAuthnExpectations = {
+  challenge: 'challenge-1',
+  origin: 'https://example.com',
+  rpId: 'example.com'
+};
+
+/**
+ * A software authenticator holding one P-256 passkey
+ */
+interface TestAuthenticator {
+  privateKey: CryptoKey;
+  /**
+   * COSE public key, base64url encoded as the adapter stores it
+   */
+  publicKey: string;
+}
+
+let authenticator: TestAuthenticator;
+let otherAuthenticator: TestAuthenticator;
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+}
+
+/**
+ * Encode an EC2 P-256 public key as a COSE key: {1: 2, 3: -7, -1: 1, -2: x, -3: y}
+ */
+function encodeCoseKey(x: Uint8Array, y: Uint8Array): Uint8Array {
+  return concat(
+    new Uint8Array([0xa5, 0x01, 0x02, 0x03, 0x26, 0x20, 0x01, 0x21, 0x58, 0x20]),
+    x,
+    new Uint8Array([0x22, 0x58, 0x20]),
+    y
+  );
+}
+
+/**
+ * Convert a raw r || s ECDSA signature to DER, as authenticators send it
+ */
+function rawToDerSignature(raw: Uint8Array): Uint8Array {
+  const integer = (value: Uint8Array): Uint8Array => {
+    let start = 0;
+    while (start < value.length - 1 && value[start] === 0) {
+      start++;
+    }
+    const trimmed = value.slice(start);
+    const bytes = trimmed[0] & 0x80 ? concat(new Uint8Array([0]), trimmed) : trimmed;
+    return concat(new Uint8Array([0x02, bytes.length]), bytes);
+  };
+
+  const body = concat(integer(raw.slice(0, 32)), integer(raw.slice(32)));
+  return concat(new Uint8Array([0x30, body.length]), body);
+}
+
+async function createAuthenticator(): Promise<TestAuthenticator> {
+  const pair = (await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, [
+    'sign',
+    'verify'
+  ])) as CryptoKeyPair;
+  const jwk = await crypto.subtle.exportKey('jwk', pair.publicKey);
+  const coseKey = encodeCoseKey(base64UrlDecode(jwk.x!), base64UrlDecode(jwk.y!));
+
+  return { privateKey: pair.privateKey, publicKey: base64UrlEncode(coseKey) };
+}
+
+/**
+ * Sign an assertion the way a browser and authenticator would
+ */
+async function createAssertion(
+  options: {
+    authenticator?: TestAuthenticator;
+    type?: string;
+    challenge?: string;
+    origin?: string;
+    rpId?: string;
+    flags?: number;
+    counter?: number;
+  } = {}
+): Promise<AuthenticationResponseJSON> {
+  const clientData = encoder.encode(
+    JSON.stringify({
+      type: options.type ?? 'webauthn.get',
+      challenge: options.challenge ?? expected.challenge,
+      origin: options.origin ?? expected.origin
+    })
+  );
+
+  const rpIdHash = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', encoder.encode(options.rpId ?? expected.rpId))
+  );
+  const counter = new Uint8Array(4);
+  new DataView(counter.buffer).setUint32(0, options.counter ?? 1);
+  // User present and user verified
+  const authenticatorData = concat(rpIdHash, new Uint8Array([options.flags ?? 0x05]), counter);
+
+  const clientDataHash = new Uint8Array(await crypto.subtle.digest('SHA-256', clientData));
+  const signature = new Uint8Array(
+    await crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      (options.authenticator ?? authenticator).privateKey,
+      concat(authenticatorData, clientDataHash) as unknown as BufferSource
+    )
+  );
+
+  return {
+    id: 'credential-1',
+    rawId: 'credential-1',
+    type: 'public-key',
+    response: {
+      clientDataJSON: base64UrlEncode(clientData),
+      authenticatorData: base64UrlEncode(authenticatorData),
+      signature: base64UrlEncode(rawToDerSignature(signature))
+    }
+  };
+}
+
+function verify(
+  response: AuthenticationResponseJSON,
+  counter = 0,
+  expectations: WebAuthnExpectations = expected
+): Promise<VerifiedAuthentication> {
+  return verifyAuthenticationResponse(
+    response,
+    { publicKey: authenticator.publicKey, counter },
+    expectations
+  );
+}
+
+beforeAll(async () => {
+  authenticator = await createAuthenticator();
+  otherAuthenticator = await createAuthenticator();
+});
+
+describe('verifyAuthenticationResponse', () => {
+  it('returns the new counter of a valid assertion', async () => {
+    expect(await verify(await createAssertion({ counter: 7 }), 6)).toEqual({
+      counter: 7,
+      userVerified: true
+    });
+  });
+
+  it('accepts any of several origins', async () => {
+    const response = await createAssertion({ origin: 'https://app.example.com' });
+    const origin = ['https://example.com', 'https://app.example.com'];
+
+    await expect(verify(response, 0, { ...expected, origin })).resolves.toMatchObject({
+      counter: 1
+    });
+  });
+
+  it('rejects a signature from another key', async () => {
+    const response = await createAssertion({ authenticator: otherAuthenticator });
+
+    await expect(verify(response)).rejects.toThrow('Invalid signature');
+  });
+
+  it('rejects tampered authenticator data', async () => {
+    const response = await createAssertion({ counter: 1 });
+    const authenticatorData = base64UrlDecode(response.response.authenticatorData);
+    authenticatorData[36] = 9;
+    response.response.authenticatorData = base64UrlEncode(authenticatorData);
+
+    await expect(verify(response)).rejects.toThrow('Invalid signature');
+  });
+
+  it('rejects another challenge, origin or ceremony', async () => {
+    await expect(verify(await createAssertion({ challenge: 'challenge-2' }))).rejects.toThrow(
+      'Challenge mismatch'
+    );
+    await expect(verify(await createAssertion({ origin: 'https://evil.example' }))).rejects.toThrow(
+      'Unexpected origin'
+    );
+    await expect(verify(await createAssertion({ type: 'webauthn.create' }))).rejects.toThrow(
+      'Unexpected client data type'
+    );
+  });
+
+  it('rejects another relying party', async () => {
+    await expect(verify(await createAssertion({ rpId: 'evil.example' }))).rejects.toThrow(
+      'Relying party ID mismatch'
+    );
+  });
+
+  it('requires user presence, and verification when asked', async () => {
+    await expect(verify(await createAssertion({ flags: 0x04 }))).rejects.toThrow(
+      'User was not present'
+    );
+
+    const unverified = await createAssertion({ flags: 0x01 });
+    await expect(verify(unverified)).resolves.toEqual({ counter: 1, userVerified: false });
+    await expect(
+      verify(unverified, 0, { ...expected, requireUserVerification: true })
+    ).rejects.toThrow('User was not verified');
+  });
+
+  it('rejects a counter that did not increase', async () => {
+    await expect(verify(await createAssertion({ counter: 5 }), 5)).rejects.toThrow(
+      'Signature counter did not increase'
+    );
+  });
+
+  it('allows authenticators without a counter', async () => {
+    expect((await verify(await createAssertion({ counter: 0 }), 0)).counter).toBe(0);
+  });
+});
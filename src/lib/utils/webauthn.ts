@@ -0,0 +1,369 @@
+/**
+ * WebAuthn registration and authentication verification
+ *
+ * Attestation statements are not verified: registrations are accepted
+ * from any authenticator, as with `attestation: 'none'`.
+ */
+
+import type { SigningAlgorithm } from '../types.js';
+import { base64UrlEncode, base64UrlDecode } from './crypto.js';
+import { decodeCbor, decodeCborItem } from './cbor.js';
+import { signingAlgorithms } from './keys.js';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * COSE algorithm identifiers offered when registering passkeys
+ */
+export const COSE_ALGORITHMS: Record<number, SigningAlgorithm> = {
+  [-7]: 'ES256',
+  [-8]: 'EdDSA',
+  [-257]: 'RS256'
+};
+
+/**
+ * Registration response as serialized by the browser (`PublicKeyCredential.toJSON()`)
+ */
+export interface RegistrationResponseJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    attestationObject: string;
+    transports?: string[];
+  };
+}
+
+/**
+ * Authentication response as serialized by the browser (`PublicKeyCredential.toJSON()`)
+ */
+export interface AuthenticationResponseJSON {
+  id: string;
+  rawId: string;
+  type: 'public-key';
+  response: {
+    clientDataJSON: string;
+    authenticatorData: string;
+    signature: string;
+    userHandle?: string | null;
+  };
+}
+
+/**
+ * Parsed authenticator data
+ */
+export interface AuthenticatorData {
+  rpIdHash: Uint8Array;
+  userPresent: boolean;
+  userVerified: boolean;
+  counter: number;
+  /**
+   * Attested credential, present when registering
+   */
+  credential?: {
+    aaguid: Uint8Array;
+    credentialId: Uint8Array;
+    publicKey: Uint8Array;
+  };
+}
+
+/**
+ * What a response is checked against
+ */
+export interface WebAuthnExpectations {
+  challenge: string;
+  origin: string | string[];
+  rpId: string;
+  requireUserVerification?: boolean;
+}
+
+/**
+ * A credential created by a verified registration
+ */
+export interface VerifiedRegistration {
+  credentialId: string;
+  publicKey: string;
+  counter: number;
+  transports: string[];
+}
+
+/**
+ * The outcome of a verified authentication
+ */
+export interface VerifiedAuthentication {
+  /**
+   * The new signature counter
+   */
+  counter: number;
+  /**
+   * Whether the authenticator verified the user (UV flag), e.g. with a
+   * PIN or biometric, rather than only testing for presence
+   */
+  userVerified: boolean;
+}
+
+interface ClientData {
+  type: string;
+  challenge: string;
+  origin: string;
+}
+
+/**
+ * Parse the authenticator data structure (WebAuthn §6.1)
+ */
+export function parseAuthenticatorData(data: Uint8Array): AuthenticatorData {
+  if (data.length < 37) {
+    throw new Error('Authenticator data is too short');
+  }
+
+  const flags = data[32];
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const parsed: AuthenticatorData = {
+    rpIdHash: data.slice(0, 32),
+    userPresent: (flags & 0x01) !== 0,
+    userVerified: (flags & 0x04) !== 0,
+    counter: view.getUint32(33)
+  };
+
+  // Attested credential data follows when the AT flag is set
+  if (flags & 0x40) {
+    const idLength = view.getUint16(53);
+    const credentialId = data.slice(55, 55 + idLength);
+    const { length } = decodeCborItem(data, 55 + idLength);
+
+    parsed.credential = {
+      aaguid: data.slice(37, 53),
+      credentialId,
+      publicKey: data.slice(55 + idLength, 55 + idLength + length)
+    };
+  }
+
+  return parsed;
+}
+
+/**
+ * Convert a COSE public key to a JWK and its signing algorithm
+ */
+export function coseToJwk(cose: Uint8Array): { alg: SigningAlgorithm; jwk: JsonWebKey } {
+  const key = decodeCbor(cose);
+  if (!(key instanceof Map)) {
+    throw new Error('Invalid COSE key');
+  }
+
+  const alg = COSE_ALGORITHMS[key.get(3) as number];
+  if (!alg) {
+    throw new Error(`Unsupported COSE algorithm: ${key.get(3)}`);
+  }
+
+  const bytes = (label: number): string => {
+    const value = key.get(label);
+    if (!(value instanceof Uint8Array)) {
+      throw new Error('Invalid COSE key');
+    }
+    return base64UrlEncode(value);
+  };
+
+  switch (key.get(1)) {
+    case 2: // EC2
+      if (key.get(-1) !== 1) {
+        throw new Error('Unsupported COSE curve');
+      }
+      return { alg, jwk: { kty: 'EC', crv: 'P-256', x: bytes(-2), y: bytes(-3) } };
+    case 1: // OKP
+      if (key.get(-1) !== 6) {
+        throw new Error('Unsupported COSE curve');
+      }
+      return { alg, jwk: { kty: 'OKP', crv: 'Ed25519', x: bytes(-2) } };
+    case 3: // RSA
+      return { alg, jwk: { kty: 'RSA', n: bytes(-1), e: bytes(-2) } };
+    default:
+      throw new Error(`Unsupported COSE key type: ${key.get(1)}`);
+  }
+}
+
+/**
+ * Convert a DER-encoded ECDSA signature to the raw r || s form WebCrypto expects
+ */
+function derToRawSignature(der: Uint8Array): Uint8Array {
+  const readInteger = (offset: number): { value: Uint8Array; next: number } => {
+    if (der[offset] !== 0x02) {
+      throw new Error('Invalid ECDSA signature');
+    }
+    const length = der[offset + 1];
+    let value = der.slice(offset + 2, offset + 2 + length);
+    while (value.length > 32 && value[0] === 0) {
+      value = value.slice(1);
+    }
+    if (value.length > 32) {
+      throw new Error('Invalid ECDSA signature');
+    }
+    const padded = new Uint8Array(32);
+    padded.set(value, 32 - value.length);
+    return { value: padded, next: offset + 2 + length };
+  };
+
+  if (der[0] !== 0x30) {
+    throw new Error('Invalid ECDSA signature');
+  }
+
+  const r = readInteger(2);
+  const s = readInteger(r.next);
+
+  const raw = new Uint8Array(64);
+  raw.set(r.value, 0);
+  raw.set(s.value, 32);
+  return raw;
+}
+
+/**
+ * Verify a signature with a COSE public key
+ */
+async function verifySignature(
+  publicKey: Uint8Array,
+  signature: Uint8Array,
+  data: Uint8Array
+): Promise<boolean> {
+  const { alg, jwk } = coseToJwk(publicKey);
+  const algorithm = signingAlgorithms[alg];
+  const key = await crypto.subtle.importKey('jwk', jwk, algorithm.importParams, false, [
+    'verify'
+  ]);
+
+  return crypto.subtle.verify(
+    algorithm.signParams,
+    key,
+    (alg === 'ES256' ? derToRawSignature(signature) : signature) as unknown as BufferSource,
+    data as unknown as BufferSource
+  );
+}
+
+/**
+ * Check the client data against the expected ceremony, challenge and origin
+ */
+function verifyClientData(
+  clientDataJSON: string,
+  type: 'webauthn.create' | 'webauthn.get',
+  expected: WebAuthnExpectations
+): Uint8Array {
+  const bytes = base64UrlDecode(clientDataJSON);
+  const clientData = JSON.parse(decoder.decode(bytes)) as ClientData;
+  const origins = Array.isArray(expected.origin) ? expected.origin : [expected.origin];
+
+  if (clientData.type !== type) {
+    throw new Error(`Unexpected client data type: ${clientData.type}`);
+  }
+  if (clientData.challenge !== expected.challenge) {
+    throw new Error('Challenge mismatch');
+  }
+  if (!origins.includes(clientData.origin)) {
+    throw new Error(`Unexpected origin: ${clientData.origin}`);
+  }
+
+  return bytes;
+}
+
+/**
+ * Check the authenticator data flags and relying party ID hash
+ */
+async function verifyAuthenticatorData(
+  authData: AuthenticatorData,
+  expected: WebAuthnExpectations
+): Promise<void> {
+  const rpIdHash = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', encoder.encode(expected.rpId))
+  );
+
+  if (base64UrlEncode(authData.rpIdHash) !== base64UrlEncode(rpIdHash)) {
+    throw new Error('Relying party ID mismatch');
+  }
+  if (!authData.userPresent) {
+    throw new Error('User was not present');
+  }
+  if (expected.requireUserVerification && !authData.userVerified) {
+    throw new Error('User was not verified');
+  }
+}
+
+/**
+ * Verify a registration response and extract the new credential
+ *
+ * @throws if the response does not match the expectations
+ */
+export async function verifyRegistrationResponse(
+  response: RegistrationResponseJSON,
+  expected: WebAuthnExpectations
+): Promise<VerifiedRegistration> {
+  verifyClientData(response.response.clientDataJSON, 'webauthn.create', expected);
+
+  const attestation = decodeCbor(base64UrlDecode(response.response.attestationObject));
+  const authDataBytes = attestation instanceof Map ? attestation.get('authData') : undefined;
+  if (!(authDataBytes instanceof Uint8Array)) {
+    throw new Error('Invalid attestation object');
+  }
+
+  const authData = parseAuthenticatorData(authDataBytes);
+  await verifyAuthenticatorData(authData, expected);
+
+  if (!authData.credential) {
+    throw new Error('Missing attested credential data');
+  }
+
+  const credentialId = base64UrlEncode(authData.credential.credentialId);
+  if (credentialId !== response.id) {
+    throw new Error('Credential ID mismatch');
+  }
+
+  // Reject keys that cannot be used later
+  coseToJwk(authData.credential.publicKey);
+
+  return {
+    credentialId,
+    publicKey: base64UrlEncode(authData.credential.publicKey),
+    counter: authData.counter,
+    transports: response.response.transports ?? []
+  };
+}
+
+/**
+ * Verify an authentication response against a stored credential
+ *
+ * @returns The new signature counter and whether the user was verified
+ * @throws if the response does not match the expectations or the
+ *   counter did not increase (a sign of a cloned authenticator)
+ */
+export async function verifyAuthenticationResponse(
+  response: AuthenticationResponseJSON,
+  credential: { publicKey: string; counter: number },
+  expected: WebAuthnExpectations
+): Promise<VerifiedAuthentication> {
+  const clientDataBytes = verifyClientData(response.response.clientDataJSON, 'webauthn.get', expected);
+
+  const authDataBytes = base64UrlDecode(response.response.authenticatorData);
+  const authData = parseAuthenticatorData(authDataBytes);
+  await verifyAuthenticatorData(authData, expected);
+
+  const clientDataHash = new Uint8Array(
+    await crypto.subtle.digest('SHA-256', clientDataBytes as unknown as BufferSource)
+  );
+  const signedData = new Uint8Array(authDataBytes.length + clientDataHash.length);
+  signedData.set(authDataBytes);
+  signedData.set(clientDataHash, authDataBytes.length);
+
+  const valid = await verifySignature(
+    base64UrlDecode(credential.publicKey),
+    base64UrlDecode(response.response.signature),
+    signedData
+  );
+  if (!valid) {
+    throw new Error('Invalid signature');
+  }
+
+  // Authenticators without a counter always report 0
+  if ((authData.counter > 0 || credential.counter > 0) && authData.counter <= credential.counter) {
+    throw new Error('Signature counter did not increase');
+  }
+
+  return { counter: authData.counter, userVerified: authData.userVerified };
+}